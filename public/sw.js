@@ -0,0 +1,80 @@
+/* Offline support: caches the app shell, the card database snapshot and every card image the app has shown. */
+const SHELL_CACHE = 'ygo-genesys-shell-v1';
+const IMAGE_CACHE = 'ygo-genesys-images-v1';
+const CARD_IMAGE_HOST = 'images.ygoprodeck.com';
+const scope = self.registration.scope;
+const SHELL_URLS = [scope, `${scope}index.html`, `${scope}card-db.json`];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) =>
+      // The card database is optional (dev builds skip it), so a failed precache must not block installation.
+      Promise.all(SHELL_URLS.map((url) => cache.add(url).catch(() => undefined))),
+    ),
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== IMAGE_CACHE).map((key) => caches.delete(key))),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(fallbackUrl ?? request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl ?? request);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  // Card art is loaded through <img> tags, so cross-origin responses are opaque (status 0) but still cacheable.
+  if (response.ok || response.type === 'opaque') {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+  const url = new URL(request.url);
+
+  if (url.hostname === CARD_IMAGE_HOST) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE));
+    return;
+  }
+  if (!request.url.startsWith(scope)) {
+    return;
+  }
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, `${scope}index.html`));
+    return;
+  }
+  // Hashed build assets never change, while the card database and data files are refreshed on each deploy.
+  event.respondWith(url.pathname.includes('/assets/') ? cacheFirst(request, SHELL_CACHE) : networkFirst(request, SHELL_CACHE));
+});
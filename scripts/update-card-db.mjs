@@ -0,0 +1,55 @@
+import { writeFile, mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CARD_DB_URL = 'https://db.ygoprodeck.com/api/v7/cardinfo.php?misc=yes';
+const FIELDS = ['id', 'name', 'type', 'race', 'level', 'linkval', 'desc', 'konamiId'];
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const outputPath = resolve(__dirname, '../public/card-db.json');
+
+const response = await fetch(CARD_DB_URL);
+if (!response.ok) {
+  throw new Error(`Failed to fetch YGOProDeck card database (${response.status} ${response.statusText})`);
+}
+
+const { data } = await response.json();
+if (!Array.isArray(data) || data.length === 0) {
+  throw new Error('YGOProDeck returned zero cards.');
+}
+
+// Rows are positional (see FIELDS) to keep the snapshot small enough to precache for offline use.
+const cards = data
+  .map((card) => [
+    card.id,
+    card.name,
+    card.type ?? null,
+    card.race ?? null,
+    card.level ?? null,
+    card.linkval ?? null,
+    card.desc ?? null,
+    card.misc_info?.[0]?.konami_id ?? null,
+  ])
+  .sort((a, b) => a[0] - b[0]);
+
+// Alternate artworks have their own passcodes but share the main card's data.
+const aliases = {};
+data.forEach((card) => {
+  card.card_images?.forEach((image) => {
+    if (image.id && image.id !== card.id) {
+      aliases[image.id] = card.id;
+    }
+  });
+});
+
+const payload = {
+  source: CARD_DB_URL,
+  lastUpdated: new Date().toISOString(),
+  fields: FIELDS,
+  cards,
+  aliases,
+};
+
+await mkdir(dirname(outputPath), { recursive: true });
+await writeFile(outputPath, `${JSON.stringify(payload)}\n`, 'utf8');
+
+console.debug(`Saved ${cards.length} cards (${Object.keys(aliases).length} alternate arts) to ${outputPath}`);
@@ -1,4 +1,4 @@
-import { writeFile, mkdir } from 'node:fs/promises';
+import { writeFile, mkdir, readdir, readFile, unlink } from 'node:fs/promises';
 import { dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { load } from 'cheerio';
@@ -6,6 +6,8 @@ import { load } from 'cheerio';
 const CARD_LIST_URL = 'https://www.yugioh-card.com/en/genesys/';
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const outputPath = resolve(__dirname, '../src/data/genesys-card-list.json');
+const historyDir = resolve(__dirname, '../src/data/genesys-history');
+const MAX_SNAPSHOTS = 30;
 
 const html = await fetch(CARD_LIST_URL);
 if (!html.ok) {
@@ -42,7 +44,54 @@ const payload = {
   cards,
 };
 
+const previousList = await readFile(outputPath, 'utf8')
+  .then((text) => JSON.parse(text))
+  .catch(() => null);
+
 await mkdir(dirname(outputPath), { recursive: true });
 await writeFile(outputPath, `${JSON.stringify(payload, null, 2)}\n`, 'utf8');
 
 console.debug(`Saved ${cards.length} cards to ${outputPath}`);
+
+// The app builds its changelog from consecutive snapshots, so one is only written when the points actually change.
+await mkdir(historyDir, { recursive: true });
+const snapshotFiles = (await readdir(historyDir)).filter((file) => /^\d{4}-\d{2}-\d{2}(T[\d-]+)?\.json$/.test(file)).sort();
+
+// Snapshots are named by day; a second one on the same day gets the time too, so neither replaces the other.
+// "2026-10-19.json" sorts before "2026-10-19T14-05-00.json", keeping the files in capture order.
+const snapshotName = (lastUpdated) => {
+  const date = lastUpdated.slice(0, 10);
+  return snapshotFiles.includes(`${date}.json`) ? `${lastUpdated.slice(0, 19).replace(/:/g, '-')}.json` : `${date}.json`;
+};
+
+// With no history yet, the list being replaced becomes the first snapshot so this update already has a diff.
+if (snapshotFiles.length === 0 && previousList?.cards?.length && previousList.lastUpdated) {
+  const date = previousList.lastUpdated.slice(0, 10);
+  const seedName = snapshotName(previousList.lastUpdated);
+  await writeFile(
+    resolve(historyDir, seedName),
+    `${JSON.stringify({ date, lastUpdated: previousList.lastUpdated, cards: previousList.cards }, null, 2)}\n`,
+    'utf8',
+  );
+  snapshotFiles.push(seedName);
+  console.debug(`Saved point list snapshot ${seedName} from the previous list`);
+}
+
+const latestFile = snapshotFiles[snapshotFiles.length - 1];
+const latest = latestFile ? JSON.parse(await readFile(resolve(historyDir, latestFile), 'utf8')) : null;
+const sameCards = latest && JSON.stringify(latest.cards) === JSON.stringify(cards);
+
+if (!sameCards) {
+  const date = payload.lastUpdated.slice(0, 10);
+  const name = snapshotName(payload.lastUpdated);
+  await writeFile(
+    resolve(historyDir, name),
+    `${JSON.stringify({ date, lastUpdated: payload.lastUpdated, cards }, null, 2)}\n`,
+    'utf8',
+  );
+  const kept = [...snapshotFiles, name].sort();
+  for (const file of kept.slice(0, Math.max(0, kept.length - MAX_SNAPSHOTS))) {
+    await unlink(resolve(historyDir, file));
+  }
+  console.debug(`Saved point list snapshot ${name}`);
+}
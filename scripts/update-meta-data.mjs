@@ -6,6 +6,7 @@ import { load } from 'cheerio';
 const GENESYS_META_URL = 'https://ygoprodeck.com/category/format/tournament%20meta%20decks%20(genesys)';
 const ADVANCED_META_URL = 'https://ygoprodeck.com/category/format/tournament%20meta%20decks';
 const API_ENDPOINT = 'https://db.ygoprodeck.com/api/v7/cardinfo.php';
+const MAX_RECENT_DECKS = 30;
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const outputPath = resolve(__dirname, '../src/data/meta-data.json');
 
@@ -54,6 +55,60 @@ async function scrapeRecentDecks(url) {
   return decks;
 }
 
+function decodeYdkeSection(encoded) {
+  const bytes = Buffer.from(encoded, 'base64');
+  const ids = [];
+  for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+    ids.push(bytes.readUInt32LE(offset));
+  }
+  return ids;
+}
+
+// Deck pages embed each section as a JSON array of passcodes (`var maindeckjs = '["..."]'`);
+// the ydke:// export link is used when those variables are missing.
+function extractDeckList(html) {
+  const readSection = (section) => {
+    const match = html.match(new RegExp(`var\\s+${section}deckjs\\s*=\\s*'(\\[[^']*\\])'`));
+    if (!match) return null;
+    try {
+      return JSON.parse(match[1]).map(Number).filter((id) => id > 0);
+    } catch {
+      return null;
+    }
+  };
+  const main = readSection('main');
+  if (main && main.length > 0) {
+    return { main, extra: readSection('extra') ?? [], side: readSection('side') ?? [] };
+  }
+
+  const ydke = html.match(/ydke:\/\/([A-Za-z0-9+/=]*)!([A-Za-z0-9+/=]*)!([A-Za-z0-9+/=]*)!?/);
+  if (!ydke) return null;
+  const [mainIds, extra, side] = ydke.slice(1, 4).map(decodeYdkeSection);
+  return mainIds.length > 0 ? { main: mainIds, extra, side } : null;
+}
+
+async function attachDeckLists(decks) {
+  // One page at a time to stay polite to YGOProDeck; a failed page just leaves that deck without a list.
+  for (const deck of decks) {
+    try {
+      const response = await fetch(deck.url);
+      if (!response.ok) {
+        console.warn(`Warning: Failed to fetch deck page ${deck.url}`);
+        continue;
+      }
+      const cards = extractDeckList(await response.text());
+      if (cards) {
+        deck.cards = cards;
+      } else {
+        console.warn(`Warning: No card list found on ${deck.url}`);
+      }
+    } catch (error) {
+      console.warn(`Warning: Failed to fetch deck page ${deck.url}:`, error.message);
+    }
+  }
+  return decks;
+}
+
 function extractArchetypes(decks) {
   // Extract archetype names from deck titles (e.g. "Magnet Warrior" from "Magnet Warrior Tournament Deck")
   // We'll take the full title as a potential archetype or partial match
@@ -61,15 +116,26 @@ function extractArchetypes(decks) {
 }
 
 try {
-  const [allCards, banlist, genesysDecks, advancedDecks] = await Promise.all([
+  const [allCards, banlist, genesysListing, advancedListing] = await Promise.all([
     fetchAllCardsWithMisc(),
     fetchBanlist(),
     scrapeRecentDecks(GENESYS_META_URL),
     scrapeRecentDecks(ADVANCED_META_URL)
   ]);
+  // Archetypes come from every listed deck; card lists are only fetched for the decks kept in recentDecks.
+  const genesysArchetypes = extractArchetypes(genesysListing);
+  const advancedArchetypes = extractArchetypes(advancedListing);
 
-  const genesysArchetypes = extractArchetypes(genesysDecks);
-  const advancedArchetypes = extractArchetypes(advancedDecks);
+  console.log('Capturing meta deck card lists...');
+  const genesysDecks = await attachDeckLists(genesysListing.slice(0, MAX_RECENT_DECKS));
+  const advancedDecks = await attachDeckLists(advancedListing.slice(0, MAX_RECENT_DECKS));
+  const capturedDecks = [...genesysDecks, ...advancedDecks];
+  const listedCount = capturedDecks.filter((deck) => deck.cards).length;
+  console.log(`Captured card lists for ${listedCount} of ${capturedDecks.length} meta decks`);
+  if (capturedDecks.length > 0 && listedCount === 0) {
+    // Loading and pasting meta decks only work for decks with a list, so a page layout change should not go unnoticed.
+    console.warn('Warning: No meta deck card list could be captured; the deck page markup may have changed.');
+  }
 
   // Process card popularity
   const popularCards = {};
@@ -108,11 +174,11 @@ try {
   const payload = {
     lastUpdated: new Date().toISOString(),
     genesys: {
-      recentDecks: genesysDecks.slice(0, 30),
+      recentDecks: genesysDecks,
       metaArchetypes: genesysArchetypes,
     },
     advanced: {
-      recentDecks: advancedDecks.slice(0, 30),
+      recentDecks: advancedDecks,
       metaArchetypes: advancedArchetypes,
       banlist,
     },
@@ -3,16 +3,28 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { Toaster, toast } from 'sonner';
 
 import genesysPayload from './data/genesys-card-list.json';
-import { normalizeCardName, formatCardTypeLabel } from './lib/strings.ts';
-import { parseYdk, buildYdke } from './lib/ydke.ts';
-import { normalizeFolders } from './lib/storage.ts';
-import { fetchCardByName, fetchCardsByKonamiIds } from './lib/ygoprodeck.ts';
+import { normalizeCardName, formatCardTypeLabel, formatTimestamp } from './lib/strings.ts';
+import { parseYdk, buildYdk, buildYdke } from './lib/ydke.ts';
+import {
+  findUnsortedFolder,
+  moveDeckBetweenFolders,
+  removeFolder,
+  readUserProfile,
+  writeUserProfile,
+} from './lib/storage.ts';
+import { backupNeedsPassphrase, createBackup, parseBackup, planRestore, serializeBackup, type RestorePlan } from './lib/backup.ts';
+import { fetchCardByName, fetchCardsByIds, fetchCardsByKonamiIds } from './lib/ygoprodeck.ts';
 import type {
   CardDetails,
   DeckSection,
-  Format,
   GenesysPayload,
+  LegalityViolationCode,
+  LibraryBackup,
+  MatchRecord,
   MetaData,
+  RestoreStrategy,
+  SavedDeckEntry,
+  SidePlan,
 } from './types.ts';
 
 import { ImportScreen } from './components/ImportScreen.tsx';
@@ -26,40 +38,104 @@ import { ProfileModal } from './components/ProfileModal.tsx';
 import { MissingIdResolver } from './components/MissingIdResolver.tsx';
 import type { MissingReplacementPick } from './components/MissingIdResolver.tsx';
 import { SavedDeckModal } from './components/SavedDeckModal.tsx';
+import { FormatProfileModal } from './components/FormatProfileModal.tsx';
+import { DeckHistoryModal } from './components/DeckHistoryModal.tsx';
+import { PointOptimizerModal } from './components/PointOptimizerModal.tsx';
+import { SidePlansModal } from './components/SidePlansModal.tsx';
+import { MatchLogModal } from './components/MatchLogModal.tsx';
+import { PointChangelog, PointUpdateBanner } from './components/PointChangelog.tsx';
+import { LibraryRescoreModal } from './components/LibraryRescoreModal.tsx';
+import { BackupModal, RestoreBackupModal, type RestoreSource } from './components/BackupModal.tsx';
+import { HandOddsPanel } from './components/HandOddsPanel.tsx';
+import { PointBreakdownPanel } from './components/PointBreakdownPanel.tsx';
+import { SampleHandModal } from './components/SampleHandModal.tsx';
+import { CompareView } from './components/CompareView.tsx';
 
 import { useDeckLibrary } from './hooks/useDeckLibrary';
 import { useActiveDeck } from './hooks/useActiveDeck';
 import { useUrlSync } from './hooks/useUrlSync';
 import { useCardDetails } from './hooks/useCardDetails';
 import { useDeckStats } from './hooks/useDeckStats';
-import { DEFAULT_POINT_CAP, createFolder, SAVED_DECKS_STORAGE_KEY } from './constants';
+import { useFormatProfiles } from './hooks/useFormatProfiles';
+import { usePointChangelog } from './hooks/usePointChangelog';
+import {
+  createFolder,
+  DEFAULT_FOLDER_ID,
+  DEFAULT_FOLDER_NAME,
+  POINT_CHANGES_SEEN_STORAGE_KEY,
+} from './constants';
 import { generateDeckListPDF } from './lib/pdf';
+import { validateDeck } from './lib/legality.ts';
+import { buildPointMap, usesPoints } from './lib/formatProfiles.ts';
+import { downloadTextFile, toFileName } from './lib/download.ts';
+import { buildKonamiDeck, parseKonamiDeck } from './lib/konamiDeck.ts';
+import { metaDeckToYdke, type MetaDeckMatch } from './lib/metaDecks.ts';
+import { findSnapshotCard, loadCardDatabase } from './lib/cardDatabase.ts';
+import { restoreDeckRevision } from './lib/deckHistory.ts';
+import { getCardTags } from './lib/cardTags.ts';
+import { formatSidePlansText } from './lib/sidePlans.ts';
+import { opponentSuggestions } from './lib/matchLog.ts';
+import { applyPointCutPlan, type PointCutPlan } from './lib/pointOptimizer.ts';
+import { findDeckPointChanges } from './lib/pointChangelog.ts';
+import {
+  PRESET_HAND_COMBOS,
+  countHandTags,
+  dealSampleHand,
+  emptySampleHandTally,
+  handTagLookup,
+  recordSampleHand,
+  type HandCombo,
+  type SampleHand,
+  type SampleHandTally,
+} from './lib/sampleHand.ts';
+import {
+  applyRescoredPoints,
+  collectLibraryCardIds,
+  rescoreLibrary,
+  type LibraryRescoreReport,
+} from './lib/libraryRescore.ts';
 import metaDataPayload from './data/meta-data.json';
 
 const genesysData = genesysPayload as GenesysPayload;
 const metaData = metaDataPayload as MetaData;
+const matchOpponents = opponentSuggestions(metaData);
+
+const deckZoneLabels: Record<DeckSection, string> = { main: 'Main', extra: 'Extra', side: 'Side' };
+
+const violationLabels: Record<LegalityViolationCode, string> = {
+  'deck-size': 'Deck size',
+  'copy-limit': 'Over limit',
+  forbidden: 'Forbidden',
+  'blocked-type': 'Blocked',
+  'wrong-zone': 'Wrong deck',
+};
 
 export default function App() {
   const location = useLocation();
   const navigate = useNavigate();
   const isResultsView = location.pathname === '/results';
+  const isCompareView = location.pathname === '/compare';
 
   // 1. Deck Library Management
-  const { savedFolders, setSavedFolders, setSavedFoldersAndPersist } = useDeckLibrary();
-
-  // Load from storage on mount
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(SAVED_DECKS_STORAGE_KEY);
-      if (stored) {
-        setSavedFolders(normalizeFolders(JSON.parse(stored)));
-      }
-    } catch {}
-  }, [setSavedFolders]);
+  const { savedFolders, setSavedFoldersAndPersist } = useDeckLibrary();
 
   // 2. Active Deck State
-  const [pointCap, setPointCap] = useState(DEFAULT_POINT_CAP);
-  const [format, setFormat] = useState<Format>('genesys');
+  const {
+    profiles: formatProfiles,
+    customProfiles,
+    activeProfile,
+    setActiveProfileId,
+    saveProfile,
+    deleteProfile,
+    importProfiles,
+  } = useFormatProfiles();
+  const [pointCap, setPointCap] = useState(activeProfile.pointCap);
+  const [pointCapProfileId, setPointCapProfileId] = useState(activeProfile.id);
+  if (pointCapProfileId !== activeProfile.id) {
+    // Switching profiles resets the cap to the new profile's default.
+    setPointCapProfileId(activeProfile.id);
+    setPointCap(activeProfile.pointCap);
+  }
   const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'error'>('idle');
   
   const {
@@ -69,18 +145,26 @@ export default function App() {
     setActiveDeck,
     deckInputSourceRef,
     lastSavedDeckRef,
+    deckTags,
+    setDeckTags,
+    handleSetCardTags,
+    handleToggleCardTag,
     deck,
     deckError,
     handleSaveDeck,
     handleUpdateCardCount,
     handleRemoveCard,
-    handleAddCard
+    handleAddCard,
+    commitDeckEdit,
+    handleUndo,
+    handleRedo,
+    undoLabel,
+    redoLabel
   } = useActiveDeck(setSavedFoldersAndPersist, savedFolders);
 
   // 3. Card Data & Stats
-  const genesysPointMap = useMemo(() => {
-    return new Map(genesysData.cards.map(c => [normalizeCardName(c.name), c.points]));
-  }, []);
+  const genesysPointMap = useMemo(() => buildPointMap(activeProfile, genesysData.cards), [activeProfile]);
+  const hasPoints = usesPoints(activeProfile);
 
   const uniqueCardIds = useMemo(() => {
     if (!deck) return [];
@@ -90,6 +174,31 @@ export default function App() {
   const { cardDetails, isFetchingCards, cardError } = useCardDetails(uniqueCardIds);
   const { deckGroups, totalPoints } = useDeckStats(deck, cardDetails, genesysPointMap);
 
+  // Deck edits carry a label so the undo/redo buttons and toasts can say what they will revert.
+  const cardLabel = useCallback((cardId: number) => cardDetails[cardId]?.name ?? `Card #${cardId}`, [cardDetails]);
+  const handleEditCardCount = useCallback(
+    (zone: DeckSection, cardId: number, delta: number) => {
+      const label = delta > 0
+        ? `Added ${cardLabel(cardId)} to ${deckZoneLabels[zone]}`
+        : `Removed ${cardLabel(cardId)} from ${deckZoneLabels[zone]}`;
+      handleUpdateCardCount(zone, cardId, delta, label);
+    },
+    [cardLabel, handleUpdateCardCount],
+  );
+  const handleEditRemoveCard = useCallback(
+    (zone: DeckSection, cardId: number) =>
+      handleRemoveCard(zone, cardId, `Removed ${cardLabel(cardId)} from ${deckZoneLabels[zone]}`),
+    [cardLabel, handleRemoveCard],
+  );
+  const handleUndoEdit = useCallback(() => {
+    const label = handleUndo();
+    if (label) toast(`Undid: ${label}`);
+  }, [handleUndo]);
+  const handleRedoEdit = useCallback(() => {
+    const label = handleRedo();
+    if (label) toast(`Redid: ${label}`);
+  }, [handleRedo]);
+
   const cardBreakdown = useMemo(() => ({
     main: deck?.main.length || 0,
     extra: deck?.extra.length || 0,
@@ -104,7 +213,9 @@ export default function App() {
     activeDeck,
     deckInputSourceRef,
     setActiveDeck,
-    setDeckInput
+    setDeckInput,
+    deckTags,
+    setDeckTags
   );
   const isSavedDeck = Boolean(activeDeck?.folderId && activeDeck?.deckId);
   const handleImportDeckInput = useCallback(
@@ -140,7 +251,22 @@ export default function App() {
   const [searchZone, setSearchZone] = useState<DeckSection | null>(null);
   const [showSavedDeckModal, setShowSavedDeckModal] = useState(false);
   const [showProfileModal, setShowProfileModal] = useState(false);
+  const [showFormatProfiles, setShowFormatProfiles] = useState(false);
+  const [showDeckHistory, setShowDeckHistory] = useState(false);
+  const [showSidePlans, setShowSidePlans] = useState(false);
+  const [showMatchLog, setShowMatchLog] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [restoreSource, setRestoreSource] = useState<RestoreSource | null>(null);
+  const [showOptimizer, setShowOptimizer] = useState(false);
+  const [lockedCutIds, setLockedCutIds] = useState<number[]>([]);
+  const [showRescore, setShowRescore] = useState(false);
+  const [rescoreReport, setRescoreReport] = useState<LibraryRescoreReport | null>(null);
+  const [sampleHand, setSampleHand] = useState<SampleHand | null>(null);
+  const [sampleHandTally, setSampleHandTally] = useState<SampleHandTally>(() => emptySampleHandTally(''));
+  const [trackedHandCombos, setTrackedHandCombos] = useState<HandCombo[]>(PRESET_HAND_COMBOS);
   const [showPointList, setShowPointList] = useState(false);
+  const [pointListTab, setPointListTab] = useState<'cards' | 'changes'>('cards');
+  const [seenPointChanges, setSeenPointChanges] = useState(() => localStorage.getItem(POINT_CHANGES_SEEN_STORAGE_KEY) ?? '');
   const [pointSearch, setPointSearch] = useState('');
   const [pendingPointMin, setPendingPointMin] = useState(1);
   const [pendingPointMax, setPendingPointMax] = useState(100);
@@ -153,14 +279,18 @@ export default function App() {
   const [showBlockedList, setShowBlockedList] = useState(false);
   const [missingCardContext, setMissingCardContext] = useState<{ zone: DeckSection; cardName: string } | null>(null);
   const [showUndetectedCardsWarning, setShowUndetectedCardsWarning] = useState(false);
+  const pointListCards = useMemo(
+    () => (activeProfile.pointSource === 'custom' ? activeProfile.customPoints ?? [] : genesysData.cards),
+    [activeProfile],
+  );
   const filteredPointCards = useMemo(() => {
     const query = normalizeCardName(pointSearch);
-    return genesysData.cards.filter((card) => {
+    return pointListCards.filter((card) => {
       if (card.points < pointMin || card.points > pointMax) return false;
       if (!query) return true;
       return normalizeCardName(card.name).includes(query);
     });
-  }, [pointSearch, pointMin, pointMax]);
+  }, [pointListCards, pointSearch, pointMin, pointMax]);
 
   const sortedPointCards = useMemo(
     () =>
@@ -189,6 +319,15 @@ export default function App() {
     (metaCardId ? 1 : 0) +
     (searchZone ? 1 : 0) +
     (showProfileModal ? 1 : 0) +
+    (showFormatProfiles ? 1 : 0) +
+    (showDeckHistory ? 1 : 0) +
+    (showSidePlans ? 1 : 0) +
+    (showMatchLog ? 1 : 0) +
+    (showBackup ? 1 : 0) +
+    (restoreSource ? 1 : 0) +
+    (showOptimizer ? 1 : 0) +
+    (showRescore ? 1 : 0) +
+    (sampleHand ? 1 : 0) +
     (showPointList ? 1 : 0) +
     (showBlockedList ? 1 : 0) +
     (missingCardContext ? 1 : 0) +
@@ -209,6 +348,42 @@ export default function App() {
       setShowProfileModal(false);
       return true;
     }
+    if (showFormatProfiles) {
+      setShowFormatProfiles(false);
+      return true;
+    }
+    if (showDeckHistory) {
+      setShowDeckHistory(false);
+      return true;
+    }
+    if (showSidePlans) {
+      setShowSidePlans(false);
+      return true;
+    }
+    if (showMatchLog) {
+      setShowMatchLog(false);
+      return true;
+    }
+    if (showBackup) {
+      setShowBackup(false);
+      return true;
+    }
+    if (restoreSource) {
+      setRestoreSource(null);
+      return true;
+    }
+    if (showOptimizer) {
+      setShowOptimizer(false);
+      return true;
+    }
+    if (showRescore) {
+      setShowRescore(false);
+      return true;
+    }
+    if (sampleHand) {
+      setSampleHand(null);
+      return true;
+    }
     if (searchZone) {
       setSearchZone(null);
       return true;
@@ -234,7 +409,7 @@ export default function App() {
       return true;
     }
     return false;
-  }, [showSavedDeckModal, showProfileModal, searchZone, metaCardId, focusedCard, showBlockedList, showPointList, missingCardContext, showUndetectedCardsWarning]);
+  }, [showSavedDeckModal, showProfileModal, showFormatProfiles, showDeckHistory, showSidePlans, showMatchLog, showBackup, restoreSource, showOptimizer, showRescore, sampleHand, searchZone, metaCardId, focusedCard, showBlockedList, showPointList, missingCardContext, showUndetectedCardsWarning]);
 
   const requestCloseTopModal = useCallback(() => {
     if (modalDepth > 0) window.history.back();
@@ -262,6 +437,24 @@ export default function App() {
     return () => window.removeEventListener('keydown', onKeyDown);
   }, [closeTopModal]);
 
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isResultsView || modalDepth > 0 || !(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndoEdit();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedoEdit();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isResultsView, modalDepth, handleUndoEdit, handleRedoEdit]);
+
   // Handlers
   const handleLoadSavedDeck = (fId: string, dId: string) => {
     const folder = savedFolders.find(f => f.id === fId);
@@ -300,6 +493,220 @@ export default function App() {
     if (activeDeck?.deckId === deckId) setActiveDeck(null);
   };
 
+  const activeSavedEntry = useMemo(() => {
+    if (!activeDeck?.folderId || !activeDeck?.deckId) return null;
+    const folder = savedFolders.find((entry) => entry.id === activeDeck.folderId);
+    return folder?.decks.find((entry) => entry.id === activeDeck.deckId) ?? null;
+  }, [savedFolders, activeDeck]);
+
+  const handleRestoreRevision = (revisionId: string) => {
+    if (!activeDeck?.folderId || !activeDeck?.deckId || !activeSavedEntry) return;
+    const revision = activeSavedEntry.history?.find((entry) => entry.id === revisionId);
+    if (!revision) return;
+    const timestamp = new Date().toISOString();
+    setSavedFoldersAndPersist((prev) =>
+      prev.map((folder) => {
+        if (folder.id !== activeDeck.folderId) return folder;
+        const decks = folder.decks.map((d) => (d.id === activeDeck.deckId ? restoreDeckRevision(d, revisionId, timestamp) : d));
+        return { ...folder, decks };
+      })
+    );
+    // The library entry is already updated, so the restored list must not trigger another auto-save.
+    deckInputSourceRef.current = 'saved';
+    lastSavedDeckRef.current = revision.deck;
+    setDeckInput(revision.deck);
+    setShowDeckHistory(false);
+    toast.success(`Restored the version from ${formatTimestamp(revision.savedAt)}.`);
+  };
+
+  // Side plans and match logs are optional lists on the entry; an empty list is dropped rather than stored.
+  const updateActiveSavedList = <K extends 'sidePlans' | 'matches'>(key: K, list: NonNullable<SavedDeckEntry[K]>) => {
+    if (!activeDeck?.folderId || !activeDeck?.deckId) return;
+    setSavedFoldersAndPersist((prev) =>
+      prev.map((folder) => {
+        if (folder.id !== activeDeck.folderId) return folder;
+        const decks = folder.decks.map((d) => {
+          if (d.id !== activeDeck.deckId) return d;
+          const next: SavedDeckEntry = { ...d, [key]: list };
+          if (list.length === 0) delete next[key];
+          return next;
+        });
+        return { ...folder, decks };
+      })
+    );
+  };
+
+  const handleSaveSidePlans = (plans: SidePlan[]) => updateActiveSavedList('sidePlans', plans);
+  const handleSaveMatches = (matches: MatchRecord[]) => updateActiveSavedList('matches', matches);
+
+  const handleExportSidePlans = () => {
+    const plans = activeSavedEntry?.sidePlans ?? [];
+    if (plans.length === 0) return;
+    const name = activeDeck?.name || 'Untitled deck';
+    const nameOf = (id: number) => cardDetails[id]?.name ?? `Card #${id}`;
+    downloadTextFile(`${toFileName(name)}_side_plans.txt`, formatSidePlansText(name, plans, nameOf));
+    toast.success(`Exported ${plans.length} side plan${plans.length === 1 ? '' : 's'}.`);
+  };
+
+  const handleApplyCutPlan = (plan: PointCutPlan) => {
+    if (!deck) return;
+    const next = applyPointCutPlan(deck, plan);
+    commitDeckEdit(
+      buildYdke(next.main, next.extra, next.side),
+      `Cut ${plan.cardsRemoved} card${plan.cardsRemoved === 1 ? '' : 's'} to reach ${plan.pointsAfter} pts`,
+    );
+    setShowOptimizer(false);
+    toast.success(`Removed ${plan.cardsRemoved} card${plan.cardsRemoved === 1 ? '' : 's'} (−${plan.pointsRemoved} pts).`);
+  };
+
+  const handleDeleteFolder = (folderId: string, moveDecksToUnsorted: boolean) => {
+    const folder = savedFolders.find((entry) => entry.id === folderId);
+    if (!folder) return;
+    setSavedFoldersAndPersist((prev) => removeFolder(prev, folderId, moveDecksToUnsorted));
+    if (activeDeck?.folderId === folderId) {
+      if (moveDecksToUnsorted) {
+        const unsorted = findUnsortedFolder(savedFolders.filter((entry) => entry.id !== folderId));
+        setActiveDeck({ ...activeDeck, folderId: unsorted?.id ?? DEFAULT_FOLDER_ID });
+      } else {
+        setActiveDeck(null);
+      }
+    }
+    toast.success(
+      moveDecksToUnsorted && folder.decks.length > 0
+        ? `Deleted ${folder.name} and moved ${folder.decks.length} deck${folder.decks.length === 1 ? '' : 's'} to ${DEFAULT_FOLDER_NAME}.`
+        : `Deleted ${folder.name}.`,
+    );
+  };
+
+  const handleMoveSavedDeck = (sourceFolderId: string, deckId: string, targetFolderId: string, targetIndex: number) => {
+    setSavedFoldersAndPersist((prev) => moveDeckBetweenFolders(prev, sourceFolderId, deckId, targetFolderId, targetIndex));
+    if (activeDeck?.deckId === deckId && activeDeck.folderId !== targetFolderId) {
+      setActiveDeck({ ...activeDeck, folderId: targetFolderId });
+    }
+  };
+
+  const savedDeckCount = savedFolders.reduce((sum, folder) => sum + folder.decks.length, 0);
+
+  const handleDownloadBackup = async (passphrase: string) => {
+    const backup = createBackup(savedFolders, readUserProfile(), {
+      formatProfiles: customProfiles,
+      activeFormatProfileId: activeProfile.id,
+      ...(seenPointChanges ? { pointChangesSeen: seenPointChanges } : {}),
+    });
+    try {
+      const text = await serializeBackup(backup, passphrase);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadTextFile(`ygo-genesys-backup-${date}${passphrase ? '-encrypted' : ''}.json`, text, 'application/json');
+      setShowBackup(false);
+      toast.success(`Backed up ${savedDeckCount} deck${savedDeckCount === 1 ? '' : 's'}${passphrase ? ' with a passphrase' : ''}.`);
+    } catch {
+      // WebCrypto is only available on HTTPS and localhost.
+      toast.error('Could not create the backup. Encryption needs the app to be opened over HTTPS.');
+    }
+  };
+
+  const handleRestoreBackup = (backup: LibraryBackup, strategy: RestoreStrategy, includeSettings: boolean) => {
+    // The producer runs once, right away, so the counts and the open-deck check describe exactly what was saved.
+    let plan = null as RestorePlan | null;
+    setSavedFoldersAndPersist((prev) => {
+      plan = planRestore(prev, backup.folders, strategy);
+      return plan.folders;
+    });
+    if (!plan) return;
+    if (activeDeck?.deckId && !plan.folders.some((folder) => folder.decks.some((entry) => entry.id === activeDeck.deckId))) {
+      setActiveDeck(null);
+    }
+    if (includeSettings) {
+      if (backup.profile) writeUserProfile({ ...readUserProfile(), ...backup.profile });
+      if (backup.settings) {
+        importProfiles(backup.settings.formatProfiles, strategy === 'replace');
+        if (backup.settings.activeFormatProfileId) setActiveProfileId(backup.settings.activeFormatProfileId);
+        if (backup.settings.pointChangesSeen) {
+          localStorage.setItem(POINT_CHANGES_SEEN_STORAGE_KEY, backup.settings.pointChangesSeen);
+          setSeenPointChanges(backup.settings.pointChangesSeen);
+        }
+      }
+    }
+    setRestoreSource(null);
+    toast.success(
+      `Restored backup: ${plan.added.length} added, ${plan.updated.length} updated, ${plan.skipped.length} skipped` +
+        (plan.removed.length > 0 ? `, ${plan.removed.length} removed.` : '.'),
+    );
+  };
+
+  // Saved summaries only self-correct when a deck is opened, so this re-scores the whole library in one pass.
+  const handleRescoreLibrary = async () => {
+    if (!hasPoints) {
+      toast.info(`${activeProfile.name} doesn't use points.`);
+      return;
+    }
+    if (savedFolders.every((folder) => folder.decks.length === 0)) {
+      toast.info('No saved decks to re-score.');
+      return;
+    }
+    setRescoreReport(null);
+    setShowRescore(true);
+    try {
+      const cards = await fetchCardsByIds(collectLibraryCardIds(savedFolders));
+      const report = rescoreLibrary(savedFolders, cards, genesysPointMap, pointCap);
+      setSavedFoldersAndPersist((prev) => applyRescoredPoints(prev, report));
+      setRescoreReport(report);
+    } catch {
+      setShowRescore(false);
+      toast.error('Unable to fetch card details for the library.');
+    }
+  };
+
+  const handleExportYdk = () => {
+    if (!deck) {
+      toast.info('No deck loaded to export.');
+      return;
+    }
+    const withNames = readUserProfile().ydkCardNames !== false;
+    const cardNames = withNames
+      ? Object.fromEntries(Object.values(cardDetails).map((card) => [card.id, card.name]))
+      : undefined;
+    const name = activeDeck?.name || 'Untitled deck';
+    downloadTextFile(`${toFileName(name)}.ydk`, buildYdk(deck, { cardNames, deckName: withNames ? name : undefined }));
+    toast.success('Deck exported as .ydk.');
+  };
+
+  const handleExportKonamiJson = async () => {
+    if (!deck) {
+      toast.info('No deck loaded to export.');
+      return;
+    }
+    const konamiIds: Record<number, number | undefined> = {};
+    [...deck.main, ...deck.extra, ...deck.side].forEach((id) => {
+      konamiIds[id] = cardDetails[id]?.konamiId;
+    });
+    // Older cache entries may predate konamiId, so fall back to the bundled snapshot.
+    if (Object.values(konamiIds).some((konamiId) => !konamiId)) {
+      const database = await loadCardDatabase();
+      Object.keys(konamiIds).forEach((key) => {
+        const id = Number(key);
+        if (!konamiIds[id] && database) konamiIds[id] = findSnapshotCard(database, id)?.konamiId;
+      });
+    }
+
+    const { json, missing } = buildKonamiDeck(deck, konamiIds);
+    if (json.m.ids.length + json.e.ids.length + json.s.ids.length === 0) {
+      toast.error('None of these cards have a Konami ID to export.');
+      return;
+    }
+    const name = activeDeck?.name || 'Untitled deck';
+    downloadTextFile(`${toFileName(name)}.json`, JSON.stringify(json), 'application/json');
+    if (missing.length > 0) {
+      const names = missing.map((id) => cardDetails[id]?.name ?? `#${id}`);
+      toast.warning(`Exported without ${missing.length} card${missing.length === 1 ? '' : 's'} lacking a Konami ID`, {
+        description: names.join(', '),
+        duration: 10000,
+      });
+    } else {
+      toast.success('Deck exported as Konami JSON.');
+    }
+  };
+
   const handleExportTxt = useCallback(async () => {
     if (!deckGroups) {
       toast.info('No deck loaded to export.');
@@ -367,9 +774,52 @@ export default function App() {
 
   const handleBrowsePointList = () => {
     setFocusedCard(null);
+    setPointListTab('cards');
+    setShowPointList(true);
+  };
+
+  // The changelog tracks the published Genesys list, so custom point profiles don't get it.
+  const tracksGenesysList = activeProfile.pointSource === 'genesys';
+  const pointHistory = usePointChangelog(tracksGenesysList);
+  const pointChangelog = useMemo(() => pointHistory?.entries ?? [], [pointHistory]);
+
+  // The tally lives here so it survives closing the sample hand; loading another deck starts it over.
+  const recordOpeningHand = (hand: number[]) => {
+    const deckKey = deckInput.trim();
+    const counts = countHandTags(hand, handTagLookup(cardDetails, deckTags));
+    setSampleHandTally((prev) =>
+      recordSampleHand(prev.deckKey === deckKey ? prev : emptySampleHandTally(deckKey), counts, trackedHandCombos),
+    );
+  };
+
+  const handleOpenSampleHand = () => {
+    if (!deck || deck.main.length === 0) return;
+    const initial = dealSampleHand(deck.main, 5);
+    recordOpeningHand(initial.hand);
+    setSampleHand(initial);
+  };
+  const deckCardNames = useMemo(
+    () => (deckGroups ? [...deckGroups.main, ...deckGroups.extra, ...deckGroups.side].map((card) => card.name) : []),
+    [deckGroups],
+  );
+  const latestPointUpdate = tracksGenesysList ? pointChangelog[0] ?? null : null;
+  const latestDeckPointChanges = useMemo(
+    () => (latestPointUpdate ? findDeckPointChanges(latestPointUpdate, deckCardNames) : []),
+    [latestPointUpdate, deckCardNames],
+  );
+
+  const handleShowPointChanges = () => {
+    setFocusedCard(null);
+    setPointListTab('changes');
     setShowPointList(true);
   };
 
+  const handleDismissPointUpdate = () => {
+    if (!latestPointUpdate) return;
+    localStorage.setItem(POINT_CHANGES_SEEN_STORAGE_KEY, latestPointUpdate.lastUpdated);
+    setSeenPointChanges(latestPointUpdate.lastUpdated);
+  };
+
   const handleShowBlockedList = () => setShowBlockedList(true);
 
   const handleViewResults = () => {
@@ -436,7 +886,7 @@ export default function App() {
     };
     container.addEventListener('scroll', handleScroll);
     return () => container.removeEventListener('scroll', handleScroll);
-  }, [showPointList, filteredPointCards.length]);
+  }, [showPointList, pointListTab, filteredPointCards.length]);
 
   const handleImportJsonDeck = useCallback(
     async (file: File) => {
@@ -450,20 +900,7 @@ export default function App() {
           if (lastBrace >= 0) jsonText = jsonText.slice(0, lastBrace + 1);
         }
         
-        const payload = JSON.parse(jsonText);
-        const expand = (section: any) => {
-          if (!section?.ids || !Array.isArray(section.ids)) return [];
-          const cards: number[] = [];
-          section.ids.forEach((id: number, idx: number) => {
-            const count = Number(section.r?.[idx] ?? 1);
-            for (let i = 0; i < count; i++) cards.push(id);
-          });
-          return cards;
-        };
-
-        const mainKonami = expand(payload.m);
-        const extraKonami = expand(payload.e);
-        const sideKonami = expand(payload.s);
+        const { main: mainKonami, extra: extraKonami, side: sideKonami } = parseKonamiDeck(JSON.parse(jsonText));
 
         const fetched = await fetchCardsByKonamiIds([...mainKonami, ...extraKonami, ...sideKonami]);
         const convert = (ids: number[]) => ids.map(id => fetched[id]?.id).filter(id => id > 0);
@@ -479,21 +916,37 @@ export default function App() {
     []
   );
 
-  const handleImportSavedDecks = useCallback(
-    async (file: File) => {
-      try {
-        const text = await file.text();
-        const parsed = JSON.parse(text);
-        const imported = normalizeFolders(parsed, false);
-        setSavedFoldersAndPersist((prev) => [...prev, ...imported]);
-        toast.success(`Imported ${imported.length} folders.`);
-      } catch (e) {
-        toast.error('Failed to import saved decks.');
+  // Meta decks are treated like shared links: scored right away but not auto-saved into the library.
+  const handleLoadMetaDeck = useCallback(
+    ({ deck: metaDeck, format }: MetaDeckMatch) => {
+      const ydke = metaDeckToYdke(metaDeck);
+      if (!ydke) {
+        toast.error(`No card list was captured for ${metaDeck.name}.`);
+        return;
       }
+      if (format === 'genesys' && activeProfile.pointSource !== 'genesys') {
+        setActiveProfileId('genesys');
+      }
+      setActiveDeck(null);
+      deckInputSourceRef.current = 'url';
+      setDeckInput(ydke);
+      navigate('/results');
+      toast.success(`Loaded ${metaDeck.name}.`);
     },
-    [setSavedFoldersAndPersist]
+    [activeProfile.pointSource, setActiveProfileId, setActiveDeck, deckInputSourceRef, setDeckInput, navigate],
   );
 
+  // Encrypted backups open the restore screen locked; everything else is read up front so a bad file fails here.
+  const handleOpenBackupFile = useCallback(async (file: File) => {
+    try {
+      const text = await file.text();
+      const backup = backupNeedsPassphrase(text) ? null : await parseBackup(text);
+      setRestoreSource({ fileName: file.name, text, backup });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the backup.');
+    }
+  }, []);
+
   const handleMissingIdResolve = (selection: MissingReplacementPick[]) => {
     if (!deck || !missingCardContext) return;
     const slots = missingSlots[missingCardContext.zone];
@@ -513,7 +966,10 @@ export default function App() {
       updated[missingCardContext.zone][slots[i]] = replacements[i];
     }
     
-    setDeckInput(buildYdke(updated.main, updated.extra, updated.side));
+    commitDeckEdit(
+      buildYdke(updated.main, updated.extra, updated.side),
+      `Replaced ${limit} missing card${limit === 1 ? '' : 's'} in ${deckZoneLabels[missingCardContext.zone]}`,
+    );
     setMissingCardContext(null);
   };
 
@@ -574,32 +1030,18 @@ export default function App() {
     if (becameResults) window.scrollTo({ top: 0, behavior: 'smooth' });
   }, [isResultsView]);
 
-  const blockedCards = useMemo(() => {
-    if (!deckGroups) return [];
-    const unique = new Map<string, any>();
-    (['main', 'extra', 'side'] as DeckSection[]).forEach((zone) => {
-      deckGroups[zone].forEach((card) => {
-        const details = cardDetails[card.id];
-        const type = details?.type?.toLowerCase() ?? '';
-        let isBlocked = false;
-        if (format === 'genesys') {
-          isBlocked = type.includes('link') || type.includes('pendulum');
-        } else {
-          const banStatus = (metaData as any).advanced.banlist[card.id.toString()];
-          const limit = banStatus === 'Limited' ? 1 : banStatus === 'Semi-Limited' ? 2 : 3;
-          isBlocked = banStatus === 'Forbidden' || card.count > limit;
-        }
-        if (!isBlocked) return;
-        const existing = unique.get(card.name);
-        if (existing) existing.count += card.count;
-        else unique.set(card.name, { ...card, displayType: formatCardTypeLabel(details?.type, details?.race) });
-      });
-    });
-    return Array.from(unique.values()).sort((a, b) => a.name.localeCompare(b.name));
-  }, [deckGroups, cardDetails, format]);
+  const legality = useMemo(() => {
+    if (!deck) return null;
+    return validateDeck(deck, cardDetails, { profile: activeProfile, banlist: metaData.advanced.banlist });
+  }, [deck, cardDetails, activeProfile]);
 
-  const blockedCardIdSet = useMemo(() => new Set(blockedCards.map(c => c.id).filter(id => id > 0)), [blockedCards]);
-  const blockedTotalCount = useMemo(() => blockedCards.reduce((sum, card) => sum + card.count, 0), [blockedCards]);
+  const cardIssues = useMemo(
+    () =>
+      (legality?.violations ?? [])
+        .filter((violation) => violation.cardIds?.length)
+        .sort((a, b) => (a.cardName ?? '').localeCompare(b.cardName ?? '')),
+    [legality],
+  );
 
   const unknownCards = useMemo(() => {
     if (!deckGroups) return 0;
@@ -609,8 +1051,15 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-canvas text-slate-50">
-      <main className={`mx-auto flex w-full ${isResultsView ? 'max-w-6xl' : 'max-w-4xl'} flex-col gap-6 px-1 py-1 md:px-6`}>
-        {!isResultsView ? (
+      <main className={`mx-auto flex w-full ${isResultsView || isCompareView ? 'max-w-6xl' : 'max-w-4xl'} flex-col gap-6 px-1 py-1 md:px-6`}>
+        {isCompareView ? (
+          <CompareView
+            savedFolders={savedFolders}
+            pointMap={genesysPointMap}
+            showPoints={hasPoints}
+            onBack={() => navigate('/')}
+          />
+        ) : !isResultsView ? (
           <ImportScreen
             genesysData={genesysData}
             deckError={deckError}
@@ -618,38 +1067,43 @@ export default function App() {
             onViewBreakdown={handleViewResults}
             onImportYdkFile={handleImportYdkFile}
             onImportJsonDeck={handleImportJsonDeck}
+            onLoadMetaDeck={handleLoadMetaDeck}
             savedFolders={savedFolders}
             onLoadSavedDeck={handleLoadSavedDeck}
+            onCompareSavedDeck={(deckId) => navigate(`/compare?a=${encodeURIComponent(deckId)}`)}
             onDeleteSavedDeck={handleDeleteSavedDeck}
             onCreateFolder={(name) => setSavedFoldersAndPersist(prev => [...prev, createFolder(name)])}
-            onDeleteFolder={() => {}}
+            onDeleteFolder={handleDeleteFolder}
             onRenameDeck={handleRenameSavedDeck}
-            onMoveDeck={() => {}}
-            onExportSavedDecks={() => {}}
-            onImportSavedDecks={handleImportSavedDecks}
+            onMoveDeck={handleMoveSavedDeck}
+            onBackUpLibrary={() => setShowBackup(true)}
+            onRescoreLibrary={handleRescoreLibrary}
+            onRestoreLibrary={handleOpenBackupFile}
             onShowProfile={() => setShowProfileModal(true)}
           />
         ) : (
           <div className="flex h-full flex-col gap-4">
             <SummaryPanel
-              format={format}
-              onFormatChange={setFormat}
+              profile={activeProfile}
+              profiles={formatProfiles}
+              onProfileChange={setActiveProfileId}
+              onManageProfiles={() => setShowFormatProfiles(true)}
               pointCap={pointCap}
               totalPoints={totalPoints}
               cardBreakdown={cardBreakdown}
-              cardsOverCap={format === 'genesys' && totalPoints > pointCap}
+              cardsOverCap={hasPoints && pointCap > 0 && totalPoints > pointCap}
               pointsRemaining={pointCap - totalPoints}
+              onOptimize={() => setShowOptimizer(true)}
               shareUrl={shareUrl}
               shareStatus={shareStatus}
               unknownCards={unknownCards}
-              blockedCount={blockedCards.length}
-              blockedTotalCount={blockedTotalCount}
+              violations={legality?.violations ?? []}
               cardError={cardError}
               isFetchingCards={isFetchingCards}
               onPointCapChange={setPointCap}
               onCopyShareLink={handleCopyShareLink}
               onBrowsePointList={handleBrowsePointList}
-              onShowBlocked={handleShowBlockedList}
+              onShowViolations={handleShowBlockedList}
               onBack={() => navigate('/')}
               onShowSavedDecks={() => setShowSavedDeckModal(true)}
               activeDeckName={activeDeck?.name ?? null}
@@ -659,8 +1113,20 @@ export default function App() {
                   handleRenameSavedDeck(activeDeck.folderId, activeDeck.deckId, name);
                 }
               }}
+              revisionCount={activeSavedEntry?.history?.length ?? 0}
+              onShowHistory={() => setShowDeckHistory(true)}
+              sidePlanCount={activeSavedEntry?.sidePlans?.length ?? 0}
+              onShowSidePlans={() => setShowSidePlans(true)}
+              matchCount={activeSavedEntry?.matches?.length ?? 0}
+              onShowMatchLog={() => setShowMatchLog(true)}
+              undoLabel={undoLabel}
+              redoLabel={redoLabel}
+              onUndo={handleUndoEdit}
+              onRedo={handleRedoEdit}
               onSaveDeck={() => handleSaveDeck('', undefined, totalPoints)}
               onExportTxt={handleExportTxt}
+              onExportYdk={handleExportYdk}
+              onExportKonamiJson={handleExportKonamiJson}
               onExportPdf={() => {
                 const profileRaw = localStorage.getItem('ygo-user-profile');
                 const profile = profileRaw ? JSON.parse(profileRaw) : { fullName: '', konamiId: '' };
@@ -668,20 +1134,36 @@ export default function App() {
               }}
               onShowProfile={() => setShowProfileModal(true)}
             />
-            <MetaInsights deckGroups={deckGroups} format={format} />
+            {latestPointUpdate && latestDeckPointChanges.length > 0 && seenPointChanges !== latestPointUpdate.lastUpdated && (
+              <PointUpdateBanner
+                entry={latestPointUpdate}
+                deckChanges={latestDeckPointChanges}
+                onShowChanges={handleShowPointChanges}
+                onDismiss={handleDismissPointUpdate}
+              />
+            )}
+            {hasPoints && deckGroups && (
+              <PointBreakdownPanel deckGroups={deckGroups} deckTags={deckTags} totalPoints={totalPoints} pointCap={pointCap} />
+            )}
+            <MetaInsights deckGroups={deckGroups} metaFormat={activeProfile.metaFormat} onLoadMetaDeck={handleLoadMetaDeck} />
+            {deckGroups && deckGroups.main.length > 0 && (
+              <HandOddsPanel main={deckGroups.main} deckTags={deckTags} onDrawSampleHand={handleOpenSampleHand} />
+            )}
             <section className="flex-1 overflow-hidden rounded-[28px] border border-white/10 bg-panel/90 p-4 shadow-panel">
               <CardSections
                 deckGroups={deckGroups}
-                format={format}
+                profile={activeProfile}
                 onCardSelect={setFocusedCard}
                 onMetaClick={setMetaCardId}
-                onUpdateCardCount={handleUpdateCardCount}
-                onRemoveCard={handleRemoveCard}
+                onUpdateCardCount={handleEditCardCount}
+                onRemoveCard={handleEditRemoveCard}
                 onAddCard={(zone) => setSearchZone(zone)}
                 onMissingCardSelect={handleMissingCardSelect}
                 sortMode={cardSortMode}
                 onSortModeChange={(z, m: any) => setCardSortMode({ ...cardSortMode, [z]: m })}
-                blockedCardIds={blockedCardIdSet}
+                cardViolations={legality?.cardViolations ?? {}}
+                deckTags={deckTags}
+                onToggleCardTag={handleToggleCardTag}
               />
             </section>
           </div>
@@ -694,7 +1176,7 @@ export default function App() {
         <CardSearchModal
           onClose={() => setSearchZone(null)}
           onAddCard={(card) => {
-            handleAddCard(searchZone, card.id);
+            handleAddCard(searchZone, card.id, `Added ${card.name} to ${deckZoneLabels[searchZone]}`);
             toast.success(`Added ${card.name}`);
           }}
         />
@@ -703,7 +1185,7 @@ export default function App() {
       {metaCardId && (
         <MetaCardModal
           cardId={metaCardId}
-          format={format}
+          metaFormat={activeProfile.metaFormat}
           onClose={() => setMetaCardId(null)}
         />
       )}
@@ -750,121 +1232,143 @@ export default function App() {
           >
             <div className="flex items-start justify-between gap-4">
               <div>
-                <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Genesys</p>
+                <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">
+                  {activeProfile.pointSource === 'custom' ? activeProfile.name : 'Genesys'}
+                </p>
                 <h2 className="text-2xl font-semibold">Point list</h2>
                 <p className="text-sm text-slate-400">
-                  {genesysData.cards.filter((card) => card.points > 0).length} cards with point values
+                  {pointListCards.filter((card) => card.points > 0).length} cards with point values
                 </p>
               </div>
               <button className="text-2xl text-slate-300 hover:text-white" onClick={requestCloseTopModal} aria-label="Close point list">
                 ×
               </button>
             </div>
-            <div className="flex flex-col gap-3 md:flex-row md:items-end">
-              <label className="flex-1 text-sm text-slate-200 space-y-1">
-                <span>Text search</span>
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    placeholder="Search card name or text"
-                    value={pointSearch}
-                    onChange={(event) => setPointSearch(event.target.value)}
-                    onKeyDown={(event) => event.key === 'Enter' && commitPointFilters()}
-                    className="flex-1 rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm"
-                  />
-                  {pointSearch && (
-                    <button
-                      type="button"
-                      onClick={() => setPointSearch('')}
-                      className="inline-flex h-8 w-8 items-center justify-center rounded-full bg-white/10 text-slate-300 hover:text-white"
-                    >
-                      ×
-                    </button>
-                  )}
-                </div>
-              </label>
-              <div className="flex gap-2">
-                <label className="w-20 text-sm text-slate-200 space-y-1">
-                  <span>Min pts</span>
-                  <input
-                    type="number"
-                    min={1}
-                    max={100}
-                    value={pendingPointMin}
-                    onChange={(event) => setPendingPointMin(Number(event.target.value))}
-                    onKeyDown={(event) => event.key === 'Enter' && commitPointFilters()}
-                    onBlur={commitPointFilters}
-                    className="w-full rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm font-bold"
-                  />
-                </label>
-                <label className="w-20 text-sm text-slate-200 space-y-1">
-                  <span>Max pts</span>
-                  <input
-                    type="number"
-                    min={1}
-                    max={100}
-                    value={pendingPointMax}
-                    onChange={(event) => setPendingPointMax(Number(event.target.value))}
-                    onKeyDown={(event) => event.key === 'Enter' && commitPointFilters()}
-                    onBlur={commitPointFilters}
-                    className="w-full rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm font-bold"
-                  />
-                </label>
+            {tracksGenesysList && (
+              <div className="flex gap-1 rounded-full border border-white/10 bg-black/20 p-1 text-[0.65rem] font-bold uppercase tracking-wider">
+                {(['cards', 'changes'] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    onClick={() => setPointListTab(tab)}
+                    className={`flex-1 rounded-full py-2 transition ${pointListTab === tab ? 'bg-cyan-500 text-slate-900' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {tab === 'cards' ? 'Cards' : `Changes${pointChangelog.length ? ` (${pointChangelog.length})` : ''}`}
+                  </button>
+                ))}
               </div>
-            </div>
+            )}
+            {tracksGenesysList && pointListTab === 'changes' ? (
+              <PointChangelog history={pointHistory} deckCardNames={deckCardNames} />
+            ) : (
+              <>
+                <div className="flex flex-col gap-3 md:flex-row md:items-end">
+                  <label className="flex-1 text-sm text-slate-200 space-y-1">
+                    <span>Text search</span>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        placeholder="Search card name or text"
+                        value={pointSearch}
+                        onChange={(event) => setPointSearch(event.target.value)}
+                        onKeyDown={(event) => event.key === 'Enter' && commitPointFilters()}
+                        className="flex-1 rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm"
+                      />
+                      {pointSearch && (
+                        <button
+                          type="button"
+                          onClick={() => setPointSearch('')}
+                          className="inline-flex h-8 w-8 items-center justify-center rounded-full bg-white/10 text-slate-300 hover:text-white"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  </label>
+                  <div className="flex gap-2">
+                    <label className="w-20 text-sm text-slate-200 space-y-1">
+                      <span>Min pts</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={pendingPointMin}
+                        onChange={(event) => setPendingPointMin(Number(event.target.value))}
+                        onKeyDown={(event) => event.key === 'Enter' && commitPointFilters()}
+                        onBlur={commitPointFilters}
+                        className="w-full rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm font-bold"
+                      />
+                    </label>
+                    <label className="w-20 text-sm text-slate-200 space-y-1">
+                      <span>Max pts</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={pendingPointMax}
+                        onChange={(event) => setPendingPointMax(Number(event.target.value))}
+                        onKeyDown={(event) => event.key === 'Enter' && commitPointFilters()}
+                        onBlur={commitPointFilters}
+                        className="w-full rounded-2xl border border-white/15 bg-black/30 px-3 py-2 text-sm font-bold"
+                      />
+                    </label>
+                  </div>
+                </div>
 
-            <div
-              ref={pointListRef}
-              className="grid flex-1 content-start gap-3 overflow-y-auto pr-2 md:grid-cols-2"
-            >
-              {visiblePointCards.length > 0 ? (
-                visiblePointCards.map((card) => {
-                  const details = pointCardInfo[card.name];
-                  return (
-                    <button
-                      key={card.name}
-                      onClick={() => handlePointCardClick(card)}
-                      data-testid="genesys-point-card"
-                      data-points={card.points}
-                      className="group flex items-center gap-3 rounded-2xl border border-white/5 bg-white/5 p-2 text-left transition hover:border-white/20 hover:bg-white/10"
-                    >
-                      <div className="relative h-14 w-10 flex-shrink-0 overflow-hidden rounded-md bg-slate-800">
-                        {details?.image ? (
-                          <img
-                            src={details.image}
-                            alt=""
-                            className="h-full w-full object-cover transition duration-300 group-hover:scale-110"
-                            loading="lazy"
-                          />
-                        ) : (
-                          <div className="flex h-full w-full items-center justify-center text-[0.5rem] uppercase text-slate-500">
-                            ...
+                <div
+                  ref={pointListRef}
+                  className="grid flex-1 content-start gap-3 overflow-y-auto pr-2 md:grid-cols-2"
+                >
+                  {visiblePointCards.length > 0 ? (
+                    visiblePointCards.map((card) => {
+                      const details = pointCardInfo[card.name];
+                      return (
+                        <button
+                          key={card.name}
+                          onClick={() => handlePointCardClick(card)}
+                          data-testid="genesys-point-card"
+                          data-points={card.points}
+                          className="group flex items-center gap-3 rounded-2xl border border-white/5 bg-white/5 p-2 text-left transition hover:border-white/20 hover:bg-white/10"
+                        >
+                          <div className="relative h-14 w-10 flex-shrink-0 overflow-hidden rounded-md bg-slate-800">
+                            {details?.image ? (
+                              <img
+                                src={details.image}
+                                alt=""
+                                className="h-full w-full object-cover transition duration-300 group-hover:scale-110"
+                                loading="lazy"
+                              />
+                            ) : (
+                              <div className="flex h-full w-full items-center justify-center text-[0.5rem] uppercase text-slate-500">
+                                ...
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
-                        <div className="flex-1 overflow-hidden">
-                          <p className="truncate text-sm font-medium text-slate-100 group-hover:text-white">
-                            {card.name}
-                          </p>
-                          <p className="text-[0.65rem] uppercase tracking-wider text-slate-400">
-                            {details ? formatCardTypeLabel(details.type, details.race) : 'Loading...'}
-                          </p>
-                        </div>
-                      <div className="rounded-xl bg-cyan-500/20 px-3 py-1 text-center">
-                        <span className="block text-xs font-bold text-cyan-200">{card.points}</span>
-                        <span className="block text-[0.5rem] uppercase tracking-tighter text-cyan-300/70">
-                          Pts
-                        </span>
-                      </div>
-                    </button>
-                  );
-                })
-              ) : (
-                <div className="col-span-full py-12 text-center text-slate-500">
-                  No cards found matching your search.
+                            <div className="flex-1 overflow-hidden">
+                              <p className="truncate text-sm font-medium text-slate-100 group-hover:text-white">
+                                {card.name}
+                              </p>
+                              <p className="text-[0.65rem] uppercase tracking-wider text-slate-400">
+                                {details ? formatCardTypeLabel(details.type, details.race) : 'Loading...'}
+                              </p>
+                            </div>
+                          <div className="rounded-xl bg-cyan-500/20 px-3 py-1 text-center">
+                            <span className="block text-xs font-bold text-cyan-200">{card.points}</span>
+                            <span className="block text-[0.5rem] uppercase tracking-tighter text-cyan-300/70">
+                              Pts
+                            </span>
+                          </div>
+                        </button>
+                      );
+                    })
+                  ) : (
+                    <div className="col-span-full py-12 text-center text-slate-500">
+                      No cards found matching your search.
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -877,42 +1381,50 @@ export default function App() {
           >
             <div className="flex items-start justify-between">
               <div>
-                <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Genesys</p>
-                <h2 className="text-2xl font-semibold text-amber-200">Blocked list</h2>
+                <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">{activeProfile.name}</p>
+                <h2 className="text-2xl font-semibold text-amber-200">Legality issues</h2>
                 <p className="text-sm text-slate-400">
-                  {blockedTotalCount} cards total in this deck are Link or Pendulum monsters.
+                  {cardIssues.length} card{cardIssues.length === 1 ? '' : 's'} in this deck break the format rules.
                 </p>
               </div>
-              <button className="text-2xl text-slate-300 hover:text-white" onClick={requestCloseTopModal} aria-label="Close blocked list">
+              <button className="text-2xl text-slate-300 hover:text-white" onClick={requestCloseTopModal} aria-label="Close legality issues">
                 ×
               </button>
             </div>
             <div className="flex-1 overflow-y-auto pr-2">
               <div className="space-y-2">
-                {blockedCards.map((card, idx) => (
-                  <div
-                    key={`${card.name}-${idx}`}
-                    className="flex items-center gap-3 rounded-2xl border border-rose-500/10 bg-rose-500/5 p-3"
-                  >
-                    <div className="flex h-8 w-8 items-center justify-center rounded-full bg-rose-500/20 text-sm font-bold text-rose-300">
-                      {card.count}
-                    </div>
-                    <div className="flex-1 overflow-hidden">
-                      <p className="truncate font-medium text-slate-100">{card.name}</p>
-                      <p className="text-[0.65rem] uppercase tracking-wider text-rose-300/70">
-                        {card.displayType}
-                      </p>
-                    </div>
-                    <div className="rounded-lg bg-rose-500/20 px-2 py-1 text-[0.6rem] font-bold uppercase tracking-wider text-rose-200">
-                      Blocked
+                {cardIssues.map((violation, idx) => {
+                  const details = violation.cardIds ? cardDetails[violation.cardIds[0]] : undefined;
+                  return (
+                    <div
+                      key={`${violation.code}-${violation.cardName}-${idx}`}
+                      className="flex items-center gap-3 rounded-2xl border border-rose-500/10 bg-rose-500/5 p-3"
+                    >
+                      <div className="flex h-8 w-8 items-center justify-center rounded-full bg-rose-500/20 text-sm font-bold text-rose-300">
+                        {violation.count}
+                      </div>
+                      <div className="flex-1 overflow-hidden">
+                        <p className="truncate font-medium text-slate-100">{violation.cardName}</p>
+                        <p className="text-[0.65rem] uppercase tracking-wider text-rose-300/70">
+                          {formatCardTypeLabel(details?.type, details?.race)}
+                        </p>
+                        <p className="text-xs text-slate-300">{violation.message}</p>
+                      </div>
+                      <div className="rounded-lg bg-rose-500/20 px-2 py-1 text-[0.6rem] font-bold uppercase tracking-wider text-rose-200">
+                        {violationLabels[violation.code]}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
             <div className="rounded-2xl bg-rose-500/10 p-4 text-center">
               <p className="text-xs font-medium text-rose-200">
-                Rule: Link and Pendulum monsters are not allowed in Genesys Format.
+                Rule: Max {activeProfile.copyLimit} copies per card in {activeProfile.name}
+                {activeProfile.blockedCardTypes.length > 0
+                  ? `; ${activeProfile.blockedCardTypes.join(' and ')} cards are not allowed`
+                  : ''}
+                .
               </p>
             </div>
           </div>
@@ -920,6 +1432,90 @@ export default function App() {
       )}
 
       {showProfileModal && <ProfileModal onClose={() => setShowProfileModal(false)} />}
+
+      {showOptimizer && deckGroups && (
+        <PointOptimizerModal
+          deckGroups={deckGroups}
+          pointCap={pointCap}
+          minMainDeck={activeProfile.deckSizes.main.min}
+          lockedIds={lockedCutIds}
+          onToggleLock={(cardId) =>
+            setLockedCutIds((prev) => (prev.includes(cardId) ? prev.filter((id) => id !== cardId) : [...prev, cardId]))
+          }
+          onApply={handleApplyCutPlan}
+          onClose={requestCloseTopModal}
+        />
+      )}
+
+      {sampleHand && deck && (
+        <SampleHandModal
+          main={deck.main}
+          initialSample={sampleHand}
+          cardDetails={cardDetails}
+          deckTags={deckTags}
+          tally={sampleHandTally.deckKey === deckInput.trim() ? sampleHandTally : emptySampleHandTally(deckInput.trim())}
+          trackedCombos={trackedHandCombos}
+          onOpeningHand={recordOpeningHand}
+          onTrackedCombosChange={setTrackedHandCombos}
+          onResetTally={() => setSampleHandTally(emptySampleHandTally(deckInput.trim()))}
+          onClose={requestCloseTopModal}
+        />
+      )}
+      {showRescore && (
+        <LibraryRescoreModal
+          report={rescoreReport}
+          profileName={activeProfile.name}
+          onLoadDeck={(folderId, deckId) => {
+            setShowRescore(false);
+            handleLoadSavedDeck(folderId, deckId);
+          }}
+          onClose={requestCloseTopModal}
+        />
+      )}
+
+      {showSidePlans && activeSavedEntry && deck && deckGroups && (
+        <SidePlansModal
+          deck={deck}
+          deckGroups={deckGroups}
+          plans={activeSavedEntry.sidePlans ?? []}
+          hasPoints={hasPoints}
+          pointCap={pointCap}
+          onSavePlans={handleSaveSidePlans}
+          onExport={handleExportSidePlans}
+          onClose={requestCloseTopModal}
+        />
+      )}
+
+      {showMatchLog && activeSavedEntry && (
+        <MatchLogModal
+          entry={activeSavedEntry}
+          opponentSuggestions={matchOpponents}
+          onSaveMatches={handleSaveMatches}
+          onClose={requestCloseTopModal}
+        />
+      )}
+
+      {showBackup && <BackupModal deckCount={savedDeckCount} onDownload={handleDownloadBackup} onClose={requestCloseTopModal} />}
+
+      {restoreSource && (
+        <RestoreBackupModal source={restoreSource} folders={savedFolders} onRestore={handleRestoreBackup} onClose={requestCloseTopModal} />
+      )}
+
+      {showDeckHistory && activeSavedEntry && (
+        <DeckHistoryModal entry={activeSavedEntry} onRestore={handleRestoreRevision} onClose={requestCloseTopModal} />
+      )}
+
+      {showFormatProfiles && (
+        <FormatProfileModal
+          profiles={formatProfiles}
+          activeProfileId={activeProfile.id}
+          onSelectProfile={setActiveProfileId}
+          onSaveProfile={saveProfile}
+          onDeleteProfile={deleteProfile}
+          onImportProfiles={importProfiles}
+          onClose={requestCloseTopModal}
+        />
+      )}
       
       {missingCardContext && (
         <MissingIdResolver
@@ -945,6 +1541,8 @@ export default function App() {
         <CardDetailModal
           card={focusedCard}
           details={cardDetails[focusedCard.id] || null}
+          tags={getCardTags(deckTags, focusedCard.name)}
+          onTagsChange={(tags) => handleSetCardTags(focusedCard.name, tags)}
           onClose={() => setFocusedCard(null)}
         />
       )}
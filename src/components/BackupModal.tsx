@@ -0,0 +1,262 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import type { LibraryBackup, RestoreStrategy, SavedDeckFolder } from '../types';
+import { formatTimestamp } from '../lib/strings.ts';
+import { parseBackup, planRestore, restoreStrategyLabels, type RestoreItem } from '../lib/backup.ts';
+
+export interface RestoreSource {
+  fileName: string;
+  text: string;
+  /** Null until an encrypted backup is unlocked. */
+  backup: LibraryBackup | null;
+}
+
+interface BackupModalProps {
+  deckCount: number;
+  onDownload: (passphrase: string) => Promise<void>;
+  onClose: () => void;
+}
+
+interface RestoreBackupModalProps {
+  source: RestoreSource;
+  folders: SavedDeckFolder[];
+  onRestore: (backup: LibraryBackup, strategy: RestoreStrategy, includeSettings: boolean) => void;
+  onClose: () => void;
+}
+
+const strategyDescriptions: Record<RestoreStrategy, string> = {
+  replace: 'Swap the whole library for the backup. Decks saved since are removed.',
+  'merge-id': 'Add missing decks and update the ones the backup has a newer copy of.',
+  'merge-ydke': 'Add only decks whose card list is not saved yet, under any name.',
+};
+
+const inputClass =
+  'w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-white placeholder:text-slate-500';
+
+function ModalFrame({ eyebrow, title, subtitle, onClose, children }: {
+  eyebrow: string;
+  title: string;
+  subtitle: string;
+  onClose: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-2xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">{eyebrow}</p>
+            <h2 className="text-2xl font-semibold">{title}</h2>
+            <p className="text-sm text-slate-400">{subtitle}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label={`Close ${title.toLowerCase()}`}>
+            ×
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function PreviewGroup({ label, items, tone }: { label: string; items: RestoreItem[]; tone: string }) {
+  return (
+    <details className="rounded-2xl border border-white/10 bg-black/20 p-3" open={items.length > 0 && items.length <= 8}>
+      <summary className="cursor-pointer text-sm">
+        <span className={`font-semibold ${tone}`}>{items.length}</span> <span className="text-slate-300">{label}</span>
+      </summary>
+      {items.length > 0 && (
+        <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto pr-1 text-xs">
+          {items.map((item) => (
+            <li key={`${item.folderName}-${item.deckId}`} className="flex justify-between gap-2">
+              <span className="truncate text-slate-200">
+                {item.name} <span className="text-slate-500">· {item.folderName}</span>
+              </span>
+              {item.note && <span className="shrink-0 text-slate-400">{item.note}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+export function BackupModal({ deckCount, onDownload, onClose }: BackupModalProps) {
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const mismatch = encrypt && confirmation.length > 0 && passphrase !== confirmation;
+  const canDownload = !isSaving && (!encrypt || (passphrase.length > 0 && passphrase === confirmation));
+
+  const handleDownload = async () => {
+    setIsSaving(true);
+    try {
+      await onDownload(encrypt ? passphrase : '');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ModalFrame
+      eyebrow="Library"
+      title="Back up"
+      subtitle={`${deckCount} saved deck${deckCount === 1 ? '' : 's'}, with tags, side plans, match logs and history, plus your player profile and format profiles.`}
+      onClose={onClose}
+    >
+      <label className="flex items-center gap-2 text-sm text-slate-200">
+        <input type="checkbox" checked={encrypt} onChange={(event) => setEncrypt(event.target.checked)} />
+        Protect with a passphrase
+      </label>
+      {encrypt && (
+        <div className="grid gap-2 sm:grid-cols-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            placeholder="Passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            placeholder="Repeat passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <p className={`text-xs sm:col-span-2 ${mismatch ? 'text-rose-300' : 'text-slate-400'}`}>
+            {mismatch ? 'The passphrases do not match.' : 'There is no way to recover a backup if the passphrase is lost.'}
+          </p>
+        </div>
+      )}
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={!canDownload}
+          className="rounded-full bg-cyan-500 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400 disabled:opacity-40"
+        >
+          {isSaving ? 'Encrypting…' : 'Download backup'}
+        </button>
+      </div>
+    </ModalFrame>
+  );
+}
+
+export function RestoreBackupModal({ source, folders, onRestore, onClose }: RestoreBackupModalProps) {
+  const [backup, setBackup] = useState<LibraryBackup | null>(source.backup);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('merge-id');
+  const [includeSettings, setIncludeSettings] = useState(true);
+
+  const plan = useMemo(() => (backup ? planRestore(folders, backup.folders, strategy) : null), [backup, folders, strategy]);
+  const hasSettings = Boolean(backup?.profile || backup?.settings);
+  const profileCount = backup?.settings?.formatProfiles.length ?? 0;
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      setBackup(await parseBackup(source.text, passphrase));
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Could not read the backup.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <ModalFrame
+      eyebrow="Library"
+      title="Restore backup"
+      subtitle={`${source.fileName}${backup?.createdAt ? ` · made ${formatTimestamp(backup.createdAt)}` : ''}`}
+      onClose={onClose}
+    >
+      {!backup || !plan ? (
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (passphrase) handleUnlock();
+          }}
+        >
+          <p className="text-sm text-slate-300">This backup is encrypted. Enter the passphrase it was made with.</p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            autoFocus
+            className={inputClass}
+          />
+          {unlockError && <p className="text-xs text-rose-300">{unlockError}</p>}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!passphrase || isUnlocking}
+              className="rounded-full bg-cyan-500 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400 disabled:opacity-40"
+            >
+              {isUnlocking ? 'Unlocking…' : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-col gap-3 overflow-y-auto pr-1">
+          <div className="grid gap-2 sm:grid-cols-3">
+            {(Object.keys(restoreStrategyLabels) as RestoreStrategy[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setStrategy(option)}
+                aria-pressed={strategy === option}
+                className={`rounded-2xl border p-3 text-left transition ${
+                  strategy === option ? 'border-cyan-400/60 bg-cyan-500/15' : 'border-white/10 bg-black/20 hover:border-white/30'
+                }`}
+              >
+                <p className="text-sm font-semibold text-white">{restoreStrategyLabels[option]}</p>
+                <p className="mt-1 text-xs text-slate-400">{strategyDescriptions[option]}</p>
+              </button>
+            ))}
+          </div>
+
+          <PreviewGroup label="added" items={plan.added} tone="text-emerald-300" />
+          <PreviewGroup label="updated" items={plan.updated} tone="text-cyan-300" />
+          <PreviewGroup label="skipped" items={plan.skipped} tone="text-slate-300" />
+          {strategy === 'replace' && <PreviewGroup label="removed" items={plan.removed} tone="text-rose-300" />}
+
+          <label className={`flex items-center gap-2 text-sm ${hasSettings ? 'text-slate-200' : 'text-slate-500'}`}>
+            <input
+              type="checkbox"
+              checked={hasSettings && includeSettings}
+              disabled={!hasSettings}
+              onChange={(event) => setIncludeSettings(event.target.checked)}
+            />
+            {hasSettings
+              ? `Also restore the player profile and ${profileCount} custom format profile${profileCount === 1 ? '' : 's'}`
+              : 'This file has no profile or settings'}
+          </label>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => onRestore(backup, strategy, hasSettings && includeSettings)}
+              className={`rounded-full px-4 py-1.5 text-xs font-bold uppercase tracking-wide ${
+                strategy === 'replace' ? 'bg-rose-500 text-white hover:bg-rose-400' : 'bg-cyan-500 text-slate-900 hover:bg-cyan-400'
+              }`}
+            >
+              {strategy === 'replace' ? 'Replace library' : 'Restore'}
+            </button>
+          </div>
+        </div>
+      )}
+    </ModalFrame>
+  );
+}
@@ -1,13 +1,32 @@
+import { useState } from 'react';
 import type { DeckCardGroup, CardDetails } from '../types';
 import { formatCardTypeLabel } from '../lib/strings';
+import { CARD_ROLES, cardRoleLabels, cleanCustomTag, isCardRole } from '../lib/cardTags';
 
 interface CardDetailModalProps {
   card: DeckCardGroup;
   details: CardDetails | null;
+  /** Role and custom tags for this card in the active deck; editing is hidden when no handler is passed. */
+  tags?: string[];
+  onTagsChange?: (tags: string[]) => void;
   onClose: () => void;
 }
 
-export function CardDetailModal({ card, details, onClose }: CardDetailModalProps) {
+export function CardDetailModal({ card, details, tags = [], onTagsChange, onClose }: CardDetailModalProps) {
+  const [customTag, setCustomTag] = useState('');
+  const canTag = Boolean(onTagsChange) && card.id > 0 && card.count > 0;
+  const customTags = tags.filter((tag) => !isCardRole(tag));
+
+  const toggleTag = (tag: string) => {
+    onTagsChange?.(tags.includes(tag) ? tags.filter((entry) => entry !== tag) : [...tags, tag]);
+  };
+
+  const handleAddCustomTag = () => {
+    const cleaned = cleanCustomTag(customTag);
+    if (cleaned && !tags.includes(cleaned)) onTagsChange?.([...tags, cleaned]);
+    setCustomTag('');
+  };
+
   const formatCardText = (text?: string) => {
     if (!text) return 'No description available.';
     return text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
@@ -84,6 +103,61 @@ export function CardDetailModal({ card, details, onClose }: CardDetailModalProps
                 <p className="text-lg font-semibold text-white">{card.totalPoints}</p>
               </div>
             </div>
+            {canTag && (
+              <div className="space-y-2 rounded-2xl border border-white/10 bg-black/20 p-3">
+                <p className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">Role in this deck</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {CARD_ROLES.map((role) => {
+                    const active = tags.includes(role);
+                    return (
+                      <button
+                        key={role}
+                        type="button"
+                        onClick={() => toggleTag(role)}
+                        aria-pressed={active}
+                        className={`rounded-full border px-2.5 py-1 text-[0.65rem] font-bold uppercase tracking-wider transition ${
+                          active ? 'border-cyan-400 bg-cyan-500 text-slate-900' : 'border-white/10 text-slate-300 hover:border-white/40'
+                        }`}
+                      >
+                        {cardRoleLabels[role]}
+                      </button>
+                    );
+                  })}
+                  {customTags.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleTag(tag)}
+                      title="Remove tag"
+                      className="rounded-full border border-amber-400/40 bg-amber-500/10 px-2.5 py-1 text-[0.65rem] font-bold uppercase tracking-wider text-amber-200 hover:border-amber-300"
+                    >
+                      {tag} ×
+                    </button>
+                  ))}
+                </div>
+                <form
+                  className="flex gap-2"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    handleAddCustomTag();
+                  }}
+                >
+                  <input
+                    value={customTag}
+                    onChange={(event) => setCustomTag(event.target.value)}
+                    placeholder="Custom tag"
+                    className="min-w-0 flex-1 rounded-xl border border-white/10 bg-black/40 px-3 py-1.5 text-sm text-white placeholder:text-slate-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!cleanCustomTag(customTag)}
+                    className="rounded-full border border-white/15 px-3 py-1 text-xs font-semibold text-white hover:border-white/40 disabled:opacity-40"
+                  >
+                    Add
+                  </button>
+                </form>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,13 +1,16 @@
 import { useMemo, useState } from 'react';
-import type { DeckCardGroup, DeckGroups, DeckSection, MetaData, Format } from '../types';
+import type { DeckCardGroup, DeckGroups, DeckSection, MetaData, FormatProfile, DeckTags, HandCategory, LegalityViolation } from '../types';
 import { formatCardTypeLabel } from '../lib/strings';
+import { getBanStatus, usesPoints } from '../lib/formatProfiles';
+import { HAND_CATEGORIES, handCategoryLabels, isHandCategory } from '../lib/handOdds';
+import { formatCardTag, getCardTags } from '../lib/cardTags';
 import metaDataPayload from '../data/meta-data.json';
 
 const metaData = metaDataPayload as MetaData;
 
 interface CardSectionsProps {
   deckGroups: DeckGroups | null;
-  format: Format;
+  profile: FormatProfile;
   onCardSelect: (card: DeckCardGroup) => void;
   onMetaClick: (cardId: number) => void;
   onUpdateCardCount: (zone: DeckSection, cardId: number, delta: number) => void;
@@ -16,14 +19,73 @@ interface CardSectionsProps {
   onMissingCardSelect?: (card: DeckCardGroup) => void;
   sortMode: Record<DeckSection, 'points' | 'default'>;
   onSortModeChange: (zone: DeckSection, mode: 'points' | 'default') => void;
-  blockedCardIds: Set<number>;
+  cardViolations: Record<number, LegalityViolation[]>;
+  deckTags: DeckTags;
+  onToggleCardTag: (cardName: string, tag: string) => void;
 }
 
 const sections: DeckSection[] = ['main', 'extra', 'side'];
 
+const handTagStyles: Record<HandCategory, { short: string; active: string }> = {
+  starter: { short: 'S', active: 'border-emerald-400/60 bg-emerald-500/30 text-emerald-100' },
+  extender: { short: 'E', active: 'border-cyan-400/60 bg-cyan-500/30 text-cyan-100' },
+  handTrap: { short: 'HT', active: 'border-violet-400/60 bg-violet-500/30 text-violet-100' },
+  brick: { short: 'B', active: 'border-rose-400/60 bg-rose-500/30 text-rose-100' },
+};
+
+function HandTagToggles({
+  tags,
+  onToggle,
+  compact = false,
+}: {
+  tags: HandCategory[];
+  onToggle: (category: HandCategory) => void;
+  compact?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {HAND_CATEGORIES.map((category) => {
+        const isActive = tags.includes(category);
+        return (
+          <button
+            key={category}
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(category);
+            }}
+            aria-pressed={isActive}
+            title={`${isActive ? 'Untag' : 'Tag'} as ${handCategoryLabels[category].toLowerCase()}`}
+            className={`rounded-full border px-1.5 py-0.5 text-[9px] font-bold uppercase tracking-wider transition ${
+              isActive ? handTagStyles[category].active : 'border-white/10 bg-black/30 text-slate-500 hover:border-white/30 hover:text-slate-200'
+            }`}
+          >
+            {compact ? handTagStyles[category].short : handCategoryLabels[category]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function CardTagChips({ tags }: { tags: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="rounded-full border border-amber-400/40 bg-amber-500/15 px-1.5 py-0.5 text-[9px] font-bold uppercase tracking-wider text-amber-100"
+        >
+          {formatCardTag(tag)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 export function CardSections({
   deckGroups,
-  format,
+  profile,
   onCardSelect,
   onMetaClick,
   onUpdateCardCount,
@@ -32,12 +94,16 @@ export function CardSections({
   onMissingCardSelect,
   sortMode,
   onSortModeChange,
-  blockedCardIds,
+  cardViolations,
+  deckTags,
+  onToggleCardTag,
 }: CardSectionsProps) {
   if (!deckGroups) {
     return <p className="text-sm text-slate-400">Paste a deck to unlock card insights.</p>;
   }
 
+  const hasPoints = usesPoints(profile);
+
   const [gridView, setGridView] = useState<Record<DeckSection, boolean>>({
     main: true,
     extra: true,
@@ -208,21 +274,26 @@ export function CardSections({
                   onCardSelect(card);
                 };
 
-                const banStatus = metaData.advanced.banlist[card.id.toString()];
-                const isForbidden = (format === 'genesys' && card.id > 0 && blockedCardIds.has(card.id)) || 
-                                  (format === 'advanced' && banStatus === 'Forbidden');
-                
-                const limitCount = format === 'advanced' 
-                  ? (banStatus === 'Limited' ? 1 : banStatus === 'Semi-Limited' ? 2 : 3)
-                  : 3;
-                
-                const isOverLimit = format === 'advanced' && card.count > limitCount;
+                const banStatus =
+                  card.id > 0 ? getBanStatus(profile, { ids: [card.id], name: card.name }, metaData.advanced.banlist) : undefined;
+                const violations = card.id > 0 ? cardViolations[card.id] ?? [] : [];
+                const isForbidden = violations.some((v) => v.code === 'blocked-type' || v.code === 'forbidden');
+                const copyViolation = violations.find((v) => v.code === 'copy-limit');
+                const limitCount = copyViolation?.limit ?? profile.copyLimit;
+                const isOverLimit = Boolean(copyViolation);
+                const zoneViolation = violations.find((v) => v.code === 'wrong-zone' && v.zone === zone);
+
+                // Opening-hand odds only look at the main deck, so the quick toggles are main deck only; every other
+                // tag (set from the card details) shows as a read-only chip in any zone.
+                const cardTags = card.id > 0 ? getCardTags(deckTags, card.name) : [];
+                const canTag = zone === 'main' && card.id > 0;
+                const cardHandTags = canTag ? cardTags.filter(isHandCategory) : [];
+                const chipTags = canTag ? cardTags.filter((tag) => !isHandCategory(tag)) : cardTags;
 
                 const cardMeta = metaData.popularCards[card.id.toString()];
                 const isRelevantMeta = cardMeta && (
                   cardMeta.staple || 
-                  (format === 'genesys' && cardMeta.metaContext?.genesys) ||
-                  (format === 'advanced' && cardMeta.metaContext?.advanced)
+                  cardMeta.metaContext?.[profile.metaFormat]
                 );
 
                 if (gridView[zone]) {
@@ -231,8 +302,9 @@ export function CardSections({
                     <li
                       key={`${zone}-${card.id}-${card.name}-grid-${index}`}
                       className={`relative overflow-hidden rounded-xl border text-xs text-white transition ${
-                        isForbidden || isOverLimit ? 'border-rose-500/50 bg-rose-500/10' : 'border-white/15 bg-black/30'
+                        isForbidden || isOverLimit || zoneViolation ? 'border-rose-500/50 bg-rose-500/10' : 'border-white/15 bg-black/30'
                       }`}
+                      title={violations.map((v) => v.message).join('\n') || undefined}
                     >
                       <button type="button" className="block w-full" onClick={handleSelect}>
                         <div className="relative">
@@ -249,14 +321,14 @@ export function CardSections({
                             className={`absolute left-2 top-2 flex h-10 w-10 items-center justify-center rounded-full border text-sm font-semibold shadow-lg backdrop-blur-sm ${
                               isForbidden || isOverLimit 
                                 ? 'border-rose-400 bg-rose-600 text-white' 
-                                : format === 'advanced' && banStatus
+                                : banStatus
                                   ? 'border-amber-400/50 bg-amber-600/90 text-white'
-                                  : format === 'advanced' 
+                                  : !hasPoints
                                     ? 'border-white/20 bg-black/60 text-slate-400 opacity-0 group-hover:opacity-100'
                                     : 'border-white/50 bg-black/80'
                             }`}
                           >
-                            {isForbidden ? '✕' : isOverLimit ? `!${limitCount}` : format === 'advanced' && banStatus ? (banStatus === 'Limited' ? '1' : '2') : format === 'genesys' ? card.totalPoints : ''}
+                            {isForbidden ? '✕' : isOverLimit ? `!${limitCount}` : banStatus ? (banStatus === 'Limited' ? '1' : '2') : hasPoints ? card.totalPoints : ''}
                           </div>
                           {editMode[zone] && (
                             <button
@@ -308,6 +380,14 @@ export function CardSections({
                           </p>
                         </div>
                       </button>
+                      {(canTag || chipTags.length > 0) && (
+                        <div className="space-y-1 px-2 pb-2" style={{ backgroundColor: colors.header }}>
+                          {canTag && (
+                            <HandTagToggles tags={cardHandTags} onToggle={(category) => onToggleCardTag(card.name, category)} compact />
+                          )}
+                          {chipTags.length > 0 && <CardTagChips tags={chipTags} />}
+                        </div>
+                      )}
                     </li>
                   );
                 }
@@ -342,13 +422,13 @@ export function CardSections({
                               Missing ID · Click to replace
                             </span>
                           )}
-                          {card.id > 0 && format === 'genesys' &&
+                          {card.id > 0 && hasPoints &&
                             (card.notInList ? (
                               <span className="rounded-full border border-white/15 px-2 py-0.5">0 pts (not listed)</span>
                             ) : (
                               <span className="rounded-full border border-white/15 px-2 py-0.5">{card.pointsPerCopy} pts each</span>
                             ))}
-                          {format === 'advanced' && banStatus && (
+                          {banStatus && (
                             <span className={`rounded-full px-2 py-0.5 font-bold ${
                               banStatus === 'Forbidden' ? 'bg-rose-500/20 text-rose-300 border border-rose-500/30' : 'bg-amber-500/20 text-amber-300 border border-amber-500/30'
                             }`}>
@@ -360,6 +440,14 @@ export function CardSections({
                               OVER LIMIT ({limitCount})
                             </span>
                           )}
+                          {zoneViolation && (
+                            <span
+                              className="rounded-full border border-rose-500/30 bg-rose-500/20 px-2 py-0.5 font-bold text-rose-300"
+                              title={zoneViolation.message}
+                            >
+                              {zone === 'main' ? 'Extra Deck only' : 'Not an Extra Deck card'}
+                            </span>
+                          )}
                           {isRelevantMeta && (
                             <button
                               type="button"
@@ -373,14 +461,20 @@ export function CardSections({
                             </button>
                           )}
                         </div>
+                        {(canTag || chipTags.length > 0) && (
+                          <div className="mt-2 space-y-1">
+                            {canTag && <HandTagToggles tags={cardHandTags} onToggle={(category) => onToggleCardTag(card.name, category)} />}
+                            {chipTags.length > 0 && <CardTagChips tags={chipTags} />}
+                          </div>
+                        )}
                       </div>
                       <div className="flex items-center gap-3 text-sm font-semibold text-white">
                         <div
                           className={`flex h-10 w-10 items-center justify-center rounded-full border text-base ${
-                            isForbidden || isOverLimit ? 'border-rose-200 bg-rose-600/90 text-white' : format === 'advanced' && banStatus ? 'border-amber-400/50 bg-amber-600/90 text-white' : 'border-white/30 bg-black/40'
+                            isForbidden || isOverLimit ? 'border-rose-200 bg-rose-600/90 text-white' : banStatus ? 'border-amber-400/50 bg-amber-600/90 text-white' : 'border-white/30 bg-black/40'
                           }`}
                         >
-                          {isForbidden ? '✕' : isOverLimit ? `!${limitCount}` : format === 'advanced' && banStatus ? (banStatus === 'Limited' ? '1' : '2') : format === 'genesys' ? card.totalPoints : ''}
+                          {isForbidden ? '✕' : isOverLimit ? `!${limitCount}` : banStatus ? (banStatus === 'Limited' ? '1' : '2') : hasPoints ? card.totalPoints : ''}
                         </div>
                         <span className={isOverLimit ? 'text-rose-400 font-black' : ''}>×{card.count}</span>
                         {editMode[zone] && (
@@ -0,0 +1,247 @@
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { DeckSection, ParsedDeck, SavedDeckFolder } from '../types';
+import { parseYdke } from '../lib/ydke.ts';
+import {
+  compareDeckGroups,
+  resolveCompareParam,
+  toCompareParam,
+  type CardComparisonRow,
+  type CompareDeckSource,
+} from '../lib/deckCompare.ts';
+import { useCardDetails } from '../hooks/useCardDetails';
+import { useDeckStats } from '../hooks/useDeckStats';
+
+interface CompareViewProps {
+  savedFolders: SavedDeckFolder[];
+  pointMap: Map<string, number>;
+  showPoints: boolean;
+  onBack: () => void;
+}
+
+type CompareSide = 'a' | 'b';
+type RowFilter = 'all' | 'differences' | 'shared';
+
+const sections: DeckSection[] = ['main', 'extra', 'side'];
+const sectionLabels: Record<DeckSection, string> = { main: 'Main Deck', extra: 'Extra Deck', side: 'Side Deck' };
+
+const safeParse = (source: CompareDeckSource | null): ParsedDeck | null => {
+  if (!source) return null;
+  try {
+    return parseYdke(source.ydke);
+  } catch {
+    return null;
+  }
+};
+
+const formatDelta = (value: number, suffix = '') => (value === 0 ? '–' : `${value > 0 ? '+' : '−'}${Math.abs(value)}${suffix}`);
+
+export function CompareView({ savedFolders, pointMap, showPoints, onBack }: CompareViewProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pasteValue, setPasteValue] = useState<Record<CompareSide, string>>({ a: '', b: '' });
+  const [filter, setFilter] = useState<RowFilter>('all');
+
+  const paramA = searchParams.get('a');
+  const paramB = searchParams.get('b');
+  const sourceA = useMemo(() => resolveCompareParam(paramA, savedFolders), [paramA, savedFolders]);
+  const sourceB = useMemo(() => resolveCompareParam(paramB, savedFolders), [paramB, savedFolders]);
+  const deckA = useMemo(() => safeParse(sourceA), [sourceA]);
+  const deckB = useMemo(() => safeParse(sourceB), [sourceB]);
+
+  const uniqueCardIds = useMemo(() => {
+    const ids = [deckA, deckB].flatMap((deck) => (deck ? [...deck.main, ...deck.extra, ...deck.side] : []));
+    return Array.from(new Set(ids.filter((id) => id > 0)));
+  }, [deckA, deckB]);
+  const { cardDetails, isFetchingCards, cardError } = useCardDetails(uniqueCardIds);
+  const { deckGroups: groupsA } = useDeckStats(deckA, cardDetails, pointMap);
+  const { deckGroups: groupsB } = useDeckStats(deckB, cardDetails, pointMap);
+
+  const comparison = useMemo(() => (groupsA && groupsB ? compareDeckGroups(groupsA, groupsB) : null), [groupsA, groupsB]);
+
+  const setSideParam = (side: CompareSide, value: string | null) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (value) next.set(side, value);
+        else next.delete(side);
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  const handlePaste = (side: CompareSide) => {
+    const param = toCompareParam(pasteValue[side]);
+    if (!param) return;
+    setSideParam(side, param);
+    setPasteValue((prev) => ({ ...prev, [side]: '' }));
+  };
+
+  const visibleRows = (rows: CardComparisonRow[]) =>
+    rows.filter((row) =>
+      filter === 'differences' ? row.countDelta !== 0 : filter === 'shared' ? row.countA > 0 && row.countB > 0 : true,
+    );
+
+  const renderPicker = (side: CompareSide, source: CompareDeckSource | null, param: string | null) => (
+    <div className="space-y-2 rounded-2xl border border-white/10 bg-black/30 p-3">
+      <p className="text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">Deck {side.toUpperCase()}</p>
+      <p className="truncate text-lg font-semibold text-white">
+        {source ? source.name : param ? 'Deck not found' : 'Pick a deck'}
+      </p>
+      <select
+        value={source?.savedDeckId ?? ''}
+        onChange={(event) => setSideParam(side, event.target.value || null)}
+        className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white"
+      >
+        <option value="">{source && !source.savedDeckId ? 'Shared deck' : 'Choose a saved deck'}</option>
+        {savedFolders.map((folder) => (
+          <optgroup key={folder.id} label={folder.name}>
+            {folder.decks.map((deck) => (
+              <option key={deck.id} value={deck.id}>
+                {deck.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handlePaste(side);
+        }}
+      >
+        <input
+          type="text"
+          value={pasteValue[side]}
+          onChange={(event) => setPasteValue((prev) => ({ ...prev, [side]: event.target.value }))}
+          placeholder="…or paste a share link / YDKE"
+          className="min-w-0 flex-1 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-xs text-white placeholder:text-slate-500"
+        />
+        <button
+          type="submit"
+          className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white hover:border-white disabled:opacity-40"
+          disabled={!pasteValue[side].trim()}
+        >
+          Use
+        </button>
+      </form>
+    </div>
+  );
+
+  const totalDelta = comparison ? comparison.totalPointsB - comparison.totalPointsA : 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <section className="space-y-3 rounded-[28px] border border-white/10 bg-panel p-3 shadow-panel">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <button
+            type="button"
+            onClick={onBack}
+            className="inline-flex h-11 items-center gap-2 rounded-full bg-gradient-to-r from-rose-500 via-rose-400 to-orange-400 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-900 shadow-sm transition hover:shadow-md md:text-sm"
+          >
+            <span aria-hidden="true" className="text-base md:text-lg">
+              ↩
+            </span>
+            Back
+          </button>
+          <h2 className="text-lg font-semibold text-white">Compare decks</h2>
+        </div>
+        <div className="grid gap-2 md:grid-cols-2">
+          {renderPicker('a', sourceA, paramA)}
+          {renderPicker('b', sourceB, paramB)}
+        </div>
+        {comparison && (
+          <div className="grid grid-cols-3 gap-2 text-center">
+            {showPoints ? (
+              <>
+                <div className="rounded-2xl border border-white/10 bg-black/30 p-2">
+                  <p className="text-[0.6rem] uppercase tracking-[0.3em] text-slate-400">A points</p>
+                  <p className="text-2xl font-bold text-white">{comparison.totalPointsA}</p>
+                </div>
+                <div className="rounded-2xl border border-white/10 bg-black/30 p-2">
+                  <p className="text-[0.6rem] uppercase tracking-[0.3em] text-slate-400">B points</p>
+                  <p className="text-2xl font-bold text-white">{comparison.totalPointsB}</p>
+                </div>
+                <div className="rounded-2xl border border-white/10 bg-black/30 p-2">
+                  <p className="text-[0.6rem] uppercase tracking-[0.3em] text-slate-400">Δ points</p>
+                  <p className={`text-2xl font-bold ${totalDelta > 0 ? 'text-rose-200' : totalDelta < 0 ? 'text-emerald-200' : 'text-white'}`}>
+                    {formatDelta(totalDelta)}
+                  </p>
+                </div>
+              </>
+            ) : (
+              <div className="col-span-3 rounded-2xl border border-white/10 bg-black/30 p-2 text-sm text-slate-300">
+                {comparison.shared.length} shared card{comparison.shared.length === 1 ? '' : 's'}
+              </div>
+            )}
+          </div>
+        )}
+        {cardError && <p className="text-xs text-rose-300">{cardError}</p>}
+      </section>
+
+      {comparison ? (
+        <section className="space-y-4 rounded-[28px] border border-white/10 bg-panel/90 p-4 shadow-panel">
+          <div className="flex gap-1 rounded-full border border-white/10 bg-black/20 p-1 text-[0.65rem] font-bold uppercase tracking-wider">
+            {(['all', 'differences', 'shared'] as RowFilter[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFilter(value)}
+                className={`flex-1 rounded-full py-2 transition ${filter === value ? 'bg-cyan-500 text-slate-900' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {value === 'all' ? 'All cards' : value === 'differences' ? 'Differences' : `Shared (${comparison.shared.length})`}
+              </button>
+            ))}
+          </div>
+          {isFetchingCards && <p className="text-xs text-slate-400">Loading card details…</p>}
+          {sections.map((zone) => {
+            const rows = visibleRows(comparison.sections[zone]);
+            if (rows.length === 0) return null;
+            return (
+              <div key={zone} className="space-y-2">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-300">{sectionLabels[zone]}</h3>
+                <div className="grid grid-cols-[minmax(0,1fr)_2.5rem_2.5rem_3rem_4rem] gap-x-2 text-[0.6rem] uppercase tracking-wider text-slate-500">
+                  <span>Card</span>
+                  <span className="text-center">A</span>
+                  <span className="text-center">B</span>
+                  <span className="text-center">Δ</span>
+                  <span className="text-right">{showPoints ? 'Δ pts' : ''}</span>
+                </div>
+                <ul className="space-y-1">
+                  {rows.map((row) => (
+                    <li
+                      key={row.key}
+                      className={`grid grid-cols-[minmax(0,1fr)_2.5rem_2.5rem_3rem_4rem] items-center gap-x-2 rounded-xl px-2 py-1 text-sm ${
+                        row.countDelta > 0 ? 'bg-emerald-500/5' : row.countDelta < 0 ? 'bg-rose-500/5' : 'bg-black/20'
+                      }`}
+                    >
+                      <span className="truncate text-slate-100" title={row.name}>
+                        {row.name}
+                        {showPoints && row.pointsPerCopy > 0 && (
+                          <span className="ml-2 text-[0.65rem] text-slate-500">{row.pointsPerCopy} pts each</span>
+                        )}
+                      </span>
+                      <span className="text-center text-slate-300">{row.countA || '–'}</span>
+                      <span className="text-center text-slate-300">{row.countB || '–'}</span>
+                      <span
+                        className={`text-center font-semibold ${
+                          row.countDelta > 0 ? 'text-emerald-200' : row.countDelta < 0 ? 'text-rose-200' : 'text-slate-500'
+                        }`}
+                      >
+                        {formatDelta(row.countDelta)}
+                      </span>
+                      <span className="text-right text-xs text-slate-400">{showPoints ? formatDelta(row.pointDelta) : ''}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </section>
+      ) : (
+        <p className="px-2 text-sm text-slate-400">Pick two decks to see their differences.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import type { DeckSection, ParsedDeck, SavedDeckEntry, SavedDeckRevision } from '../types';
+import { formatTimestamp } from '../lib/strings.ts';
+import { parseYdke } from '../lib/ydke.ts';
+import { CURRENT_REVISION_ID, listDeckRevisions } from '../lib/deckHistory.ts';
+import { diffParsedDecks, formatDeckChange } from '../lib/deckDiff.ts';
+import { useCardDetails } from '../hooks/useCardDetails';
+
+interface DeckHistoryModalProps {
+  entry: SavedDeckEntry;
+  onRestore: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+const sectionLabels: Record<DeckSection, string> = { main: 'Main', extra: 'Extra', side: 'Side' };
+
+const safeParse = (deck: string): ParsedDeck | null => {
+  try {
+    return parseYdke(deck);
+  } catch {
+    return null;
+  }
+};
+
+const revisionLabel = (revision: SavedDeckRevision) =>
+  `${revision.id === CURRENT_REVISION_ID ? 'Current' : formatTimestamp(revision.savedAt)}${
+    revision.summary?.points !== undefined ? ` · ${revision.summary.points} pts` : ''
+  }`;
+
+export function DeckHistoryModal({ entry, onRestore, onClose }: DeckHistoryModalProps) {
+  const revisions = useMemo(() => listDeckRevisions(entry), [entry]);
+  const [fromId, setFromId] = useState(revisions[1]?.id ?? CURRENT_REVISION_ID);
+  const [toId, setToId] = useState(CURRENT_REVISION_ID);
+
+  const fromRevision = revisions.find((revision) => revision.id === fromId) ?? revisions[revisions.length - 1];
+  const toRevision = revisions.find((revision) => revision.id === toId) ?? revisions[0];
+  const fromDeck = useMemo(() => safeParse(fromRevision.deck), [fromRevision]);
+  const toDeck = useMemo(() => safeParse(toRevision.deck), [toRevision]);
+
+  const changes = useMemo(() => (fromDeck && toDeck ? diffParsedDecks(fromDeck, toDeck) : []), [fromDeck, toDeck]);
+  const changedIds = useMemo(() => Array.from(new Set(changes.map((change) => change.id))), [changes]);
+  const { cardDetails, isFetchingCards } = useCardDetails(changedIds);
+
+  const fromPoints = fromRevision.summary?.points;
+  const toPoints = toRevision.summary?.points;
+  const pointDelta = fromPoints !== undefined && toPoints !== undefined ? toPoints - fromPoints : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Version history</p>
+            <h2 className="text-2xl font-semibold">{entry.name}</h2>
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label="Close version history">
+            ×
+          </button>
+        </div>
+
+        {revisions.length < 2 ? (
+          <p className="text-sm text-slate-400">No earlier versions yet. Every save of this deck keeps the previous list here.</p>
+        ) : (
+          <div className="grid flex-1 gap-4 overflow-hidden md:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+            <ul className="space-y-2 overflow-y-auto pr-1">
+              {revisions.map((revision) => (
+                <li
+                  key={revision.id}
+                  className={`flex items-center justify-between gap-2 rounded-2xl border p-3 text-sm ${
+                    revision.id === fromId || revision.id === toId ? 'border-cyan-400/40 bg-cyan-500/5' : 'border-white/5 bg-black/40'
+                  }`}
+                >
+                  <button type="button" className="flex-1 text-left" onClick={() => setFromId(revision.id)}>
+                    <p className="font-semibold text-white">{revision.id === CURRENT_REVISION_ID ? 'Current list' : formatTimestamp(revision.savedAt)}</p>
+                    <p className="text-xs text-slate-400">
+                      {revision.summary
+                        ? `${revision.summary.main} / ${revision.summary.extra} / ${revision.summary.side}`
+                        : 'Card counts unknown'}
+                      {revision.summary?.points !== undefined ? ` · ${revision.summary.points} pts` : ''}
+                    </p>
+                  </button>
+                  {revision.id !== CURRENT_REVISION_ID && (
+                    <button
+                      type="button"
+                      onClick={() => onRestore(revision.id)}
+                      className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white hover:border-white"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-col gap-3 overflow-hidden rounded-2xl border border-white/10 bg-black/30 p-3">
+              <div className="grid grid-cols-2 gap-2 text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">
+                <label className="space-y-1">
+                  <span>From</span>
+                  <select
+                    value={fromId}
+                    onChange={(event) => setFromId(event.target.value)}
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-2 py-1 text-xs normal-case tracking-normal text-white"
+                  >
+                    {revisions.map((revision) => (
+                      <option key={revision.id} value={revision.id}>
+                        {revisionLabel(revision)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span>To</span>
+                  <select
+                    value={toId}
+                    onChange={(event) => setToId(event.target.value)}
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-2 py-1 text-xs normal-case tracking-normal text-white"
+                  >
+                    {revisions.map((revision) => (
+                      <option key={revision.id} value={revision.id}>
+                        {revisionLabel(revision)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {pointDelta !== null && pointDelta !== 0 && (
+                <p className={`text-xs font-semibold ${pointDelta > 0 ? 'text-rose-200' : 'text-emerald-200'}`}>
+                  {pointDelta > 0 ? '+' : '−'}
+                  {Math.abs(pointDelta)} pts
+                </p>
+              )}
+              <div className="flex-1 overflow-y-auto pr-1">
+                {changes.length === 0 ? (
+                  <p className="text-sm text-slate-400">No card differences between these versions.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {changes.map((change) => (
+                      <li key={`${change.zone}-${change.id}`} className="flex items-center justify-between gap-2">
+                        <span className={change.delta > 0 ? 'text-emerald-200' : 'text-rose-200'}>
+                          {formatDeckChange(
+                            change,
+                            cardDetails[change.id]?.name ?? (isFetchingCards ? 'Loading…' : `Card #${change.id}`),
+                          )}
+                        </span>
+                        <span className="text-[0.6rem] uppercase tracking-wider text-slate-500">{sectionLabels[change.zone]}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
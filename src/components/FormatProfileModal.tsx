@@ -0,0 +1,334 @@
+import { useState, type ChangeEvent } from 'react';
+import { toast } from 'sonner';
+import type { BanStatus, DeckSection, FormatProfile, MetaFormat, PointSource } from '../types';
+import { generateFormatProfileId, parseFormatProfiles, serializeFormatProfiles } from '../lib/formatProfiles';
+import { downloadTextFile, toFileName } from '../lib/download';
+
+interface FormatProfileModalProps {
+  profiles: FormatProfile[];
+  activeProfileId: string;
+  onSelectProfile: (id: string) => void;
+  onSaveProfile: (profile: FormatProfile) => FormatProfile | null;
+  onDeleteProfile: (id: string) => void;
+  onImportProfiles: (profiles: FormatProfile[]) => FormatProfile[];
+  onClose: () => void;
+}
+
+const BAN_STATUSES: BanStatus[] = ['Forbidden', 'Limited', 'Semi-Limited'];
+const sections: DeckSection[] = ['main', 'extra', 'side'];
+const sectionLabels: Record<DeckSection, string> = { main: 'Main', extra: 'Extra', side: 'Side' };
+
+const formatBanlist = (banlist: Record<string, BanStatus>) =>
+  Object.entries(banlist)
+    .map(([name, status]) => `${name}: ${status}`)
+    .join('\n');
+
+const parseBanlist = (text: string) => {
+  const banlist: Record<string, BanStatus> = {};
+  text.split(/\r?\n/u).forEach((line) => {
+    const separator = line.lastIndexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim();
+    const rawStatus = line.slice(separator + 1).trim().toLowerCase();
+    const status = BAN_STATUSES.find((entry) => entry.toLowerCase() === rawStatus);
+    if (name && status) banlist[name] = status;
+  });
+  return banlist;
+};
+
+const inputClass =
+  'w-full rounded-xl border border-white/5 bg-black/40 px-3 py-2 text-sm text-white outline-none focus:border-cyan-500/50';
+const labelClass = 'text-[10px] font-bold uppercase tracking-wider text-slate-500';
+
+export function FormatProfileModal({
+  profiles,
+  activeProfileId,
+  onSelectProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  onImportProfiles,
+  onClose,
+}: FormatProfileModalProps) {
+  const [draft, setDraft] = useState<FormatProfile | null>(null);
+  const [banlistText, setBanlistText] = useState('');
+  const [blockedTypesText, setBlockedTypesText] = useState('');
+
+  const startEditing = (profile: FormatProfile, asCopy: boolean) => {
+    const next = asCopy
+      ? { ...profile, id: generateFormatProfileId(), name: `${profile.name} (house)`, builtIn: undefined }
+      : profile;
+    setDraft(next);
+    setBanlistText(formatBanlist(next.banlist));
+    setBlockedTypesText(next.blockedCardTypes.join(', '));
+  };
+
+  const updateDraft = (patch: Partial<FormatProfile>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateDeckSize = (zone: DeckSection, key: 'min' | 'max', value: number) => {
+    setDraft((prev) =>
+      prev ? { ...prev, deckSizes: { ...prev.deckSizes, [zone]: { ...prev.deckSizes[zone], [key]: value } } } : prev,
+    );
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const saved = onSaveProfile({
+      ...draft,
+      banlist: parseBanlist(banlistText),
+      blockedCardTypes: blockedTypesText.split(',').map((entry) => entry.trim()).filter(Boolean),
+    });
+    if (!saved) {
+      toast.error('Give the profile a name before saving.');
+      return;
+    }
+    onSelectProfile(saved.id);
+    setDraft(null);
+    toast.success(`Saved ${saved.name}.`);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = onImportProfiles(parseFormatProfiles(await file.text()));
+      if (imported.length === 0) {
+        toast.error('No format profiles found in that file.');
+        return;
+      }
+      toast.success(`Imported ${imported.length} format profile${imported.length === 1 ? '' : 's'}.`);
+    } catch {
+      toast.error('Failed to import format profiles.');
+    }
+  };
+
+  const handleExport = (targets: FormatProfile[], name: string) => {
+    downloadTextFile(`${toFileName(name, 'format-profiles')}.json`, serializeFormatProfiles(targets), 'application/json');
+  };
+
+  const customProfiles = profiles.filter((profile) => !profile.builtIn);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-2xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Rules</p>
+            <h2 className="text-2xl font-bold text-white">Format profiles</h2>
+          </div>
+          <button className="text-2xl text-slate-300 hover:text-white" onClick={onClose} aria-label="Close format profiles">
+            ×
+          </button>
+        </div>
+
+        {draft ? (
+          <div className="grid flex-1 gap-4 overflow-y-auto pr-2">
+            <div className="space-y-1">
+              <label className={labelClass}>Profile name</label>
+              <input type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <label className={labelClass}>Point list</label>
+                <select
+                  value={draft.pointSource}
+                  onChange={(e) => updateDraft({ pointSource: e.target.value as PointSource })}
+                  className={inputClass}
+                >
+                  <option value="genesys">Genesys list</option>
+                  {draft.customPoints?.length ? <option value="custom">Custom ({draft.customPoints.length} cards)</option> : null}
+                  <option value="none">No points</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Point cap</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.pointCap}
+                  onChange={(e) => updateDraft({ pointCap: Number(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Copies per card</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.copyLimit}
+                  onChange={(e) => updateDraft({ copyLimit: Math.max(1, Number(e.target.value) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {sections.map((zone) => (
+                <div key={zone} className="space-y-1">
+                  <label className={labelClass}>{sectionLabels[zone]} size (min – max)</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.deckSizes[zone].min}
+                      onChange={(e) => updateDeckSize(zone, 'min', Number(e.target.value) || 0)}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.deckSizes[zone].max}
+                      onChange={(e) => updateDeckSize(zone, 'max', Number(e.target.value) || 0)}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>Blocked card types (comma separated)</label>
+              <input
+                type="text"
+                value={blockedTypesText}
+                onChange={(e) => setBlockedTypesText(e.target.value)}
+                placeholder="link, pendulum"
+                className={inputClass}
+              />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <label className={labelClass}>Base banlist</label>
+                <select
+                  value={draft.banlistSource}
+                  onChange={(e) => updateDraft({ banlistSource: e.target.value as 'tcg' | 'none' })}
+                  className={inputClass}
+                >
+                  <option value="none">None</option>
+                  <option value="tcg">TCG Forbidden & Limited</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>Meta insights</label>
+                <select
+                  value={draft.metaFormat}
+                  onChange={(e) => updateDraft({ metaFormat: e.target.value as MetaFormat })}
+                  className={inputClass}
+                >
+                  <option value="genesys">Genesys decks</option>
+                  <option value="advanced">Advanced decks</option>
+                </select>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={draft.forbiddenAsLimited}
+                onChange={(e) => updateDraft({ forbiddenAsLimited: e.target.checked })}
+              />
+              Treat Forbidden cards as Limited (Traditional)
+            </label>
+            <div className="space-y-1">
+              <label className={labelClass}>House banlist (one “Card name: Forbidden | Limited | Semi-Limited” per line)</label>
+              <textarea
+                value={banlistText}
+                onChange={(e) => setBanlistText(e.target.value)}
+                rows={4}
+                placeholder="Maxx &quot;C&quot;: Forbidden"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="rounded-full border border-white/10 px-5 py-2 text-xs font-semibold text-white hover:bg-white/5"
+              >
+                Cancel
+              </button>
+              <button onClick={handleSaveDraft} className="rounded-full bg-cyan-500 px-6 py-2 text-xs font-bold text-slate-900 hover:bg-cyan-400">
+                Save profile
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <ul className="flex-1 space-y-2 overflow-y-auto pr-2">
+              {profiles.map((profile) => {
+                const isActive = profile.id === activeProfileId;
+                return (
+                  <li
+                    key={profile.id}
+                    className={`flex flex-col gap-2 rounded-2xl border p-3 text-sm md:flex-row md:items-center md:justify-between ${
+                      isActive ? 'border-cyan-400/50 bg-cyan-500/10' : 'border-white/5 bg-black/30'
+                    }`}
+                  >
+                    <button type="button" className="flex-1 text-left" onClick={() => onSelectProfile(profile.id)}>
+                      <p className="font-semibold text-white">
+                        {profile.name}
+                        {profile.builtIn && <span className="ml-2 text-[0.6rem] uppercase tracking-wider text-slate-500">Built-in</span>}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {profile.pointSource === 'none' ? 'No points' : `${profile.pointCap || 'No'} point cap`} · {profile.copyLimit} copies ·{' '}
+                        Main {profile.deckSizes.main.min}–{profile.deckSizes.main.max}
+                        {profile.blockedCardTypes.length > 0 ? ` · No ${profile.blockedCardTypes.join('/')}` : ''}
+                      </p>
+                    </button>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white/80 hover:border-white"
+                        onClick={() => startEditing(profile, Boolean(profile.builtIn))}
+                      >
+                        {profile.builtIn ? 'Copy' : 'Edit'}
+                      </button>
+                      <button
+                        type="button"
+                        className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white/80 hover:border-white"
+                        onClick={() => handleExport([profile], profile.name)}
+                      >
+                        JSON
+                      </button>
+                      {!profile.builtIn && (
+                        <button
+                          type="button"
+                          className="rounded-full border border-rose-400/30 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-rose-200 hover:border-rose-300"
+                          onClick={() => onDeleteProfile(profile.id)}
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="flex flex-wrap justify-end gap-2 text-xs">
+              <button
+                type="button"
+                className="rounded-full border border-white/20 px-4 py-2 font-semibold text-white hover:border-white/40 disabled:opacity-40"
+                onClick={() => handleExport(customProfiles, 'format-profiles')}
+                disabled={customProfiles.length === 0}
+              >
+                Export custom
+              </button>
+              <label className="inline-flex cursor-pointer items-center rounded-full border border-dashed border-white/25 px-4 py-2 font-semibold text-white/80 hover:border-white/40">
+                Import
+                <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+              </label>
+              <button
+                type="button"
+                className="rounded-full bg-cyan-500 px-4 py-2 font-bold text-slate-900 hover:bg-cyan-400"
+                onClick={() => startEditing(profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0], true)}
+              >
+                New profile
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import type { DeckCardGroup, DeckTags } from '../types';
+import { handCategoryLabels, openingHandOdds } from '../lib/handOdds.ts';
+
+interface HandOddsPanelProps {
+  main: DeckCardGroup[];
+  deckTags: DeckTags;
+  onDrawSampleHand: () => void;
+}
+
+const categoryColors = {
+  starter: 'bg-emerald-500',
+  extender: 'bg-cyan-500',
+  handTrap: 'bg-violet-500',
+  brick: 'bg-rose-500',
+};
+
+const formatPercent = (value: number) => {
+  if (value >= 0.9995) return '100%';
+  if (value > 0 && value < 0.001) return '<0.1%';
+  return `${(value * 100).toFixed(1)}%`;
+};
+
+export function HandOddsPanel({ main, deckTags, onDrawSampleHand }: HandOddsPanelProps) {
+  const [handSize, setHandSize] = useState<5 | 6>(5);
+  const deckSize = main.reduce((sum, card) => sum + card.count, 0);
+  const odds = useMemo(() => openingHandOdds(main, deckTags, handSize), [main, deckTags, handSize]);
+  const hasTags = odds.some((row) => row.copies > 0);
+
+  return (
+    <section className="space-y-4 rounded-[28px] border border-white/10 bg-panel/90 p-5 shadow-panel">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Opening hand</p>
+          <h3 className="text-xl font-semibold text-white">Draw odds · {deckSize}-card main deck</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-full border border-white/10 bg-black/30 p-0.5 text-[0.65rem] font-bold uppercase tracking-wider">
+            {([5, 6] as const).map((size) => (
+              <button
+                key={size}
+                type="button"
+                onClick={() => setHandSize(size)}
+                aria-pressed={handSize === size}
+                className={`rounded-full px-3 py-1 transition ${handSize === size ? 'bg-cyan-500 text-slate-900' : 'text-slate-300 hover:text-white'}`}
+              >
+                {size === 5 ? 'Going first · 5' : 'Going second · 6'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={onDrawSampleHand}
+            className="rounded-full border border-white/15 px-3 py-1 text-[0.65rem] font-bold uppercase tracking-wider text-white hover:border-white/40"
+          >
+            Draw sample hand
+          </button>
+        </div>
+      </div>
+
+      {!hasTags ? (
+        <p className="text-sm text-slate-400">
+          Tag main deck cards as starters, extenders, hand traps or bricks with the chips under each card (or from its details) to
+          see your opening odds. Tags are stored with the saved deck.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[0.6rem] uppercase tracking-widest text-slate-400">
+              <th className="pb-2 text-left font-bold">Category</th>
+              <th className="pb-2 text-right font-bold">Copies</th>
+              <th className="pb-2 text-right font-bold">≥ 1</th>
+              <th className="pb-2 text-right font-bold">≥ 2</th>
+              <th className="pb-2 text-right font-bold">≥ 3</th>
+            </tr>
+          </thead>
+          <tbody>
+            {odds.map((row) => (
+              <tr key={row.category} className="border-t border-white/5">
+                <td className="py-2">
+                  <span className="flex items-center gap-2 text-slate-100">
+                    <span className={`h-2 w-2 rounded-full ${categoryColors[row.category]}`} aria-hidden="true" />
+                    {handCategoryLabels[row.category]}
+                  </span>
+                  <div className="mt-1 h-1 w-full overflow-hidden rounded-full bg-slate-800">
+                    <div className={`h-full transition-all ${categoryColors[row.category]}`} style={{ width: `${row.atLeast[0] * 100}%` }} />
+                  </div>
+                </td>
+                <td className="py-2 text-right text-slate-300">{row.copies}</td>
+                {row.atLeast.map((value, index) => (
+                  <td key={index} className={`py-2 text-right font-semibold ${row.copies > index ? 'text-white' : 'text-slate-600'}`}>
+                    {formatPercent(value)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
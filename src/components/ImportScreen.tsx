@@ -18,7 +18,7 @@ import {
   closestCorners,
   useDroppable,
 } from '@dnd-kit/core';
-import type { DragStartEvent, DragOverEvent } from '@dnd-kit/core';
+import type { DragEndEvent, DragStartEvent, DragOverEvent } from '@dnd-kit/core';
 import {
   SortableContext,
   useSortable,
@@ -26,11 +26,20 @@ import {
   sortableKeyboardCoordinates,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import type { CardDetails, GenesysPayload, SavedDeckEntry, SavedDeckFolder } from '../types';
+import type { CardDetails, GenesysPayload, MetaData, SavedDeckEntry, SavedDeckFolder } from '../types';
 import { formatTimestamp } from '../lib/strings.ts';
-import { parseYdke, buildYdke, type ParsedDeck } from '../lib/ydke.ts';
+import { parseYdke, buildYdk, buildYdke, type ParsedDeck } from '../lib/ydke.ts';
 import { toast } from 'sonner';
 import { fetchCardsByIds } from '../lib/ygoprodeck.ts';
+import { downloadTextFile, toFileName } from '../lib/download.ts';
+import { moveDeckBetweenFolders, readUserProfile } from '../lib/storage.ts';
+import { DEFAULT_FOLDER_ID, DEFAULT_FOLDER_NAME } from '../constants';
+import { parseTextDecklist } from '../lib/textDecklist.ts';
+import { TextDecklistModal } from './TextDecklistModal.tsx';
+import { findMetaDeckByUrl, hasMetaDeckList, parseYgoprodeckDeckUrl, type MetaDeckMatch } from '../lib/metaDecks.ts';
+import metaDataPayload from '../data/meta-data.json';
+
+const metaData = metaDataPayload as MetaData;
 
 interface SortableDeckRowProps {
   deck: SavedDeckEntry;
@@ -41,10 +50,12 @@ interface SortableDeckRowProps {
   onRenameSubmit: (event: FormEvent<HTMLFormElement>) => void;
   onCancelRename: () => void;
   onLoad: () => void;
+  onCompare: () => void;
   onRenameStart: () => void;
   onDelete: () => void;
   onCopy: () => void;
   onCopyList: () => void;
+  onDownloadYdk: () => void;
 }
 
 const SortableDeckRow = ({
@@ -56,10 +67,12 @@ const SortableDeckRow = ({
   onRenameSubmit,
   onCancelRename,
   onLoad,
+  onCompare,
   onRenameStart,
   onDelete,
   onCopy,
   onCopyList,
+  onDownloadYdk,
 }: SortableDeckRowProps) => {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: deck.id,
@@ -257,6 +270,24 @@ const SortableDeckRow = ({
                 >
                   Load
                 </button>
+                <button
+                  type="button"
+                  role="menuitem"
+                  className="flex w-full items-center justify-between gap-2 rounded-xl px-3 py-2 text-left text-sm font-semibold text-white hover:bg-white/5"
+                  onClick={() => handleMenuAction(onCompare)}
+                  onKeyDown={handleMenuKeyDown}
+                >
+                  Compare
+                </button>
+                <button
+                  type="button"
+                  role="menuitem"
+                  className="flex w-full items-center justify-between gap-2 rounded-xl px-3 py-2 text-left text-sm font-semibold text-white hover:bg-white/5"
+                  onClick={() => handleMenuAction(onDownloadYdk)}
+                  onKeyDown={handleMenuKeyDown}
+                >
+                  Download .ydk
+                </button>
                 <button
                   type="button"
                   role="menuitem"
@@ -360,15 +391,18 @@ interface ImportScreenProps {
   onViewBreakdown: () => void;
   onImportYdkFile: (file: File) => void;
   onImportJsonDeck: (file: File) => void;
+  onLoadMetaDeck: (match: MetaDeckMatch) => void;
   savedFolders: SavedDeckFolder[];
   onLoadSavedDeck: (folderId: string, deckId: string) => void;
+  onCompareSavedDeck: (deckId: string) => void;
   onDeleteSavedDeck: (folderId: string, deckId: string) => void;
   onCreateFolder: (name: string) => void;
-  onDeleteFolder: (folderId: string) => void;
+  onDeleteFolder: (folderId: string, moveDecksToUnsorted: boolean) => void;
   onRenameDeck: (folderId: string, deckId: string, name: string) => void;
   onMoveDeck: (sourceFolderId: string, deckId: string, targetFolderId: string, targetIndex: number) => void;
-  onExportSavedDecks: () => void;
-  onImportSavedDecks: (file: File) => void;
+  onBackUpLibrary: () => void;
+  onRescoreLibrary: () => void;
+  onRestoreLibrary: (file: File) => void;
   onShowProfile: () => void;
 }
 
@@ -379,15 +413,18 @@ export function ImportScreen({
   onViewBreakdown,
   onImportYdkFile,
   onImportJsonDeck,
+  onLoadMetaDeck,
   savedFolders,
   onLoadSavedDeck,
+  onCompareSavedDeck,
   onDeleteSavedDeck,
   onCreateFolder,
   onDeleteFolder,
   onRenameDeck,
   onMoveDeck,
-  onExportSavedDecks,
-  onImportSavedDecks,
+  onBackUpLibrary,
+  onRescoreLibrary,
+  onRestoreLibrary,
   onShowProfile,
 }: ImportScreenProps) {
   const [isDragActive, setIsDragActive] = useState(false);
@@ -398,6 +435,9 @@ export function ImportScreen({
   const [renamingDeck, setRenamingDeck] = useState<{ folderId: string; deckId: string } | null>(null);
   const [renameValue, setRenameValue] = useState('');
   const [folderMenu, setFolderMenu] = useState<{ folderId: string } | null>(null);
+  const [pendingFolderDelete, setPendingFolderDelete] = useState<SavedDeckFolder | null>(null);
+  const [textDecklist, setTextDecklist] = useState<string | null>(null);
+  const [pastedMetaDeck, setPastedMetaDeck] = useState<MetaDeckMatch | null>(null);
   const folderMenuRef = useRef<HTMLDivElement | null>(null);
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 2 } }),
@@ -405,6 +445,9 @@ export function ImportScreen({
   );
   const [isDraggingDeck, setIsDraggingDeck] = useState(false);
   const [dragPreviewLocation, setDragPreviewLocation] = useState<{ folderId: string; index: number } | null>(null);
+  // The library as the drag is showing it; the move is only saved when the deck is dropped.
+  const [dragPreviewFolders, setDragPreviewFolders] = useState<SavedDeckFolder[] | null>(null);
+  const displayedFolders = dragPreviewFolders ?? savedFolders;
 
   const FOLDER_OPEN_STORAGE_KEY = 'ygo-genesys-folder-open';
 
@@ -460,6 +503,10 @@ export function ImportScreen({
         onImportJsonDeck(file);
         return;
       }
+      if (extension === 'txt') {
+        file.text().then(setTextDecklist, () => toast.error('Failed to read the text file.'));
+        return;
+      }
       onImportYdkFile(file);
     },
     [onImportJsonDeck, onImportYdkFile],
@@ -476,7 +523,7 @@ export function ImportScreen({
   const handleSavedLibraryChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      onImportSavedDecks(file);
+      onRestoreLibrary(file);
       event.target.value = '';
     }
   };
@@ -671,6 +718,33 @@ export function ImportScreen({
     [buildDeckCardLists, copyTextToClipboard],
   );
 
+  const handleDownloadDeckYdk = async (deck: SavedDeckEntry) => {
+    let parsed: ParsedDeck;
+    try {
+      parsed = parseYdke(deck.deck);
+    } catch {
+      toast.error(`Unable to read ${deck.name}.`);
+      return;
+    }
+    const withNames = readUserProfile().ydkCardNames !== false;
+    let cardNames: Record<number, string> | undefined;
+    if (withNames) {
+      try {
+        const ids = Array.from(new Set([...parsed.main, ...parsed.extra, ...parsed.side].filter((id) => id > 0)));
+        const details = await fetchCardsByIds(ids);
+        cardNames = Object.fromEntries(Object.values(details).map((card) => [card.id, card.name]));
+      } catch (error) {
+        // The passcodes are what simulators read, so a failed lookup only costs the comments.
+        console.warn('Card lookup failed', error);
+      }
+    }
+    downloadTextFile(
+      `${toFileName(deck.name)}.ydk`,
+      buildYdk(parsed, { cardNames, deckName: withNames ? deck.name : undefined }),
+    );
+    toast.success(`Downloaded ${deck.name} as .ydk.`);
+  };
+
   const handleCopyFolderCardList = useCallback(
     async (folder: SavedDeckFolder) => {
       if (folder.decks.length === 0) {
@@ -707,7 +781,20 @@ export function ImportScreen({
       }
       const text = event.clipboardData?.getData('text') ?? '';
       const trimmed = text.trim();
+      if (parseYgoprodeckDeckUrl(trimmed)) {
+        const match = findMetaDeckByUrl(trimmed, metaData);
+        if (!match) {
+          toast.error('That deck is not in the meta snapshot.', {
+            description: `Only recent tournament decks are bundled (updated ${new Date(metaData.lastUpdated).toLocaleDateString()}).`,
+          });
+        } else {
+          setPastedMetaDeck(match);
+        }
+        return;
+      }
       if (!trimmed.toLowerCase().includes('ydke://')) {
+        // A few "3x Card Name" lines look like a decklist rather than stray text.
+        if (parseTextDecklist(trimmed).length >= 3) setTextDecklist(trimmed);
         return;
       }
       try {
@@ -805,6 +892,19 @@ export function ImportScreen({
     };
   }, [folderMenu]);
 
+  useEffect(() => {
+    if (!pendingFolderDelete) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setPendingFolderDelete(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pendingFolderDelete]);
+
   useEffect(() => {
     if (!showNewFolderModal) {
       return;
@@ -843,14 +943,28 @@ export function ImportScreen({
     [findDeckLocation],
   );
 
-  const handleDragEndDnd = useCallback(() => {
-    setIsDraggingDeck(false);
-    setDragPreviewLocation(null);
-  }, []);
+  const handleDragEndDnd = useCallback(
+    (event: DragEndEvent) => {
+      const deckId = event.active.id.toString();
+      const origin = findDeckLocation(deckId);
+      if (
+        dragPreviewLocation &&
+        origin &&
+        (origin.folderId !== dragPreviewLocation.folderId || origin.index !== dragPreviewLocation.index)
+      ) {
+        onMoveDeck(origin.folderId, deckId, dragPreviewLocation.folderId, dragPreviewLocation.index);
+      }
+      setIsDraggingDeck(false);
+      setDragPreviewLocation(null);
+      setDragPreviewFolders(null);
+    },
+    [dragPreviewLocation, findDeckLocation, onMoveDeck],
+  );
 
   const handleDragCancelDnd = useCallback(() => {
     setIsDraggingDeck(false);
     setDragPreviewLocation(null);
+    setDragPreviewFolders(null);
   }, []);
 
   const handleDragOverDnd = useCallback(
@@ -864,7 +978,7 @@ export function ImportScreen({
         return;
       }
       ensureFolderExpanded(targetFolderId);
-      const targetFolder = savedFolders.find((folder) => folder.id === targetFolderId);
+      const targetFolder = displayedFolders.find((folder) => folder.id === targetFolderId);
       if (!targetFolder) {
         return;
       }
@@ -883,10 +997,12 @@ export function ImportScreen({
       if (currentLocation.folderId === targetFolderId && currentLocation.index === targetIndex) {
         return;
       }
-      onMoveDeck(currentLocation.folderId, active.id.toString(), targetFolderId, targetIndex);
+      setDragPreviewFolders(
+        moveDeckBetweenFolders(displayedFolders, currentLocation.folderId, active.id.toString(), targetFolderId, targetIndex),
+      );
       setDragPreviewLocation({ folderId: targetFolderId, index: targetIndex });
     },
-    [dragPreviewLocation, ensureFolderExpanded, findDeckLocation, onMoveDeck, savedFolders],
+    [displayedFolders, dragPreviewLocation, ensureFolderExpanded, findDeckLocation],
   );
 
   return (
@@ -951,7 +1067,7 @@ export function ImportScreen({
             <h2 className="text-xl font-semibold text-white">Paste anywhere to load a deck</h2>
             <p className="text-sm text-slate-300">
               Press <span className="font-semibold text-white">Ctrl + V</span> (or Cmd + V) with a valid <code className="text-xs text-slate-200">ydke://</code> link. We'll auto-save it as{' '}
-              <span className="font-semibold text-white">Untitled deck</span> and jump straight to the point breakdown. Drag-and-drop of .ydk/.json decks anywhere works too.
+              <span className="font-semibold text-white">Untitled deck</span> and jump straight to the point breakdown. Drag-and-drop of .ydk/.json decks anywhere works too, and plain-text decklists open a card-name review first. Recent YGOProDeck meta deck URLs load from the bundled snapshot, even offline.
             </p>
             <div className="flex flex-wrap gap-2">
               <button
@@ -959,9 +1075,17 @@ export function ImportScreen({
                 onClick={handleSelectDeckFile}
                 className="flex flex-1 min-w-[180px] items-center justify-between rounded-2xl border border-white/15 bg-black/20 px-3 py-2 text-left text-sm font-medium text-white hover:border-white/35"
               >
-                <span>Upload .ydk / .json</span>
+                <span>Upload .ydk / .json / .txt</span>
                 <span aria-hidden="true">↗</span>
               </button>
+              <button
+                type="button"
+                onClick={() => setTextDecklist('')}
+                className="flex flex-1 min-w-[180px] items-center justify-between rounded-2xl border border-white/15 bg-black/20 px-3 py-2 text-left text-sm font-medium text-white hover:border-white/35"
+              >
+                <span>Paste text decklist</span>
+                <span aria-hidden="true">≡</span>
+              </button>
               <button
                 type="button"
                 onClick={handleScrollToLibrary}
@@ -971,6 +1095,48 @@ export function ImportScreen({
                 <span aria-hidden="true">↓</span>
               </button>
             </div>
+            {pastedMetaDeck && (
+              <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-cyan-400/30 bg-cyan-500/5 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="truncate font-semibold text-white">{pastedMetaDeck.deck.name}</p>
+                  <p className="truncate text-xs text-slate-400">{pastedMetaDeck.deck.meta}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {hasMetaDeckList(pastedMetaDeck.deck) ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onLoadMetaDeck(pastedMetaDeck);
+                        setPastedMetaDeck(null);
+                      }}
+                      className="rounded-full bg-cyan-500 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400"
+                    >
+                      {pastedMetaDeck.format === 'genesys' ? 'Load & score against Genesys points' : 'Load & score'}
+                    </button>
+                  ) : (
+                    <>
+                      <span className="text-xs text-slate-400">No card list captured yet</span>
+                      <a
+                        href={pastedMetaDeck.deck.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-200 hover:border-white/40"
+                      >
+                        View on YGOProDeck ↗
+                      </a>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setPastedMetaDeck(null)}
+                    className="text-xl text-slate-400 hover:text-white"
+                    aria-label="Dismiss meta deck"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            )}
             {deckError && <p className="text-sm text-rose-300">{deckError}</p>}
           </div>
           <input
@@ -1004,12 +1170,21 @@ export function ImportScreen({
               <button
                 type="button"
                 className="rounded-full border border-white/20 px-4 py-2 font-semibold text-white hover:border-white/40"
-                onClick={onExportSavedDecks}
+                onClick={onBackUpLibrary}
+                title="Download the library, player profile and format profiles"
               >
-                Export
+                Back up
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-white/20 px-4 py-2 font-semibold text-white hover:border-white/40"
+                onClick={onRescoreLibrary}
+                title="Re-score every saved deck against the current point list"
+              >
+                Re-score
               </button>
               <label className="inline-flex cursor-pointer items-center rounded-full border border-dashed border-white/25 px-4 py-2 font-semibold text-white/80 hover:border-white/40">
-                Import
+                Restore
                 <input type="file" accept="application/json,.json" className="sr-only" onChange={handleSavedLibraryChange} />
               </label>
               <button
@@ -1022,12 +1197,12 @@ export function ImportScreen({
               </button>
             </div>
           </div>
-          {savedFolders.every((folder) => folder.decks.length === 0) ? (
+          {displayedFolders.every((folder) => folder.decks.length === 0) ? (
             <p className="text-sm text-slate-400 rounded-2xl border border-white/10 bg-black/30 p-4">
               No saved decks yet. Any saved deck will appear here automatically.
             </p>
           ) : (
-            savedFolders.map((folder, index) => {
+            displayedFolders.map((folder, index) => {
               const isExpanded =
                 expandedFolders === null ? true : folder.id in expandedFolders ? expandedFolders[folder.id] : true;
               return (
@@ -1085,11 +1260,15 @@ export function ImportScreen({
                             type="button"
                             className="flex w-full items-center justify-between gap-2 rounded-xl px-3 py-2 text-left text-xs font-semibold text-rose-200 hover:bg-rose-500/10 disabled:opacity-40"
                             onClick={() => {
-                              onDeleteFolder(folder.id);
+                              if (folder.decks.length === 0) {
+                                onDeleteFolder(folder.id, false);
+                              } else {
+                                setPendingFolderDelete(folder);
+                              }
                               folderMenuRef.current = null;
                               setFolderMenu(null);
                             }}
-                            disabled={folder.decks.length > 0 || savedFolders.length <= 1}
+                            disabled={savedFolders.length <= 1}
                           >
                             Delete folder
                           </button>
@@ -1116,10 +1295,12 @@ export function ImportScreen({
                                 onRenameSubmit={handleRenameSubmit}
                                 onCancelRename={handleCancelRename}
                               onLoad={() => onLoadSavedDeck(folder.id, deck.id)}
+                              onCompare={() => onCompareSavedDeck(deck.id)}
                               onRenameStart={() => handleStartRename(folder.id, deck.id, deck.name)}
                               onDelete={() => onDeleteSavedDeck(folder.id, deck.id)}
                               onCopy={() => handleCopyDeckYdke(deck)}
                               onCopyList={() => handleCopyDeckCardList(deck)}
+                              onDownloadYdk={() => handleDownloadDeckYdk(deck)}
                             />
                           );
                         })}
@@ -1185,6 +1366,72 @@ export function ImportScreen({
           </div>
         </div>
       )}
+      {textDecklist !== null && (
+        <TextDecklistModal
+          initialText={textDecklist}
+          onImport={(ydke) => {
+            setTextDecklist(null);
+            onDeckInputChange(ydke);
+            onViewBreakdown();
+          }}
+          onClose={() => setTextDecklist(null)}
+        />
+      )}
+      {pendingFolderDelete && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={() => setPendingFolderDelete(null)}>
+          <div
+            className="w-full max-w-md rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-white">Delete {pendingFolderDelete.name}?</h3>
+              <button
+                type="button"
+                className="text-2xl text-slate-300 hover:text-white"
+                onClick={() => setPendingFolderDelete(null)}
+                aria-label="Close delete folder modal"
+              >
+                ×
+              </button>
+            </div>
+            <p className="mt-2 text-sm text-slate-400">
+              This folder still holds {pendingFolderDelete.decks.length} deck{pendingFolderDelete.decks.length === 1 ? '' : 's'}.
+              {pendingFolderDelete.id !== DEFAULT_FOLDER_ID ? ` Move them to ${DEFAULT_FOLDER_NAME} or delete them with the folder.` : ''}
+            </p>
+            <div className="mt-4 flex flex-wrap justify-end gap-2">
+              <button
+                type="button"
+                className="rounded-full border border-white/20 px-4 py-2 text-sm font-semibold text-slate-200 hover:border-white/40"
+                onClick={() => setPendingFolderDelete(null)}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-rose-400/40 px-4 py-2 text-sm font-semibold text-rose-200 hover:bg-rose-500/10"
+                onClick={() => {
+                  onDeleteFolder(pendingFolderDelete.id, false);
+                  setPendingFolderDelete(null);
+                }}
+              >
+                Delete decks too
+              </button>
+              {pendingFolderDelete.id !== DEFAULT_FOLDER_ID && (
+                <button
+                  type="button"
+                  className="rounded-full bg-gradient-to-r from-cyan-400 to-indigo-500 px-4 py-2 text-sm font-semibold text-slate-900"
+                  onClick={() => {
+                    onDeleteFolder(pendingFolderDelete.id, true);
+                    setPendingFolderDelete(null);
+                  }}
+                >
+                  Move to {DEFAULT_FOLDER_NAME}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { LibraryRescoreReport } from '../lib/libraryRescore.ts';
+
+interface LibraryRescoreModalProps {
+  report: LibraryRescoreReport | null;
+  profileName: string;
+  onLoadDeck: (folderId: string, deckId: string) => void;
+  onClose: () => void;
+}
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : '−'}${Math.abs(delta)}`;
+
+export function LibraryRescoreModal({ report, profileName, onLoadDeck, onClose }: LibraryRescoreModalProps) {
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-2xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">{profileName}</p>
+            <h2 className="text-2xl font-semibold">Library re-score</h2>
+            {report && (
+              <p className="text-sm text-slate-400">
+                {report.scored} deck{report.scored === 1 ? '' : 's'} · {report.overCap} over the {report.pointCap} cap ·{' '}
+                {report.changed} changed total{report.changed === 1 ? '' : 's'}
+                {report.skipped > 0 ? ` · ${report.skipped} unreadable` : ''}
+              </p>
+            )}
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label="Close re-score report">
+            ×
+          </button>
+        </div>
+
+        {!report ? (
+          <p className="py-8 text-center text-sm text-slate-400">Scoring saved decks against the current point list…</p>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={flaggedOnly}
+                onChange={(event) => setFlaggedOnly(event.target.checked)}
+                className="accent-cyan-400"
+              />
+              Only decks over cap or with a changed total
+            </label>
+            <div className="flex-1 space-y-3 overflow-y-auto pr-1">
+              {report.folders.map((folder) => {
+                const decks = flaggedOnly ? folder.decks.filter((deck) => deck.overCap || deck.changed) : folder.decks;
+                if (decks.length === 0) return null;
+                return (
+                  <section key={folder.folderId} className="space-y-2 rounded-2xl border border-white/5 bg-black/30 p-3">
+                    <h3 className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-300">{folder.folderName}</h3>
+                    <ul className="space-y-1 text-sm">
+                      {decks.map((deck) => (
+                        <li key={deck.deckId}>
+                          <button
+                            type="button"
+                            onClick={() => onLoadDeck(deck.folderId, deck.deckId)}
+                            className={`flex w-full items-center justify-between gap-2 rounded-xl px-2 py-1 text-left transition hover:bg-white/10 ${
+                              deck.overCap ? 'bg-rose-500/10' : ''
+                            }`}
+                          >
+                            <span className="min-w-0 truncate text-slate-100" title={deck.name}>
+                              {deck.name}
+                              {deck.overCap && <span className="ml-2 text-[0.6rem] uppercase tracking-wider text-rose-200">Over cap</span>}
+                              {deck.unknownCards > 0 && (
+                                <span className="ml-2 text-[0.6rem] uppercase tracking-wider text-amber-200">
+                                  {deck.unknownCards} unknown
+                                </span>
+                              )}
+                            </span>
+                            <span className="whitespace-nowrap text-xs">
+                              {deck.changed && deck.previousPoints !== null && (
+                                <span className="text-slate-500">{deck.previousPoints} → </span>
+                              )}
+                              <span className={`font-semibold ${deck.overCap ? 'text-rose-200' : 'text-white'}`}>{deck.points} pts</span>
+                              {deck.changed && deck.delta !== null && (
+                                <span className={`ml-2 ${deck.delta > 0 ? 'text-rose-200' : 'text-emerald-200'}`}>{formatDelta(deck.delta)}</span>
+                              )}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                );
+              })}
+              {flaggedOnly && report.overCap === 0 && report.changed === 0 && (
+                <p className="py-6 text-center text-sm text-slate-400">Every saved deck is within the cap and no totals changed.</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
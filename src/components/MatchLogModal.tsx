@@ -0,0 +1,307 @@
+import { useMemo, useState } from 'react';
+import type { GameRecord, GameResult, MatchRecord, SavedDeckEntry } from '../types';
+import { formatTimestamp } from '../lib/strings.ts';
+import {
+  generateMatchId,
+  isCurrentRevision,
+  matchOutcome,
+  statsByMatchup,
+  statsByRevision,
+  winRate,
+  type MatchStats,
+} from '../lib/matchLog.ts';
+
+interface MatchLogModalProps {
+  entry: SavedDeckEntry;
+  opponentSuggestions: string[];
+  onSaveMatches: (matches: MatchRecord[]) => void;
+  onClose: () => void;
+}
+
+const resultLabels: Record<GameResult, string> = { win: 'W', loss: 'L', draw: 'D' };
+const resultStyles: Record<GameResult, string> = {
+  win: 'bg-emerald-500 text-slate-900',
+  loss: 'bg-rose-500 text-white',
+  draw: 'bg-slate-500 text-white',
+};
+const MAX_GAMES = 3;
+
+const formatRate = (wins: number, total: number) => {
+  const rate = winRate(wins, total);
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+};
+
+function StatsCells({ stats }: { stats: MatchStats }) {
+  return (
+    <>
+      <td className="py-1.5 text-right text-slate-300">
+        {stats.wins}-{stats.losses}
+        {stats.draws > 0 ? `-${stats.draws}` : ''}
+      </td>
+      <td className="py-1.5 text-right font-semibold text-white">{formatRate(stats.wins, stats.matches)}</td>
+      <td className="py-1.5 text-right text-slate-300">{formatRate(stats.gameWins, stats.games)}</td>
+      <td className="py-1.5 text-right text-slate-300">{formatRate(stats.firstWins, stats.firstGames)}</td>
+      <td className="py-1.5 text-right text-slate-300">{formatRate(stats.secondWins, stats.secondGames)}</td>
+    </>
+  );
+}
+
+function StatsHeader({ label }: { label: string }) {
+  return (
+    <thead>
+      <tr className="text-[0.6rem] uppercase tracking-widest text-slate-400">
+        <th className="pb-1 text-left font-bold">{label}</th>
+        <th className="pb-1 text-right font-bold">W-L</th>
+        <th className="pb-1 text-right font-bold">Match</th>
+        <th className="pb-1 text-right font-bold">Games</th>
+        <th className="pb-1 text-right font-bold">1st</th>
+        <th className="pb-1 text-right font-bold">2nd</th>
+      </tr>
+    </thead>
+  );
+}
+
+export function MatchLogModal({ entry, opponentSuggestions, onSaveMatches, onClose }: MatchLogModalProps) {
+  const matches = useMemo(() => entry.matches ?? [], [entry.matches]);
+  const sidePlans = entry.sidePlans ?? [];
+  const [opponent, setOpponent] = useState('');
+  const [games, setGames] = useState<GameRecord[]>([{ result: 'win', order: 'first' }]);
+  const [sidePlanId, setSidePlanId] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const matchups = useMemo(() => statsByMatchup(matches), [matches]);
+  const revisions = useMemo(() => statsByRevision(entry), [entry]);
+  const recent = useMemo(() => [...matches].sort((a, b) => b.playedAt.localeCompare(a.playedAt)), [matches]);
+
+  const updateGame = (index: number, patch: Partial<GameRecord>) =>
+    setGames((prev) => prev.map((game, position) => (position === index ? { ...game, ...patch } : game)));
+
+  const handleLogMatch = () => {
+    const match: MatchRecord = {
+      id: generateMatchId(),
+      playedAt: new Date().toISOString(),
+      opponent: opponent.trim(),
+      games,
+      deck: entry.deck,
+      ...(sidePlanId ? { sidePlanId } : {}),
+      ...(notes.trim() ? { notes: notes.trim() } : {}),
+    };
+    onSaveMatches([...matches, match]);
+    setGames([{ result: 'win', order: 'first' }]);
+    setNotes('');
+  };
+
+  const planName = (id?: string) => sidePlans.find((plan) => plan.id === id)?.name;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-5xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Testing</p>
+            <h2 className="text-2xl font-semibold">Match log · {entry.name}</h2>
+            <p className="text-sm text-slate-400">
+              {matches.length} match{matches.length === 1 ? '' : 'es'} logged
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label="Close match log">
+            ×
+          </button>
+        </div>
+
+        <div className="grid flex-1 gap-4 overflow-hidden md:grid-cols-[minmax(0,0.9fr)_minmax(0,1.1fr)]">
+          <form
+            className="flex flex-col gap-3 overflow-y-auto rounded-2xl border border-white/10 bg-black/30 p-3 text-sm"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (opponent.trim()) handleLogMatch();
+            }}
+          >
+            <label className="space-y-1">
+              <span className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">Opponent</span>
+              <input
+                value={opponent}
+                onChange={(event) => setOpponent(event.target.value)}
+                list="match-log-opponents"
+                placeholder="Snake-Eye Fire King"
+                className="w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-white placeholder:text-slate-500"
+              />
+              <datalist id="match-log-opponents">
+                {opponentSuggestions.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </label>
+
+            <div className="space-y-1">
+              <span className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">Games</span>
+              {games.map((game, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-14 text-xs text-slate-400">Game {index + 1}</span>
+                  <div className="flex rounded-full border border-white/10 bg-black/30 p-0.5 text-[0.65rem] font-bold uppercase">
+                    {(['first', 'second'] as const).map((order) => (
+                      <button
+                        key={order}
+                        type="button"
+                        onClick={() => updateGame(index, { order })}
+                        aria-pressed={game.order === order}
+                        className={`rounded-full px-2.5 py-1 transition ${game.order === order ? 'bg-cyan-500 text-slate-900' : 'text-slate-300 hover:text-white'}`}
+                      >
+                        {order === 'first' ? '1st' : '2nd'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-1">
+                    {(['win', 'loss', 'draw'] as const).map((result) => (
+                      <button
+                        key={result}
+                        type="button"
+                        onClick={() => updateGame(index, { result })}
+                        aria-pressed={game.result === result}
+                        className={`h-7 w-7 rounded-full text-xs font-bold transition ${
+                          game.result === result ? resultStyles[result] : 'border border-white/10 text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {resultLabels[result]}
+                      </button>
+                    ))}
+                  </div>
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setGames((prev) => prev.filter((_, position) => position !== index))}
+                      className="text-slate-500 hover:text-white"
+                      aria-label={`Remove game ${index + 1}`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              {games.length < MAX_GAMES && (
+                <button
+                  type="button"
+                  // The loser of a game usually chooses to go first in the next one.
+                  onClick={() =>
+                    setGames((prev) => [...prev, { result: 'win', order: prev[prev.length - 1].result === 'loss' ? 'first' : 'second' }])
+                  }
+                  className="text-xs font-semibold text-cyan-300 hover:underline"
+                >
+                  + Add game
+                </button>
+              )}
+            </div>
+
+            {sidePlans.length > 0 && (
+              <label className="space-y-1">
+                <span className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">Side plan</span>
+                <select
+                  value={sidePlanId}
+                  onChange={(event) => setSidePlanId(event.target.value)}
+                  className="w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-white"
+                >
+                  <option value="">None</option>
+                  {sidePlans.map((plan) => (
+                    <option key={plan.id} value={plan.id}>
+                      {plan.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <label className="space-y-1">
+              <span className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">Notes</span>
+              <textarea
+                value={notes}
+                onChange={(event) => setNotes(event.target.value)}
+                rows={3}
+                className="w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-white"
+              />
+            </label>
+
+            <button
+              type="submit"
+              disabled={!opponent.trim()}
+              className="rounded-full bg-cyan-500 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400 disabled:opacity-40"
+            >
+              Log match
+            </button>
+          </form>
+
+          <div className="flex flex-col gap-4 overflow-y-auto pr-1 text-sm">
+            {matches.length === 0 ? (
+              <p className="text-slate-400">Log matches to see win rates per matchup and per deck version.</p>
+            ) : (
+              <>
+                <table className="w-full">
+                  <StatsHeader label="Matchup" />
+                  <tbody>
+                    {matchups.map((row) => (
+                      <tr key={row.opponent.toLowerCase()} className="border-t border-white/5">
+                        <td className="truncate py-1.5 text-slate-100">
+                          {row.opponent} <span className="text-xs text-slate-500">({row.matches})</span>
+                        </td>
+                        <StatsCells stats={row} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <table className="w-full">
+                  <StatsHeader label="Deck version" />
+                  <tbody>
+                    {revisions.map((row) => (
+                      <tr key={row.revisionId ?? 'older'} className="border-t border-white/5">
+                        <td className="py-1.5 text-slate-100">
+                          {isCurrentRevision(row) ? 'Current list' : row.savedAt ? formatTimestamp(row.savedAt) : 'Older lists'}{' '}
+                          <span className="text-xs text-slate-500">({row.matches})</span>
+                        </td>
+                        <StatsCells stats={row} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <ul className="space-y-2">
+                  {recent.map((match) => {
+                    const outcome = matchOutcome(match);
+                    return (
+                      <li key={match.id} className="rounded-2xl border border-white/5 bg-black/20 p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="flex min-w-0 items-center gap-2">
+                            <span className={`rounded-full px-2 py-0.5 text-[0.6rem] font-bold ${resultStyles[outcome]}`}>{resultLabels[outcome]}</span>
+                            <span className="truncate text-slate-100">vs. {match.opponent}</span>
+                          </span>
+                          <span className="flex items-center gap-2 text-xs text-slate-400">
+                            {formatTimestamp(match.playedAt)}
+                            <button
+                              type="button"
+                              onClick={() => onSaveMatches(matches.filter((entryMatch) => entryMatch.id !== match.id))}
+                              className="text-slate-500 hover:text-rose-200"
+                              aria-label="Delete match"
+                            >
+                              ×
+                            </button>
+                          </span>
+                        </div>
+                        <p className="mt-1 text-xs text-slate-400">
+                          {match.games.map((game) => `${resultLabels[game.result]} (${game.order === 'first' ? '1st' : '2nd'})`).join(' · ')}
+                          {planName(match.sidePlanId) ? ` · Side: ${planName(match.sidePlanId)}` : ''}
+                        </p>
+                        {match.notes && <p className="mt-1 whitespace-pre-line text-xs text-slate-300">{match.notes}</p>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
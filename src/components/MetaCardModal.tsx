@@ -1,16 +1,16 @@
 import { useMemo } from 'react';
-import type { MetaData, Format } from '../types.ts';
+import type { MetaData, MetaFormat } from '../types.ts';
 import metaDataPayload from '../data/meta-data.json';
 
 const metaData = metaDataPayload as MetaData;
 
 interface MetaCardModalProps {
   cardId: number;
-  format: Format;
+  metaFormat: MetaFormat;
   onClose: () => void;
 }
 
-export function MetaCardModal({ cardId, format, onClose }: MetaCardModalProps) {
+export function MetaCardModal({ cardId, metaFormat, onClose }: MetaCardModalProps) {
   const cardMeta = metaData.popularCards[cardId.toString()];
 
   const synergy = useMemo(() => {
@@ -91,12 +91,12 @@ export function MetaCardModal({ cardId, format, onClose }: MetaCardModalProps) {
             <div className="rounded-2xl border border-cyan-500/20 bg-cyan-500/5 p-4 text-sm text-slate-200">
               {cardMeta.staple ? (
                 <p>Recognized as a <strong className="text-cyan-300 font-bold">Global Staple</strong>. This card provides high utility across multiple deck types and is consistently used in competitive play.</p>
-              ) : (format === 'genesys' && cardMeta.metaContext?.genesys) || (format === 'advanced' && cardMeta.metaContext?.advanced) ? (
-                <p>Belongs to a <strong className="text-cyan-300 font-bold">Tournament Winning Archetype</strong>. This card (or its archetype: {cardMeta.archetype || 'N/A'}) has appeared in top-performing decks in recent {format === 'genesys' ? 'Genesys' : 'Advanced'} tournaments.</p>
+              ) : cardMeta.metaContext?.[metaFormat] ? (
+                <p>Belongs to a <strong className="text-cyan-300 font-bold">Tournament Winning Archetype</strong>. This card (or its archetype: {cardMeta.archetype || 'N/A'}) has appeared in top-performing decks in recent {metaFormat === 'genesys' ? 'Genesys' : 'Advanced'} tournaments.</p>
               ) : cardMeta.viewsweek > 5 ? (
                 <p>Currently a <strong className="text-cyan-300 font-bold">Global Trend</strong>. This card is receiving significant community attention this week, indicating it is being widely tested in new builds.</p>
               ) : (
-                <p>Considered a <strong className="text-cyan-300 font-bold">Strategic Tech Pick</strong>. It shows consistent usage in specific builds or as a counter-pick in the current {format === 'genesys' ? 'Genesys' : 'TCG'} environment.</p>
+                <p>Considered a <strong className="text-cyan-300 font-bold">Strategic Tech Pick</strong>. It shows consistent usage in specific builds or as a counter-pick in the current {metaFormat === 'genesys' ? 'Genesys' : 'TCG'} environment.</p>
               )}
             </div>
           </div>
@@ -1,15 +1,19 @@
-import { useMemo } from 'react';
-import type { DeckGroups, MetaData, Format } from '../types.ts';
+import { useEffect, useMemo, useState } from 'react';
+import type { DeckGroups, MetaData, MetaFormat } from '../types.ts';
 import metaDataPayload from '../data/meta-data.json';
+import type { MetaDeckMatch } from '../lib/metaDecks.ts';
+import { countDeckGroups, rankMetaDecks, type MetaCardCount } from '../lib/metaSimilarity.ts';
+import { fetchCardsByIds } from '../lib/ygoprodeck.ts';
 
 const metaData = metaDataPayload as MetaData;
 
 interface MetaInsightsProps {
   deckGroups: DeckGroups | null;
-  format: Format;
+  metaFormat: MetaFormat;
+  onLoadMetaDeck: (match: MetaDeckMatch) => void;
 }
 
-export function MetaInsights({ deckGroups, format }: MetaInsightsProps) {
+export function MetaInsights({ deckGroups, metaFormat, onLoadMetaDeck }: MetaInsightsProps) {
   const analysis = useMemo(() => {
     if (!deckGroups) return null;
 
@@ -17,7 +21,6 @@ export function MetaInsights({ deckGroups, format }: MetaInsightsProps) {
     
     let stapleCount = 0;
     let highMetaCount = 0;
-    const matchedArchetypes = new Set<string>();
     
     const deckPopularity: Array<{ name: string; viewsweek: number; staple: boolean }> = [];
 
@@ -28,10 +31,9 @@ export function MetaInsights({ deckGroups, format }: MetaInsightsProps) {
         if (meta.viewsweek > 10) highMetaCount++;
         
         // Advanced format specific meta filters could go here
-        const isRelevantPopularity = format === 'genesys' || (meta.formats && meta.formats.includes('TCG'));
+        const isRelevantPopularity = metaFormat === 'genesys' || (meta.formats && meta.formats.includes('TCG'));
         
         if (isRelevantPopularity) {
-          if (meta.archetype) matchedArchetypes.add(meta.archetype);
           deckPopularity.push({ name: card.name, viewsweek: meta.viewsweek, staple: meta.staple });
         }
       }
@@ -40,27 +42,86 @@ export function MetaInsights({ deckGroups, format }: MetaInsightsProps) {
     // Sort by popularity
     deckPopularity.sort((a, b) => b.viewsweek - a.viewsweek);
 
-    const recentDecks = format === 'genesys' ? metaData.genesys.recentDecks : metaData.advanced.recentDecks;
+    const recentDecks = metaFormat === 'genesys' ? metaData.genesys.recentDecks : metaData.advanced.recentDecks;
 
-    // Find similarity with recent meta decks
-    const metaMatches = recentDecks.map(metaDeck => {
-      const isArchetypeMatch = matchedArchetypes.has(metaDeck.name.split(' ')[0]);
-      return { ...metaDeck, isArchetypeMatch };
-    });
+    // Card overlap with recent meta decks that have a captured list
+    const similarDecks = rankMetaDecks(countDeckGroups([...deckGroups.main, ...deckGroups.extra]), recentDecks);
 
     return {
       staplePercent: Math.round((stapleCount / allDeckCards.length) * 100),
       metaPercent: Math.round((highMetaCount / allDeckCards.length) * 100),
       topPopularCards: deckPopularity.slice(0, 5),
-      metaMatches: metaMatches.slice(0, 6),
+      similarDecks: similarDecks.slice(0, 6),
+      recentDecks: recentDecks.slice(0, 6),
       totalCards: allDeckCards.length
     };
-  }, [deckGroups, format]);
+  }, [deckGroups, metaFormat]);
+
+  const [expandedDeckUrl, setExpandedDeckUrl] = useState<string | null>(null);
+  const [fetchedNames, setFetchedNames] = useState<Record<number, string>>({});
+
+  const cardNames = useMemo(() => {
+    const names: Record<number, string> = { ...fetchedNames };
+    Object.entries(metaData.popularCards).forEach(([id, card]) => {
+      names[Number(id)] = card.name;
+    });
+    if (deckGroups) {
+      [...deckGroups.main, ...deckGroups.extra, ...deckGroups.side].forEach((card) => {
+        names[card.id] = card.name;
+      });
+    }
+    return names;
+  }, [deckGroups, fetchedNames]);
+
+  // Meta decks mostly list cards we have no names for yet; the lookup falls back to the offline snapshot.
+  const unnamedIds = useMemo(() => {
+    const ids = new Set<number>();
+    analysis?.similarDecks.forEach((entry) => {
+      [...entry.shared, ...entry.missing].forEach(({ id }) => {
+        if (!cardNames[id]) ids.add(id);
+      });
+    });
+    return [...ids];
+  }, [analysis, cardNames]);
+
+  useEffect(() => {
+    if (unnamedIds.length === 0) return;
+    let cancelled = false;
+    fetchCardsByIds(unnamedIds)
+      .then((cards) => {
+        if (cancelled) return;
+        setFetchedNames((prev) => {
+          const next = { ...prev };
+          unnamedIds.forEach((id) => {
+            next[id] = cards[id]?.name ?? `#${id}`;
+          });
+          return next;
+        });
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [unnamedIds]);
 
   if (!analysis) return null;
 
-  const formatLabel = format === 'genesys' ? 'Genesys' : 'Advanced';
-  const formatUrl = format === 'genesys' 
+  const expandedUrl = expandedDeckUrl ?? analysis.similarDecks[0]?.deck.url ?? null;
+  const renderCardList = (cards: MetaCardCount[], emptyLabel: string) =>
+    cards.length > 0 ? (
+      <ul className="space-y-0.5">
+        {cards.map(({ id, count }) => (
+          <li key={id} className="truncate text-[0.65rem] text-slate-300">
+            <span className="text-slate-500">{count}×</span> {cardNames[id] ?? '…'}
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-[0.65rem] text-slate-500">{emptyLabel}</p>
+    );
+
+  const formatLabel = metaFormat === 'genesys' ? 'Genesys' : 'Advanced';
+  const formatUrl = metaFormat === 'genesys' 
     ? "https://ygoprodeck.com/category/format/tournament%20meta%20decks%20(genesys)"
     : "https://ygoprodeck.com/category/format/tournament%20meta%20decks";
 
@@ -127,31 +188,84 @@ export function MetaInsights({ deckGroups, format }: MetaInsightsProps) {
             Browse All Decks ↗
           </a>
         </div>
-        <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
-          {analysis.metaMatches.length > 0 ? analysis.metaMatches.map((deck, idx) => (
-            <a
-              key={idx}
-              href={deck.url}
-              target="_blank"
-              rel="noreferrer"
-              className={`group block rounded-xl border p-3 transition ${
-                deck.isArchetypeMatch 
-                  ? 'border-cyan-500/30 bg-cyan-500/5 hover:bg-cyan-500/10' 
-                  : 'border-white/5 bg-white/5 hover:bg-white/10'
-              }`}
-            >
-              <div className="flex items-start justify-between gap-2">
+        {analysis.similarDecks.length > 0 ? (
+          <ol className="space-y-2">
+            {analysis.similarDecks.map((entry, idx) => {
+              const percent = Math.round(entry.similarity * 100);
+              const isExpanded = entry.deck.url === expandedUrl;
+              return (
+                <li key={entry.deck.url} className={`rounded-xl border p-3 transition ${isExpanded ? 'border-cyan-500/30 bg-cyan-500/5' : 'border-white/5 bg-white/5'}`}>
+                  <div className="flex items-center gap-3">
+                    <span className="w-5 text-xs font-bold text-slate-500">{idx + 1}</span>
+                    <button
+                      type="button"
+                      onClick={() => setExpandedDeckUrl(isExpanded ? '' : entry.deck.url)}
+                      className="min-w-0 flex-1 text-left"
+                      aria-expanded={isExpanded}
+                    >
+                      <div className="flex items-baseline justify-between gap-2">
+                        <h4 className="truncate text-sm font-semibold text-slate-100">{entry.deck.name}</h4>
+                        <span className="text-xs font-bold text-cyan-300">{percent}%</span>
+                      </div>
+                      <div className="mt-1 h-1 w-full overflow-hidden rounded-full bg-slate-800">
+                        <div className="h-full bg-cyan-500 transition-all" style={{ width: `${percent}%` }} />
+                      </div>
+                      <p className="mt-1 truncate text-[0.65rem] leading-tight text-slate-400">{entry.deck.meta}</p>
+                    </button>
+                  </div>
+                  {isExpanded && (
+                    <div className="mt-3 space-y-3 border-t border-white/5 pt-3">
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <div>
+                          <p className="mb-1 text-[0.6rem] font-bold uppercase tracking-widest text-emerald-300">Shared cards</p>
+                          {renderCardList(entry.shared, 'No cards in common.')}
+                        </div>
+                        <div>
+                          <p className="mb-1 text-[0.6rem] font-bold uppercase tracking-widest text-amber-300">Missing from your deck</p>
+                          {renderCardList(entry.missing, 'You run everything this list does.')}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          type="button"
+                          onClick={() => onLoadMetaDeck({ format: metaFormat, deck: entry.deck })}
+                          className="text-[0.6rem] font-bold uppercase tracking-widest text-cyan-400 hover:text-cyan-300"
+                        >
+                          Load &amp; score →
+                        </button>
+                        <a
+                          href={entry.deck.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200 hover:underline"
+                        >
+                          View on YGOProDeck ↗
+                        </a>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {analysis.recentDecks.length > 0 ? analysis.recentDecks.map((deck) => (
+              <a
+                key={deck.url}
+                href={deck.url}
+                target="_blank"
+                rel="noreferrer"
+                className="group block rounded-xl border border-white/5 bg-white/5 p-3 transition hover:bg-white/10"
+              >
                 <h4 className="truncate text-sm font-semibold text-slate-100 group-hover:text-white">{deck.name}</h4>
-                {deck.isArchetypeMatch && (
-                  <span className="rounded-md bg-cyan-500/20 px-1.5 py-0.5 text-[0.55rem] font-bold text-cyan-300">MATCH</span>
-                )}
-              </div>
-              <p className="mt-1 text-[0.65rem] leading-tight text-slate-400">{deck.meta}</p>
-            </a>
-          )) : (
-            <p className="col-span-full py-4 text-center text-xs text-slate-500">No recent tournament data found for this format.</p>
-          )}
-        </div>
+                <p className="mt-1 text-[0.65rem] leading-tight text-slate-400">{deck.meta}</p>
+              </a>
+            )) : (
+              <p className="col-span-full py-4 text-center text-xs text-slate-500">No recent tournament data found for this format.</p>
+            )}
+          </div>
+        )}
       </div>
       
       <p className="text-center text-[0.6rem] text-slate-500 italic">
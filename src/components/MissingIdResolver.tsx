@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import type { CardDetails, DeckSection } from '../types';
 import { formatCardTypeLabel } from '../lib/strings';
 import { searchCards } from '../lib/ygoprodeck';
+import { isExtraDeckType } from '../lib/legality';
 
 const PAGE_SIZE = 5;
 const zoneLabels: Record<DeckSection, string> = {
@@ -10,16 +11,6 @@ const zoneLabels: Record<DeckSection, string> = {
   side: 'Side Deck',
 };
 
-const EXTRA_TYPE_KEYWORDS = ['fusion', 'synchro', 'xyz', 'x-y-z', 'link'];
-
-const isExtraDeckType = (type?: string) => {
-  if (!type) {
-    return false;
-  }
-  const normalized = type.toLowerCase();
-  return EXTRA_TYPE_KEYWORDS.some((keyword) => normalized.includes(keyword));
-};
-
 const canUseCardInZone = (card: CardDetails, zone: DeckSection) => {
   if (zone === 'side') {
     return true;
@@ -0,0 +1,77 @@
+import { useMemo, useState } from 'react';
+import type { DeckGroups, DeckTags } from '../types';
+import {
+  POINT_BREAKDOWN_DIMENSIONS,
+  buildPointBreakdown,
+  pointBreakdownLabels,
+  type PointBreakdownDimension,
+} from '../lib/pointBreakdown.ts';
+
+interface PointBreakdownPanelProps {
+  deckGroups: DeckGroups;
+  deckTags: DeckTags;
+  totalPoints: number;
+  pointCap: number;
+}
+
+const formatPoints = (value: number) => (Number.isInteger(value) ? `${value}` : value.toFixed(1));
+
+export function PointBreakdownPanel({ deckGroups, deckTags, totalPoints, pointCap }: PointBreakdownPanelProps) {
+  const [dimension, setDimension] = useState<PointBreakdownDimension>('card');
+  const rows = useMemo(() => buildPointBreakdown(deckGroups, dimension, deckTags), [deckGroups, dimension, deckTags]);
+  const maxPoints = rows[0]?.points ?? 0;
+
+  return (
+    <section className="space-y-4 rounded-[28px] border border-white/10 bg-panel/90 p-5 shadow-panel">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Point budget</p>
+          <h3 className="text-xl font-semibold text-white">
+            Where {totalPoints} / {pointCap} points go
+          </h3>
+        </div>
+        <div className="flex flex-wrap rounded-full border border-white/10 bg-black/30 p-0.5 text-[0.65rem] font-bold uppercase tracking-wider">
+          {POINT_BREAKDOWN_DIMENSIONS.map((entry) => (
+            <button
+              key={entry}
+              type="button"
+              onClick={() => setDimension(entry)}
+              aria-pressed={dimension === entry}
+              className={`rounded-full px-3 py-1 transition ${dimension === entry ? 'bg-cyan-500 text-slate-900' : 'text-slate-300 hover:text-white'}`}
+            >
+              {pointBreakdownLabels[entry]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-400">No card in this deck costs points.</p>
+      ) : (
+        <>
+          {dimension === 'tag' && (
+            <p className="text-xs text-slate-500">Cards with several tags count toward each, so shares can add up to more than 100%.</p>
+          )}
+          <ul className="max-h-96 space-y-2 overflow-y-auto pr-1 text-sm">
+            {rows.map((row) => (
+              <li key={row.key} className="space-y-1">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span className="truncate text-slate-100" title={row.label}>
+                    {row.label}
+                  </span>
+                  <span className="whitespace-nowrap text-xs text-slate-400">
+                    <span className="font-semibold text-white">{row.points} pts</span> · {Math.round(row.share * 100)}% · {row.copies}{' '}
+                    {row.copies === 1 ? 'copy' : 'copies'} · {formatPoints(row.pointsPerCopy)}/copy
+                  </span>
+                </div>
+                <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-800">
+                  <div className="h-full bg-cyan-500 transition-all" style={{ width: `${maxPoints > 0 ? (row.points / maxPoints) * 100 : 0}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,138 @@
+import type { PointChange, PointChangeKind, PointChangelogEntry, PointHistory } from '../types';
+import { formatPointChange } from '../lib/pointChangelog.ts';
+import { normalizeCardName } from '../lib/strings.ts';
+
+const kindLabels: Record<PointChangeKind, string> = {
+  added: 'Added',
+  increased: 'Increased',
+  decreased: 'Decreased',
+  removed: 'Removed',
+};
+
+const kindClasses: Record<PointChangeKind, string> = {
+  added: 'text-rose-200',
+  increased: 'text-rose-200',
+  decreased: 'text-emerald-200',
+  removed: 'text-emerald-200',
+};
+
+const kinds: PointChangeKind[] = ['added', 'increased', 'decreased', 'removed'];
+
+const formatDate = (date: string) => {
+  const parsed = new Date(`${date}T00:00:00`);
+  return Number.isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+interface PointChangelogProps {
+  /** Null while the snapshots load. */
+  history: PointHistory | null;
+  deckCardNames: string[];
+}
+
+export function PointChangelog({ history, deckCardNames }: PointChangelogProps) {
+  const inDeck = new Set(deckCardNames.map(normalizeCardName));
+
+  if (!history) {
+    return <p className="py-12 text-center text-slate-500">Loading point history…</p>;
+  }
+
+  const { entries, snapshotDates } = history;
+  if (entries.length === 0) {
+    return (
+      <div className="space-y-1 py-12 text-center text-slate-500">
+        <p className="font-semibold text-slate-300">No point changes recorded yet</p>
+        <p className="text-sm">
+          {snapshotDates.length === 0
+            ? 'Point history starts with the next Genesys list update.'
+            : `Tracking since the ${formatDate(snapshotDates[0])} list.`}{' '}
+          Every update that moves points will be listed here, with the cards in this deck highlighted.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-4 overflow-y-auto pr-2">
+      {entries.map((entry) => (
+        <section key={entry.lastUpdated} className="space-y-2 rounded-2xl border border-white/5 bg-black/30 p-3">
+          <div className="flex items-baseline justify-between gap-2">
+            <h3 className="text-sm font-semibold text-white">{formatDate(entry.date)}</h3>
+            <span className="text-[0.6rem] uppercase tracking-wider text-slate-500">
+              vs {formatDate(entry.previousDate)} · {entry.changes.length} change{entry.changes.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          {kinds.map((kind) => {
+            const changes = entry.changes.filter((change) => change.kind === kind);
+            if (changes.length === 0) return null;
+            return (
+              <div key={kind} className="space-y-1">
+                <p className="text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">{kindLabels[kind]}</p>
+                <ul className="space-y-1 text-sm">
+                  {changes.map((change) => {
+                    const affectsDeck = inDeck.has(normalizeCardName(change.name));
+                    return (
+                      <li
+                        key={change.name}
+                        className={`flex items-center justify-between gap-2 rounded-xl px-2 py-1 ${affectsDeck ? 'bg-amber-500/10' : ''}`}
+                      >
+                        <span className="truncate text-slate-100" title={change.name}>
+                          {change.name}
+                          {affectsDeck && <span className="ml-2 text-[0.6rem] uppercase tracking-wider text-amber-200">In deck</span>}
+                        </span>
+                        <span className={`whitespace-nowrap text-xs font-semibold ${kindClasses[kind]}`}>
+                          {change.before} → {change.after}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+interface PointUpdateBannerProps {
+  entry: PointChangelogEntry;
+  deckChanges: PointChange[];
+  onShowChanges: () => void;
+  onDismiss: () => void;
+}
+
+export function PointUpdateBanner({ entry, deckChanges, onShowChanges, onDismiss }: PointUpdateBannerProps) {
+  return (
+    <div className="flex flex-wrap items-start gap-3 rounded-2xl border border-amber-400/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-50">
+      <div className="min-w-0 flex-1">
+        <p className="font-semibold">
+          The {formatDate(entry.date)} point list update changes {deckChanges.length} card
+          {deckChanges.length === 1 ? '' : 's'} in this deck
+        </p>
+        <p className="truncate text-xs text-amber-100/80" title={deckChanges.map(formatPointChange).join('\n')}>
+          {deckChanges.map(formatPointChange).join(' · ')}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onShowChanges}
+          className="rounded-full border border-amber-200/40 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-amber-50 hover:border-amber-100"
+        >
+          See changes
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-lg leading-none text-amber-200/70 hover:text-amber-50"
+          aria-label="Dismiss point update"
+        >
+          ×
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useMemo } from 'react';
+import type { DeckGroups, DeckSection } from '../types';
+import { planPointCuts, type PointCutPlan } from '../lib/pointOptimizer.ts';
+
+interface PointOptimizerModalProps {
+  deckGroups: DeckGroups;
+  pointCap: number;
+  minMainDeck: number;
+  lockedIds: number[];
+  onToggleLock: (cardId: number) => void;
+  onApply: (plan: PointCutPlan) => void;
+  onClose: () => void;
+}
+
+const sectionLabels: Record<DeckSection, string> = { main: 'Main', extra: 'Extra', side: 'Side' };
+const sections: DeckSection[] = ['main', 'extra', 'side'];
+
+export function PointOptimizerModal({
+  deckGroups,
+  pointCap,
+  minMainDeck,
+  lockedIds,
+  onToggleLock,
+  onApply,
+  onClose,
+}: PointOptimizerModalProps) {
+  const { overage, plans } = useMemo(
+    () => planPointCuts(deckGroups, { pointCap, minMainDeck, lockedIds }),
+    [deckGroups, pointCap, minMainDeck, lockedIds],
+  );
+
+  // One lock per card name, even when copies sit in more than one section.
+  const pointedCards = useMemo(() => {
+    const seen = new Map<number, { id: number; name: string; pointsPerCopy: number }>();
+    sections.forEach((zone) =>
+      deckGroups[zone].forEach((group) => {
+        if (group.pointsPerCopy > 0 && !seen.has(group.id)) {
+          seen.set(group.id, { id: group.id, name: group.name, pointsPerCopy: group.pointsPerCopy });
+        }
+      }),
+    );
+    return Array.from(seen.values()).sort((a, b) => b.pointsPerCopy - a.pointsPerCopy || a.name.localeCompare(b.name));
+  }, [deckGroups]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Optimize</p>
+            <h2 className="text-2xl font-semibold">Cut plans</h2>
+            <p className="text-sm text-slate-400">
+              {overage > 0
+                ? `${overage} pts over the ${pointCap} cap · main deck stays at ${minMainDeck}+ cards`
+                : 'The deck is within the cap.'}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label="Close optimizer">
+            ×
+          </button>
+        </div>
+
+        <div className="grid flex-1 gap-4 overflow-hidden md:grid-cols-[minmax(0,0.8fr)_minmax(0,1.2fr)]">
+          <div className="flex flex-col gap-2 overflow-hidden rounded-2xl border border-white/10 bg-black/30 p-3">
+            <p className="text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">Lock cards you won't cut</p>
+            <ul className="space-y-1 overflow-y-auto pr-1 text-sm">
+              {pointedCards.map((card) => (
+                <li key={card.id}>
+                  <label className="flex cursor-pointer items-center justify-between gap-2 rounded-xl px-2 py-1 hover:bg-white/5">
+                    <span className="flex min-w-0 items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={lockedIds.includes(card.id)}
+                        onChange={() => onToggleLock(card.id)}
+                        className="accent-cyan-400"
+                      />
+                      <span className="truncate text-slate-100" title={card.name}>
+                        {card.name}
+                      </span>
+                    </span>
+                    <span className="text-xs text-slate-400">{card.pointsPerCopy} pts</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex flex-col gap-2 overflow-y-auto pr-1">
+            {overage > 0 && plans.length === 0 && (
+              <p className="text-sm text-rose-200">
+                No cut plan fits: unlock some cards or lower the main deck minimum.
+              </p>
+            )}
+            {plans.map((plan, index) => (
+              <div key={index} className="space-y-2 rounded-2xl border border-white/5 bg-black/40 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold text-white">
+                    −{plan.cardsRemoved} card{plan.cardsRemoved === 1 ? '' : 's'}
+                    <span className="ml-2 text-xs font-normal text-slate-400">
+                      −{plan.pointsRemoved} pts · {plan.pointsAfter} / {pointCap}
+                    </span>
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => onApply(plan)}
+                    className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white hover:border-white"
+                  >
+                    Apply
+                  </button>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {plan.cuts.map((cut) => (
+                    <li key={`${cut.zone}-${cut.id}`} className="flex items-center justify-between gap-2">
+                      <span className="truncate text-rose-200">
+                        −{cut.copies} {cut.name}
+                      </span>
+                      <span className="text-[0.6rem] uppercase tracking-wider text-slate-500">
+                        {sectionLabels[cut.zone]} · {cut.copies * cut.pointsPerCopy} pts
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
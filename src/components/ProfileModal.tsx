@@ -89,6 +89,15 @@ export function ProfileModal({ onClose }: ProfileModalProps) {
               className="w-full rounded-xl border border-white/5 bg-black/40 px-4 py-2.5 text-sm text-white outline-none focus:border-cyan-500/50"
             />
           </div>
+          <label className="flex items-center gap-3 rounded-xl border border-white/5 bg-black/40 px-4 py-2.5 text-sm text-white">
+            <input
+              type="checkbox"
+              checked={profile.ydkCardNames !== false}
+              onChange={e => setProfile({ ...profile, ydkCardNames: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Add card names as comments in .ydk exports
+          </label>
         </div>
 
         <div className="flex justify-end gap-3 pt-2">
@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react';
+import type { CardDetails, DeckTags, HandCategory } from '../types';
+import { HAND_CATEGORIES, handCategoryLabels } from '../lib/handOdds.ts';
+import {
+  PRESET_HAND_COMBOS,
+  comboIdFor,
+  countHandTags,
+  dealSampleHand,
+  drawSampleCard,
+  formatComboLabel,
+  handTagLookup,
+  matchesCombo,
+  mulliganSampleHand,
+  type HandCombo,
+  type SampleHand,
+  type SampleHandTally,
+} from '../lib/sampleHand.ts';
+
+interface SampleHandModalProps {
+  main: number[];
+  /** Dealt (and already tallied) by the opener so the first hand is counted exactly once. */
+  initialSample: SampleHand;
+  cardDetails: Record<number, CardDetails>;
+  deckTags: DeckTags;
+  tally: SampleHandTally;
+  trackedCombos: HandCombo[];
+  onOpeningHand: (hand: number[]) => void;
+  onTrackedCombosChange: (combos: HandCombo[]) => void;
+  onResetTally: () => void;
+  onClose: () => void;
+}
+
+const tagDotColors: Record<HandCategory, string> = {
+  starter: 'bg-emerald-400',
+  extender: 'bg-cyan-400',
+  handTrap: 'bg-violet-400',
+  brick: 'bg-rose-400',
+};
+
+const emptyRequirement = (): Record<HandCategory, number> => ({ starter: 0, extender: 0, handTrap: 0, brick: 0 });
+
+export function SampleHandModal({
+  main,
+  initialSample,
+  cardDetails,
+  deckTags,
+  tally,
+  trackedCombos,
+  onOpeningHand,
+  onTrackedCombosChange,
+  onResetTally,
+  onClose,
+}: SampleHandModalProps) {
+  const [handSize, setHandSize] = useState<5 | 6>(initialSample.hand.length === 6 ? 6 : 5);
+  const [sample, setSample] = useState(initialSample);
+  const [customCombo, setCustomCombo] = useState(emptyRequirement);
+  const tagsFor = handTagLookup(cardDetails, deckTags);
+
+  const startHand = (next: SampleHand) => {
+    setSample(next);
+    onOpeningHand(next.hand);
+  };
+
+  const handCounts = countHandTags(sample.hand, tagsFor);
+  const combos = useMemo(() => {
+    const custom = trackedCombos.filter((combo) => !PRESET_HAND_COMBOS.some((preset) => preset.id === combo.id));
+    return [...PRESET_HAND_COMBOS, ...custom];
+  }, [trackedCombos]);
+
+  const toggleCombo = (combo: HandCombo) => {
+    const isTracked = trackedCombos.some((entry) => entry.id === combo.id);
+    onTrackedCombosChange(isTracked ? trackedCombos.filter((entry) => entry.id !== combo.id) : [...trackedCombos, combo]);
+  };
+
+  const handleAddCustomCombo = () => {
+    const requires = Object.fromEntries(HAND_CATEGORIES.filter((category) => customCombo[category] > 0).map((category) => [category, customCombo[category]]));
+    const id = comboIdFor(requires);
+    if (!id) return;
+    if (!trackedCombos.some((entry) => entry.id === id)) onTrackedCombosChange([...trackedCombos, { id, requires }]);
+    setCustomCombo(emptyRequirement());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-4xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Goldfish</p>
+            <h2 className="text-2xl font-semibold">Sample hand</h2>
+            <p className="text-sm text-slate-400">
+              {sample.hand.length} in hand · {sample.library.length} left in deck
+              {sample.mulligans > 0 ? ` · ${sample.mulligans} mulligan${sample.mulligans === 1 ? '' : 's'}` : ''}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label="Close sample hand">
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-full border border-white/10 bg-black/30 p-0.5 text-[0.65rem] font-bold uppercase tracking-wider">
+            {([5, 6] as const).map((size) => (
+              <button
+                key={size}
+                type="button"
+                onClick={() => {
+                  setHandSize(size);
+                  startHand(dealSampleHand(main, size));
+                }}
+                aria-pressed={handSize === size}
+                className={`rounded-full px-3 py-1 transition ${handSize === size ? 'bg-cyan-500 text-slate-900' : 'text-slate-300 hover:text-white'}`}
+              >
+                {size === 5 ? 'Going first · 5' : 'Going second · 6'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setSample(drawSampleCard(sample))}
+            disabled={sample.library.length === 0}
+            className="rounded-full border border-white/15 px-4 py-1.5 text-xs font-semibold text-white hover:border-white/40 disabled:opacity-40"
+          >
+            Draw
+          </button>
+          <button
+            type="button"
+            onClick={() => startHand(mulliganSampleHand(sample, handSize))}
+            className="rounded-full border border-white/15 px-4 py-1.5 text-xs font-semibold text-white hover:border-white/40"
+          >
+            Mulligan
+          </button>
+          <button
+            type="button"
+            onClick={() => startHand(dealSampleHand(main, handSize))}
+            className="rounded-full bg-cyan-500 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400"
+          >
+            Reshuffle
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto pr-1">
+          <ul className="grid grid-cols-3 gap-2 sm:grid-cols-4 md:grid-cols-6">
+            {sample.hand.map((id, index) => {
+              const card = cardDetails[id];
+              const art = card?.imageCropped ?? card?.image;
+              return (
+                <li key={`${id}-${index}`} className="overflow-hidden rounded-xl border border-white/10 bg-black/40">
+                  {art ? (
+                    <img src={art} alt={card?.name ?? 'Card'} className="aspect-square w-full object-cover" />
+                  ) : (
+                    <div className="flex aspect-square items-center justify-center text-xs text-slate-500">No art</div>
+                  )}
+                  <div className="space-y-1 p-2">
+                    <p className="truncate text-[0.7rem] font-semibold text-white" title={card?.name}>
+                      {card?.name ?? `#${id}`}
+                    </p>
+                    <div className="flex gap-1">
+                      {tagsFor(id).map((category) => (
+                        <span
+                          key={category}
+                          className={`h-1.5 w-1.5 rounded-full ${tagDotColors[category]}`}
+                          title={handCategoryLabels[category]}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <section className="space-y-3 rounded-2xl border border-white/5 bg-black/30 p-4">
+            <div className="flex items-center justify-between">
+              <p className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">
+                Session tally · {tally.hands} opening hand{tally.hands === 1 ? '' : 's'}
+              </p>
+              <button
+                type="button"
+                onClick={onResetTally}
+                className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400 hover:text-white"
+              >
+                Reset
+              </button>
+            </div>
+            <ul className="space-y-1 text-sm">
+              {combos.map((combo) => {
+                const isTracked = trackedCombos.some((entry) => entry.id === combo.id);
+                const entry = tally.combos[combo.id];
+                const inHand = matchesCombo(handCounts, combo);
+                return (
+                  <li key={combo.id} className="flex items-center justify-between gap-2">
+                    <label className="flex min-w-0 items-center gap-2 text-slate-200">
+                      <input type="checkbox" checked={isTracked} onChange={() => toggleCombo(combo)} className="accent-cyan-400" />
+                      <span className="truncate">{formatComboLabel(combo)}</span>
+                      {inHand && <span className="text-[0.6rem] font-bold uppercase tracking-wider text-emerald-300">In hand</span>}
+                    </label>
+                    <span className="whitespace-nowrap text-xs text-slate-400">
+                      {entry && entry.hands > 0
+                        ? `${entry.hits} / ${entry.hands} · ${Math.round((entry.hits / entry.hands) * 100)}%`
+                        : '—'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="flex flex-wrap items-center gap-2 border-t border-white/5 pt-3 text-xs text-slate-300">
+              <span className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">Custom</span>
+              {HAND_CATEGORIES.map((category) => (
+                <label key={category} className="flex items-center gap-1">
+                  {handCategoryLabels[category]}
+                  <input
+                    type="number"
+                    min={0}
+                    max={6}
+                    value={customCombo[category]}
+                    onChange={(event) =>
+                      setCustomCombo((prev) => ({ ...prev, [category]: Math.max(0, Math.min(6, Number(event.target.value) || 0)) }))
+                    }
+                    className="w-12 rounded-lg border border-white/10 bg-black/40 px-1 py-0.5 text-white"
+                  />
+                </label>
+              ))}
+              <button
+                type="button"
+                onClick={handleAddCustomCombo}
+                disabled={HAND_CATEGORIES.every((category) => customCombo[category] === 0)}
+                className="rounded-full border border-white/15 px-3 py-1 font-semibold text-white hover:border-white/40 disabled:opacity-40"
+              >
+                Track
+              </button>
+            </div>
+            {Object.keys(deckTags).length === 0 && (
+              <p className="text-xs text-slate-500">Tag main deck cards first; combos count tagged cards in the opening hand.</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useMemo, useState } from 'react';
+import type { DeckCardGroup, DeckGroups, ParsedDeck, SidePlan } from '../types';
+import { isExtraDeckType } from '../lib/legality.ts';
+import { applySidePlan, emptySidePlan, setSidePlanCount, validateSidePlan } from '../lib/sidePlans.ts';
+
+interface SidePlansModalProps {
+  deck: ParsedDeck;
+  deckGroups: DeckGroups;
+  plans: SidePlan[];
+  hasPoints: boolean;
+  pointCap: number;
+  onSavePlans: (plans: SidePlan[]) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const countIn = (ids: number[]) => {
+  const counts = new Map<number, number>();
+  ids.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1));
+  return counts;
+};
+
+function Stepper({ value, max, onChange, label }: { value: number; max: number; onChange: (value: number) => void; label: string }) {
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <button
+        type="button"
+        onClick={() => onChange(value - 1)}
+        disabled={value <= 0}
+        aria-label={`Fewer ${label}`}
+        className="h-6 w-6 rounded-full border border-white/10 text-slate-300 hover:border-white/40 disabled:opacity-30"
+      >
+        −
+      </button>
+      <span className={`w-6 text-center font-semibold ${value > 0 ? 'text-white' : 'text-slate-500'}`}>{value}</span>
+      <button
+        type="button"
+        onClick={() => onChange(value + 1)}
+        disabled={value >= max}
+        aria-label={`More ${label}`}
+        className="h-6 w-6 rounded-full border border-white/10 text-slate-300 hover:border-white/40 disabled:opacity-30"
+      >
+        +
+      </button>
+    </div>
+  );
+}
+
+export function SidePlansModal({ deck, deckGroups, plans, hasPoints, pointCap, onSavePlans, onExport, onClose }: SidePlansModalProps) {
+  const [draft, setDraft] = useState<SidePlan | null>(() => plans[0] ?? null);
+
+  const cardsById = useMemo(() => {
+    const map = new Map<number, DeckCardGroup>();
+    [...deckGroups.main, ...deckGroups.extra, ...deckGroups.side].forEach((card) => {
+      if (!map.has(card.id)) map.set(card.id, card);
+    });
+    return map;
+  }, [deckGroups]);
+  const nameOf = (id: number) => cardsById.get(id)?.name ?? `Card #${id}`;
+  const pointsOf = (id: number) => cardsById.get(id)?.pointsPerCopy ?? 0;
+
+  const issues = draft ? validateSidePlan(deck, draft, nameOf) : [];
+  const sided = draft && issues.length === 0 ? applySidePlan(deck, draft) : null;
+  const playedPoints = sided ? [...sided.main, ...sided.extra].reduce((sum, id) => sum + pointsOf(id), 0) : 0;
+  const totalPoints = sided ? playedPoints + sided.side.reduce((sum, id) => sum + pointsOf(id), 0) : 0;
+  const isSaved = Boolean(draft && plans.some((plan) => plan.id === draft.id));
+
+  const copiesIn = (plan: SidePlan, direction: 'cardsIn' | 'cardsOut', id: number, zone: 'main' | 'extra') =>
+    plan[direction].find((card) => card.id === id && card.zone === zone)?.count ?? 0;
+
+  const handleSave = () => {
+    if (!draft) return;
+    const named = { ...draft, name: draft.name.trim() || 'Untitled plan' };
+    onSavePlans(isSaved ? plans.map((plan) => (plan.id === named.id ? named : plan)) : [...plans, named]);
+    setDraft(named);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    const remaining = plans.filter((plan) => plan.id !== draft.id);
+    onSavePlans(remaining);
+    setDraft(remaining[0] ?? null);
+  };
+
+  const renderPostSideList = (ids: number[], zone: 'main' | 'extra') => (
+    <ul className="space-y-0.5">
+      {Array.from(countIn(ids)).map(([id, count]) => {
+        const added = draft ? copiesIn(draft, 'cardsIn', id, zone) : 0;
+        return (
+          <li key={id} className="flex justify-between gap-2">
+            <span className={`truncate ${added > 0 ? 'text-emerald-200' : 'text-slate-200'}`}>{nameOf(id)}</span>
+            <span className="text-slate-400">
+              ×{count}
+              {added > 0 ? ` (+${added})` : ''}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-5xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Matchups</p>
+            <h2 className="text-2xl font-semibold">Side plans</h2>
+            <p className="text-sm text-slate-400">
+              {plans.length} plan{plans.length === 1 ? '' : 's'} · {deck.side.length} side deck card{deck.side.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label="Close side plans">
+            ×
+          </button>
+        </div>
+
+        <div className="grid flex-1 gap-4 overflow-hidden md:grid-cols-[minmax(0,0.6fr)_minmax(0,1.4fr)]">
+          <div className="flex flex-col gap-2 overflow-hidden rounded-2xl border border-white/10 bg-black/30 p-3">
+            <ul className="flex-1 space-y-1 overflow-y-auto pr-1 text-sm">
+              {plans.map((plan) => (
+                <li key={plan.id}>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(plan)}
+                    className={`w-full truncate rounded-xl px-3 py-2 text-left transition ${
+                      draft?.id === plan.id ? 'bg-cyan-500/20 text-white' : 'text-slate-300 hover:bg-white/5'
+                    }`}
+                  >
+                    {plan.name}
+                  </button>
+                </li>
+              ))}
+              {plans.length === 0 && <li className="px-2 text-xs text-slate-500">No plans yet.</li>}
+            </ul>
+            <button
+              type="button"
+              onClick={() => setDraft(emptySidePlan())}
+              disabled={deck.side.length === 0}
+              className="rounded-full bg-cyan-500 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400 disabled:opacity-40"
+            >
+              New plan
+            </button>
+            <button
+              type="button"
+              onClick={onExport}
+              disabled={plans.length === 0}
+              className="rounded-full border border-white/15 px-4 py-1.5 text-xs font-semibold text-white hover:border-white/40 disabled:opacity-40"
+            >
+              Export as text
+            </button>
+          </div>
+
+          {draft ? (
+            <div className="flex flex-col gap-3 overflow-y-auto pr-1">
+              <input
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                placeholder="vs. Snake-Eye"
+                className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-white placeholder:text-slate-500"
+              />
+              <div className="grid gap-3 sm:grid-cols-2">
+                <section className="space-y-2 rounded-2xl border border-white/10 bg-black/20 p-3">
+                  <p className="text-[0.6rem] font-bold uppercase tracking-widest text-emerald-300">In from side</p>
+                  <ul className="space-y-1 text-sm">
+                    {deckGroups.side.map((card) => {
+                      const zone = isExtraDeckType(card.type) ? 'extra' : 'main';
+                      return (
+                        <li key={card.id} className="flex items-center justify-between gap-2">
+                          <span className="truncate text-slate-200" title={card.name}>
+                            {card.name}
+                            {zone === 'extra' && <span className="ml-1 text-[0.6rem] text-slate-500">Extra</span>}
+                          </span>
+                          <Stepper
+                            label={card.name}
+                            value={copiesIn(draft, 'cardsIn', card.id, zone)}
+                            max={card.count}
+                            onChange={(count) => setDraft(setSidePlanCount(draft, 'cardsIn', { id: card.id, zone }, count))}
+                          />
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+                <section className="space-y-2 rounded-2xl border border-white/10 bg-black/20 p-3">
+                  <p className="text-[0.6rem] font-bold uppercase tracking-widest text-rose-300">Out from main / extra</p>
+                  <ul className="space-y-1 text-sm">
+                    {[...deckGroups.main, ...deckGroups.extra].map((card) => {
+                      const zone = card.zone === 'extra' ? 'extra' : 'main';
+                      return (
+                        <li key={`${zone}-${card.id}`} className="flex items-center justify-between gap-2">
+                          <span className="truncate text-slate-200" title={card.name}>
+                            {card.name}
+                            {zone === 'extra' && <span className="ml-1 text-[0.6rem] text-slate-500">Extra</span>}
+                          </span>
+                          <Stepper
+                            label={card.name}
+                            value={copiesIn(draft, 'cardsOut', card.id, zone)}
+                            max={card.count}
+                            onChange={(count) => setDraft(setSidePlanCount(draft, 'cardsOut', { id: card.id, zone }, count))}
+                          />
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              </div>
+
+              {issues.length > 0 ? (
+                <ul className="space-y-1 rounded-2xl border border-amber-400/30 bg-amber-500/10 p-3 text-xs text-amber-100">
+                  {issues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              ) : (
+                sided && (
+                  <section className="space-y-2 rounded-2xl border border-white/10 bg-black/20 p-3 text-xs">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <p className="text-[0.6rem] font-bold uppercase tracking-widest text-slate-400">
+                        Post-side · Main {sided.main.length} / Extra {sided.extra.length} / Side {sided.side.length}
+                      </p>
+                      {hasPoints && (
+                        <p className={totalPoints > pointCap ? 'font-semibold text-rose-200' : 'text-slate-300'}>
+                          {playedPoints} pts in main + extra · {totalPoints} / {pointCap} total
+                        </p>
+                      )}
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {renderPostSideList(sided.main, 'main')}
+                      {renderPostSideList(sided.extra, 'extra')}
+                    </div>
+                  </section>
+                )
+              )}
+
+              <div className="flex justify-end gap-2">
+                {isSaved && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="rounded-full border border-rose-300/40 px-4 py-1.5 text-xs font-semibold text-rose-100 hover:border-rose-200"
+                  >
+                    Delete
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={issues.length > 0 || draft.cardsIn.length === 0}
+                  className="rounded-full bg-cyan-500 px-4 py-1.5 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400 disabled:opacity-40"
+                >
+                  Save plan
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400">
+              {deck.side.length === 0 ? 'Add cards to the side deck to plan matchups.' : 'Create a plan for each matchup you expect.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
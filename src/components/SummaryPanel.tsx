@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
-import type { Format } from '../types.ts';
+import type { FormatProfile, LegalityViolation } from '../types.ts';
+import { usesPoints } from '../lib/formatProfiles.ts';
 
 const EditIcon = ({ className }: { className?: string }) => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} strokeLinecap="round" strokeLinejoin="round" className={className}>
@@ -7,6 +8,46 @@ const EditIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+const HistoryIcon = ({ className }: { className?: string }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+    <polyline points="3 3 3 8 8 8" />
+    <polyline points="12 7 12 12 15 14" />
+  </svg>
+);
+
+const SwapIcon = ({ className }: { className?: string }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <polyline points="17 3 21 7 17 11" />
+    <path d="M21 7H8" />
+    <polyline points="7 21 3 17 7 13" />
+    <path d="M3 17h13" />
+  </svg>
+);
+
+const ScoreIcon = ({ className }: { className?: string }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <path d="M4 20V10" />
+    <path d="M10 20V4" />
+    <path d="M16 20v-7" />
+    <path d="M22 20H2" />
+  </svg>
+);
+
+const UndoIcon = ({ className }: { className?: string }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <polyline points="9 14 4 9 9 4" />
+    <path d="M20 20v-7a4 4 0 0 0-4-4H4" />
+  </svg>
+);
+
+const RedoIcon = ({ className }: { className?: string }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} strokeLinecap="round" strokeLinejoin="round" className={className}>
+    <polyline points="15 14 20 9 15 4" />
+    <path d="M4 20v-7a4 4 0 0 1 4-4h12" />
+  </svg>
+);
+
 const SaveIcon = ({ className }: { className?: string }) => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} strokeLinecap="round" strokeLinejoin="round" className={className}>
     <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
@@ -58,26 +99,40 @@ interface SummaryPanelProps {
   cardBreakdown: CardBreakdown;
   cardsOverCap: boolean;
   pointsRemaining: number;
+  onOptimize: () => void;
   shareUrl: string;
   shareStatus: 'idle' | 'copied' | 'error';
   unknownCards: number;
-  blockedCount: number;
-  blockedTotalCount: number;
+  violations: LegalityViolation[];
   cardError: string | null;
   isFetchingCards: boolean;
-  format: Format;
-  onFormatChange: (format: Format) => void;
+  profile: FormatProfile;
+  profiles: FormatProfile[];
+  onProfileChange: (profileId: string) => void;
+  onManageProfiles: () => void;
   onPointCapChange: (value: number) => void;
   onCopyShareLink: () => void;
   onBrowsePointList: () => void;
-  onShowBlocked: () => void;
+  onShowViolations: () => void;
   onBack: () => void;
   onShowSavedDecks: () => void;
   activeDeckName: string | null;
   isSavedDeck: boolean;
   onRenameDeck: (newName: string) => void;
+  revisionCount: number;
+  onShowHistory: () => void;
+  sidePlanCount: number;
+  onShowSidePlans: () => void;
+  matchCount: number;
+  onShowMatchLog: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
   onSaveDeck: () => void;
   onExportTxt: () => void;
+  onExportYdk: () => void;
+  onExportKonamiJson: () => void;
   onExportPdf: () => void;
   onShowProfile: () => void;
 }
@@ -88,31 +143,54 @@ export function SummaryPanel({
   cardBreakdown,
   cardsOverCap,
   pointsRemaining,
+  onOptimize,
   shareUrl,
   shareStatus,
   unknownCards,
-  blockedCount,
-  blockedTotalCount,
+  violations,
   cardError,
   isFetchingCards,
-  format,
-  onFormatChange,
+  profile,
+  profiles,
+  onProfileChange,
+  onManageProfiles,
   onPointCapChange,
   onCopyShareLink,
   onBrowsePointList,
-  onShowBlocked,
+  onShowViolations,
   onBack,
   onShowSavedDecks,
   activeDeckName,
   isSavedDeck,
   onRenameDeck,
+  revisionCount,
+  onShowHistory,
+  sidePlanCount,
+  onShowSidePlans,
+  matchCount,
+  onShowMatchLog,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
   onSaveDeck,
   onExportTxt,
+  onExportYdk,
+  onExportKonamiJson,
   onExportPdf,
   onShowProfile
 }: SummaryPanelProps) {
   const capLabel = pointCap > 0 ? `${pointCap}` : 'No cap';
   const mobileStatusLabel = cardsOverCap ? 'Over cap' : 'Within cap';
+  const hasPoints = usesPoints(profile);
+  const profileOptions = profiles.map((entry) => (
+    <option key={entry.id} value={entry.id} className="bg-slate-900 text-white">
+      {entry.name}
+    </option>
+  ));
+  const deckIssues = violations.filter((violation) => !violation.cardIds?.length);
+  const cardIssues = violations.filter((violation) => violation.cardIds?.length);
+  const cardIssueCopies = cardIssues.reduce((sum, violation) => sum + (violation.count ?? 0), 0);
 
   const [isRenaming, setIsRenaming] = useState(false);
   const [renameInput, setRenameInput] = useState('');
@@ -184,6 +262,22 @@ export function SummaryPanel({
               >
                 TXT
               </button>
+              <button
+                type="button"
+                className="inline-flex h-11 items-center uppercase justify-center gap-2 bg-slate-800 border-l border-white/10 px-4 py-2 text-xs font-semibold text-slate-100 transition hover:bg-slate-700"
+                onClick={onExportYdk}
+                title="Download .ydk for EDOPro / YGO Omega"
+              >
+                YDK
+              </button>
+              <button
+                type="button"
+                className="inline-flex h-11 items-center uppercase justify-center gap-2 bg-slate-800 border-l border-white/10 px-4 py-2 text-xs font-semibold text-slate-100 transition hover:bg-slate-700"
+                onClick={onExportKonamiJson}
+                title="Download Konami ID .json for official Konami tools"
+              >
+                JSON
+              </button>
               <button
                 type="button"
                 className="inline-flex h-11 items-center uppercase justify-center gap-2 rounded-r-full bg-rose-900/40 border-l border-white/10 px-4 py-2 text-xs font-semibold text-rose-100 transition hover:bg-rose-900/60"
@@ -237,6 +331,68 @@ export function SummaryPanel({
             </h2>
           )}
         </div>
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!undoLabel}
+          className="flex h-8 w-8 items-center justify-center rounded-full text-slate-400 transition hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+          aria-label="Undo"
+          title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          <UndoIcon className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!redoLabel}
+          className="flex h-8 w-8 items-center justify-center rounded-full text-slate-400 transition hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+          aria-label="Redo"
+          title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        >
+          <RedoIcon className="h-4 w-4" />
+        </button>
+        {isSavedDeck && (
+          <button
+            type="button"
+            onClick={onShowHistory}
+            className="relative flex h-8 w-8 items-center justify-center rounded-full text-slate-400 transition hover:bg-white/10 hover:text-white"
+            aria-label="Version history"
+            title={`Version history (${revisionCount} earlier version${revisionCount === 1 ? '' : 's'})`}
+          >
+            <HistoryIcon className="h-4 w-4" />
+            {revisionCount > 0 && (
+              <span className="absolute -right-1 -top-1 rounded-full bg-cyan-500 px-1 text-[0.55rem] font-bold text-slate-900">{revisionCount}</span>
+            )}
+          </button>
+        )}
+        {isSavedDeck && (
+          <button
+            type="button"
+            onClick={onShowSidePlans}
+            className="relative flex h-8 w-8 items-center justify-center rounded-full text-slate-400 transition hover:bg-white/10 hover:text-white"
+            aria-label="Side plans"
+            title={`Side plans (${sidePlanCount})`}
+          >
+            <SwapIcon className="h-4 w-4" />
+            {sidePlanCount > 0 && (
+              <span className="absolute -right-1 -top-1 rounded-full bg-cyan-500 px-1 text-[0.55rem] font-bold text-slate-900">{sidePlanCount}</span>
+            )}
+          </button>
+        )}
+        {isSavedDeck && (
+          <button
+            type="button"
+            onClick={onShowMatchLog}
+            className="relative flex h-8 w-8 items-center justify-center rounded-full text-slate-400 transition hover:bg-white/10 hover:text-white"
+            aria-label="Match log"
+            title={`Match log (${matchCount} match${matchCount === 1 ? '' : 'es'})`}
+          >
+            <ScoreIcon className="h-4 w-4" />
+            {matchCount > 0 && (
+              <span className="absolute -right-1 -top-1 rounded-full bg-cyan-500 px-1 text-[0.55rem] font-bold text-slate-900">{matchCount}</span>
+            )}
+          </button>
+        )}
         {isSavedDeck ? (
           <button
             type="button"
@@ -267,27 +423,24 @@ export function SummaryPanel({
       {/* Mobile Stats & Toggle */}
       <div className="flex flex-col gap-2 sm:hidden">
         <div className="flex gap-1 rounded-full border border-white/10 bg-black/20 p-1">
-          <button
-            type="button"
-            onClick={() => onFormatChange('genesys')}
-            className={`flex-1 rounded-full py-2 text-[0.65rem] font-bold uppercase tracking-wider transition ${
-              format === 'genesys' ? 'bg-cyan-500 text-slate-900' : 'text-slate-400 hover:text-slate-200'
-            }`}
+          <select
+            value={profile.id}
+            onChange={(event) => onProfileChange(event.target.value)}
+            className="flex-1 rounded-full bg-transparent px-3 py-2 text-[0.65rem] font-bold uppercase tracking-wider text-cyan-100 outline-none"
+            aria-label="Format profile"
           >
-            Genesys
-          </button>
+            {profileOptions}
+          </select>
           <button
             type="button"
-            onClick={() => onFormatChange('advanced')}
-            className={`flex-1 rounded-full py-2 text-[0.65rem] font-bold uppercase tracking-wider transition ${
-              format === 'advanced' ? 'bg-amber-500 text-slate-900' : 'text-slate-400 hover:text-slate-200'
-            }`}
+            onClick={onManageProfiles}
+            className="rounded-full px-3 py-2 text-[0.65rem] font-bold uppercase tracking-wider text-slate-400 transition hover:text-slate-200"
           >
-            Advanced
+            Rules
           </button>
         </div>
 
-        {format === 'genesys' ? (
+        {hasPoints ? (
           <div className="rounded-2xl border border-white/10 bg-black/30 p-3">
             <div className="flex items-center justify-between gap-3">
               <div>
@@ -298,6 +451,15 @@ export function SummaryPanel({
                 </p>
                 <p className={`text-[0.6rem] uppercase tracking-[0.3em] ${cardsOverCap ? 'text-rose-200' : 'text-emerald-200'}`}>{mobileStatusLabel}</p>
               </div>
+              {cardsOverCap && (
+                <button
+                  type="button"
+                  onClick={onOptimize}
+                  className="rounded-full border border-rose-300/40 px-3 py-1 text-[0.65rem] font-bold uppercase tracking-wider text-rose-100 transition hover:border-rose-200"
+                >
+                  Optimize
+                </button>
+              )}
             </div>
             <p className="mt-3 text-xs text-slate-400">
               Main {cardBreakdown.main} / Extra {cardBreakdown.extra} / Side {cardBreakdown.side}
@@ -315,32 +477,30 @@ export function SummaryPanel({
 
       {/* Desktop Grid with 4 blocks */}
       <div className="hidden gap-2 sm:grid sm:grid-cols-4">
-        {/* Block 1: Format Toggle */}
+        {/* Block 1: Format Profile */}
         <div className="flex flex-col h-[92px] rounded-2xl border border-white/10 bg-black/30 px-3 py-2 text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">
           <span>Active Format</span>
           <div className="mt-1 flex flex-1 gap-1 rounded-xl bg-black/20 p-1">
-            <button
-              type="button"
-              onClick={() => onFormatChange('genesys')}
-              className={`flex-1 rounded-lg text-[0.8rem] font-bold transition ${
-                format === 'genesys' ? 'bg-cyan-500 text-slate-900' : 'text-slate-500 hover:text-slate-300'
-              }`}
+            <select
+              value={profile.id}
+              onChange={(event) => onProfileChange(event.target.value)}
+              className="min-w-0 flex-1 rounded-lg bg-transparent px-1 text-[0.8rem] font-bold normal-case tracking-normal text-cyan-100 outline-none"
+              aria-label="Format profile"
             >
-              Genesys
-            </button>
+              {profileOptions}
+            </select>
             <button
               type="button"
-              onClick={() => onFormatChange('advanced')}
-              className={`flex-1 rounded-lg text-[0.8rem] font-bold transition ${
-                format === 'advanced' ? 'bg-amber-500 text-slate-900' : 'text-slate-500 hover:text-slate-300'
-              }`}
+              onClick={onManageProfiles}
+              className="rounded-lg px-2 text-[0.65rem] font-bold text-slate-500 transition hover:text-slate-300"
+              title="Manage format profiles"
             >
-              Advanced
+              Rules
             </button>
           </div>
         </div>
 
-        {format === 'genesys' ? (
+        {hasPoints ? (
           <>
             {/* Block 2: Max Points */}
             <label className="flex flex-col h-[92px] rounded-2xl border border-white/10 bg-black/30 px-3 py-2 text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">
@@ -365,9 +525,18 @@ export function SummaryPanel({
               <span className={`text-2xl font-bold tracking-tight ${cardsOverCap ? 'text-rose-200' : 'text-slate-50'}`}>
                 {totalPoints}
               </span>
-              <span className={`text-[0.65rem] uppercase tracking-[0.2em] ${cardsOverCap ? 'text-rose-200' : 'text-emerald-200'}`}>
-                {cardsOverCap ? 'Over cap' : 'Within cap'}
-              </span>
+              {cardsOverCap ? (
+                <button
+                  type="button"
+                  onClick={onOptimize}
+                  className="text-[0.65rem] uppercase tracking-[0.2em] text-rose-200 underline decoration-dotted underline-offset-4 transition hover:text-rose-100"
+                  title="Suggest cuts to get under the cap"
+                >
+                  Over cap · Optimize
+                </button>
+              ) : (
+                <span className="text-[0.65rem] uppercase tracking-[0.2em] text-emerald-200">Within cap</span>
+              )}
             </div>
 
             {/* Block 4: Counts */}
@@ -388,10 +557,10 @@ export function SummaryPanel({
           </>
         ) : (
           <>
-            {/* Advanced Layout filling remaining 3 columns */}
+            {/* Pointless profiles fill the remaining 3 columns */}
             <div className="col-span-2 flex flex-col items-center justify-center h-[92px] rounded-2xl border border-white/10 bg-black/30 px-3 py-2 text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">
               <span>Deck Format</span>
-              <span className="mt-1 text-xl font-bold text-amber-100 uppercase tracking-widest">Advanced TCG</span>
+              <span className="mt-1 text-xl font-bold text-amber-100 uppercase tracking-widest">{profile.name}</span>
             </div>
             <div className="flex flex-col items-center justify-center h-[92px] rounded-2xl border border-white/10 bg-black/30 px-3 py-2 text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-slate-400">
               <span>Main / Extra / Side</span>
@@ -403,15 +572,27 @@ export function SummaryPanel({
         )}
       </div>
 
-      {blockedCount > 0 && (
-        <div className="flex flex-wrap gap-2 text-xs">
-          <button
-            type="button"
-            className="inline-flex items-center rounded-full bg-amber-500/20 px-3 py-1 text-amber-200"
-            onClick={onShowBlocked}
-          >
-            {blockedCount} {format === 'genesys' ? 'blocked card types' : 'illegal cards/over limit'} ({blockedTotalCount} cards)
-          </button>
+      {violations.length > 0 && (
+        <div className="space-y-2 rounded-2xl border border-amber-400/30 bg-amber-500/5 px-3 py-2 text-xs">
+          <p className="text-[0.6rem] font-semibold uppercase tracking-[0.3em] text-amber-200/80">
+            Deck legality · {violations.length} issue{violations.length === 1 ? '' : 's'}
+          </p>
+          {deckIssues.length > 0 && (
+            <ul className="space-y-1 text-amber-100">
+              {deckIssues.map((violation) => (
+                <li key={`${violation.code}-${violation.zone}`}>{violation.message}</li>
+              ))}
+            </ul>
+          )}
+          {cardIssues.length > 0 && (
+            <button
+              type="button"
+              className="inline-flex items-center rounded-full bg-amber-500/20 px-3 py-1 text-amber-200"
+              onClick={onShowViolations}
+            >
+              {cardIssues.length} card issue{cardIssues.length === 1 ? '' : 's'} ({cardIssueCopies} cards)
+            </button>
+          )}
         </div>
       )}
 
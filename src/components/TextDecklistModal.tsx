@@ -0,0 +1,242 @@
+import { useMemo, useState } from 'react';
+import type { CardDetails, DeckSection } from '../types';
+import {
+  buildDecklistDeck,
+  parseTextDecklist,
+  resolveDecklistNames,
+  type NameMatchStatus,
+  type NameResolution,
+} from '../lib/textDecklist.ts';
+import { normalizeCardName } from '../lib/strings.ts';
+import { buildYdke } from '../lib/ydke.ts';
+import { searchCards } from '../lib/ygoprodeck.ts';
+
+interface TextDecklistModalProps {
+  initialText: string;
+  onImport: (ydke: string) => void;
+  onClose: () => void;
+}
+
+type Step = 'edit' | 'resolving' | 'review';
+
+const sectionLabels: Record<DeckSection, string> = { main: 'Main', extra: 'Extra', side: 'Side' };
+
+const statusStyles: Record<NameMatchStatus, { label: string; className: string }> = {
+  exact: { label: 'Matched', className: 'bg-emerald-500/15 text-emerald-200' },
+  fuzzy: { label: 'Close match', className: 'bg-cyan-500/15 text-cyan-200' },
+  ambiguous: { label: 'Pick one', className: 'bg-amber-500/15 text-amber-200' },
+  unresolved: { label: 'Not found', className: 'bg-rose-500/15 text-rose-200' },
+};
+
+function CardSearchPicker({ initialQuery, onPick }: { initialQuery: string; onPick: (card: CardDetails) => void }) {
+  const [query, setQuery] = useState(initialQuery);
+  const [results, setResults] = useState<CardDetails[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const runSearch = async () => {
+    if (!query.trim()) return;
+    setIsSearching(true);
+    try {
+      setResults((await searchCards({ query, pageSize: 6 })).cards);
+    } catch {
+      setResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          runSearch();
+        }}
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          className="min-w-0 flex-1 rounded-xl border border-white/10 bg-black/40 px-3 py-1 text-xs text-white"
+        />
+        <button
+          type="submit"
+          className="rounded-full border border-white/20 px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-wide text-white hover:border-white"
+        >
+          {isSearching ? '…' : 'Search'}
+        </button>
+      </form>
+      {results.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {results.map((card) => (
+            <button
+              key={card.id}
+              type="button"
+              onClick={() => onPick(card)}
+              className="rounded-full border border-white/10 px-2 py-0.5 text-[0.7rem] text-slate-200 hover:border-cyan-300/60 hover:text-white"
+            >
+              {card.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TextDecklistModal({ initialText, onImport, onClose }: TextDecklistModalProps) {
+  const [text, setText] = useState(initialText);
+  const [step, setStep] = useState<Step>('edit');
+  const [resolutions, setResolutions] = useState<Record<string, NameResolution>>({});
+  const [picks, setPicks] = useState<Record<string, CardDetails | null>>({});
+
+  const lines = useMemo(() => parseTextDecklist(text), [text]);
+  const { deck, skipped } = useMemo(() => buildDecklistDeck(lines, picks), [lines, picks]);
+  const attentionCount = Object.entries(resolutions).filter(
+    ([key, resolution]) => resolution.status === 'ambiguous' || (resolution.status === 'unresolved' && !picks[key]),
+  ).length;
+
+  const handleResolve = async () => {
+    if (lines.length === 0) return;
+    setStep('resolving');
+    const resolved = await resolveDecklistNames(lines);
+    setResolutions(resolved);
+    setPicks(Object.fromEntries(Object.entries(resolved).map(([key, resolution]) => [key, resolution.card])));
+    setStep('review');
+  };
+
+  // Lines needing attention go first so long lists don't hide them.
+  const reviewLines = useMemo(() => {
+    const weight = (status?: NameMatchStatus) => (status === 'unresolved' ? 0 : status === 'ambiguous' ? 1 : status === 'fuzzy' ? 2 : 3);
+    return [...lines].sort(
+      (a, b) =>
+        weight(resolutions[normalizeCardName(a.name)]?.status) - weight(resolutions[normalizeCardName(b.name)]?.status) ||
+        a.lineNumber - b.lineNumber,
+    );
+  }, [lines, resolutions]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-2xl flex-col gap-4 overflow-hidden rounded-[28px] border border-white/10 bg-panel/95 p-5 shadow-panel"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.35em] text-cyan-200/80">Import</p>
+            <h2 className="text-2xl font-semibold">Text decklist</h2>
+            <p className="text-sm text-slate-400">
+              {step === 'review'
+                ? `${deck.main.length} / ${deck.extra.length} / ${deck.side.length} cards${skipped > 0 ? ` · ${skipped} skipped` : ''}`
+                : 'One card per line: "3x Name", "3 Name" or "Name x3", with optional Main / Extra / Side headers.'}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-2xl text-slate-300 hover:text-white" aria-label="Close decklist import">
+            ×
+          </button>
+        </div>
+
+        {step !== 'review' ? (
+          <>
+            <textarea
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+              rows={14}
+              placeholder={'Main Deck\n3x Ash Blossom & Joyous Spring\n2 Maxx "C"\n\nExtra Deck\nAccesscode Talker x1'}
+              className="w-full flex-1 rounded-2xl border border-white/10 bg-black/40 p-3 font-mono text-xs text-white placeholder:text-slate-600"
+              disabled={step === 'resolving'}
+            />
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-slate-400">
+                {lines.length} card line{lines.length === 1 ? '' : 's'} detected
+              </span>
+              <button
+                type="button"
+                onClick={handleResolve}
+                disabled={lines.length === 0 || step === 'resolving'}
+                className="rounded-full bg-cyan-500 px-5 py-2 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400 disabled:opacity-40"
+              >
+                {step === 'resolving' ? 'Looking up cards…' : 'Look up cards'}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <ul className="flex-1 space-y-2 overflow-y-auto pr-1 text-sm">
+              {reviewLines.map((line) => {
+                const key = normalizeCardName(line.name);
+                const resolution = resolutions[key];
+                const pick = picks[key] ?? null;
+                const status = statusStyles[resolution?.status ?? 'unresolved'];
+                return (
+                  <li key={line.lineNumber} className="space-y-2 rounded-2xl border border-white/5 bg-black/40 p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="min-w-0 truncate text-slate-100" title={line.raw}>
+                        {line.count}× {line.name}
+                        <span className="ml-2 text-[0.6rem] uppercase tracking-wider text-slate-500">{sectionLabels[line.zone]}</span>
+                      </span>
+                      <span className={`whitespace-nowrap rounded-full px-2 py-0.5 text-[0.6rem] font-semibold uppercase tracking-wider ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    {resolution && resolution.candidates.length > 1 && (
+                      <select
+                        value={pick?.id ?? ''}
+                        onChange={(event) => {
+                          const chosen = resolution.candidates.find((card) => card.id === Number(event.target.value)) ?? null;
+                          setPicks((prev) => ({ ...prev, [key]: chosen }));
+                        }}
+                        className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-2 py-1 text-xs text-white"
+                      >
+                        <option value="">Skip this line</option>
+                        {resolution.candidates.map((card) => (
+                          <option key={card.id} value={card.id}>
+                            {card.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {resolution?.status === 'unresolved' &&
+                      (pick ? (
+                        <p className="text-xs text-emerald-200">Using {pick.name}</p>
+                      ) : (
+                        <CardSearchPicker initialQuery={line.name} onPick={(card) => setPicks((prev) => ({ ...prev, [key]: card }))} />
+                      ))}
+                    {pick && resolution?.status === 'fuzzy' && resolution.candidates.length <= 1 && (
+                      <p className="text-xs text-slate-400">Using {pick.name}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                onClick={() => setStep('edit')}
+                className="rounded-full border border-white/10 px-5 py-2 text-xs font-semibold text-white hover:bg-white/5"
+              >
+                Edit text
+              </button>
+              <div className="flex items-center gap-3">
+                {attentionCount > 0 && (
+                  <span className="text-xs text-amber-200">
+                    {attentionCount} name{attentionCount === 1 ? '' : 's'} to check
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onImport(buildYdke(deck.main, deck.extra, deck.side))}
+                  disabled={deck.main.length + deck.extra.length + deck.side.length === 0}
+                  className="rounded-full bg-cyan-500 px-5 py-2 text-xs font-bold uppercase tracking-wide text-slate-900 hover:bg-cyan-400 disabled:opacity-40"
+                >
+                  Build deck
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
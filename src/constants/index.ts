@@ -2,11 +2,25 @@ import type { SavedDeckFolder, SavedDeckEntry } from '../types';
 
 export const DEFAULT_POINT_CAP = 100;
 export const SAVED_DECKS_STORAGE_KEY = 'ygo-genesys-saved-decks-v1';
+export const SAVED_DECKS_PAYLOAD_VERSION = 3;
 export const DEFAULT_FOLDER_ID = 'folder-default';
 export const DEFAULT_FOLDER_NAME = 'Unsorted';
 export const SAVED_SUMMARY_VERSION = 2;
+export const MAX_DECK_REVISIONS = 25;
+export const REVISION_COALESCE_MS = 60 * 1000;
+export const MAX_DECK_EDIT_HISTORY = 100;
 export const FOLDER_OPEN_STORAGE_KEY = 'ygo-genesys-folder-open';
 export const USER_PROFILE_STORAGE_KEY = 'ygo-user-profile';
+export const FORMAT_PROFILES_STORAGE_KEY = 'ygo-genesys-format-profiles';
+export const ACTIVE_FORMAT_PROFILE_STORAGE_KEY = 'ygo-genesys-active-format-profile';
+export const POINT_CHANGES_SEEN_STORAGE_KEY = 'ygo-genesys-point-changes-seen';
+export const MAX_CUSTOM_TAG_LENGTH = 24;
+export const CARD_CACHE_DB_NAME = 'ygo-genesys-card-cache';
+export const CARD_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+export const LIBRARY_DB_NAME = 'ygo-genesys-library';
+export const LIBRARY_CHANNEL_NAME = 'ygo-genesys-library';
+export const BACKUP_FILE_FORMAT = 'ygo-genesys-backup';
+export const BACKUP_VERSION = 1;
 
 export const generateFolderId = () => `folder-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 
@@ -1,6 +1,15 @@
-import { useState, useMemo, useRef, useCallback } from 'react';
-import type { SavedDeckEntry, DeckSection, SavedDeckFolder, ParsedDeck } from '../types';
+import { useState, useMemo, useRef, useCallback, useEffect, type SetStateAction } from 'react';
+import type { SavedDeckEntry, DeckSection, SavedDeckFolder, ParsedDeck, DeckTags } from '../types';
 import { parseYdke, buildYdke } from '../lib/ydke';
+import { applyDeckRevision } from '../lib/deckHistory';
+import { getCardTags, setCardTags, toggleCardTag } from '../lib/cardTags';
+import {
+  EMPTY_DECK_EDIT_HISTORY,
+  recordDeckEdit,
+  redoDeckEdit,
+  undoDeckEdit,
+  type DeckEditHistory,
+} from '../lib/editHistory';
 import { toast } from 'sonner';
 import { 
   SAVED_SUMMARY_VERSION 
@@ -8,14 +17,76 @@ import {
 
 export type DeckInputSource = 'manual' | 'file' | 'json' | 'saved' | 'url' | 'system';
 
+type ActiveDeckRef = { folderId?: string; deckId?: string; name: string };
+
 export function useActiveDeck(
   setSavedFoldersAndPersist: (producer: (prev: SavedDeckFolder[]) => SavedDeckFolder[]) => void,
   savedFolders: SavedDeckFolder[]
 ) {
   const [deckInput, setDeckInput] = useState('');
-  const [activeDeck, setActiveDeck] = useState<{ folderId?: string; deckId?: string; name: string } | null>(null);
+  const [activeDeck, setActiveDeckState] = useState<ActiveDeckRef | null>(null);
+  // Tags for a deck that is not saved yet (pasted, uploaded or opened from a shared link). They move onto the
+  // entry when it is first saved and are dropped whenever another deck becomes active.
+  const [draftTags, setDraftTags] = useState<DeckTags>({});
   const deckInputSourceRef = useRef<DeckInputSource>('system');
   const lastSavedDeckRef = useRef('');
+  const [editHistory, setEditHistory] = useState<DeckEditHistory>(EMPTY_DECK_EDIT_HISTORY);
+  // The stacks only apply while the input still holds the deck they were recorded against; loading another deck
+  // (saved, shared link, file, restore) makes them stale without any explicit reset.
+  const activeEditHistory = editHistory.current === deckInput ? editHistory : EMPTY_DECK_EDIT_HISTORY;
+
+  const setActiveDeck = useCallback((next: SetStateAction<ActiveDeckRef | null>) => {
+    setActiveDeckState(next);
+    setDraftTags({});
+  }, []);
+
+  const activeEntry = useMemo(() => {
+    if (!activeDeck?.folderId || !activeDeck.deckId) return null;
+    const folder = savedFolders.find((entry) => entry.id === activeDeck.folderId);
+    return folder?.decks.find((entry) => entry.id === activeDeck.deckId) ?? null;
+  }, [activeDeck, savedFolders]);
+
+  const deckTags = useMemo(() => (activeEntry ? activeEntry.tags ?? {} : draftTags), [activeEntry, draftTags]);
+
+  // Shared links apply their tags from an effect, so the entry being edited is read through a ref and the
+  // updaters below keep a stable identity.
+  const taggedEntryRef = useRef<{ folderId: string; entryId: string } | null>(null);
+  useEffect(() => {
+    taggedEntryRef.current = activeEntry && activeDeck?.folderId ? { folderId: activeDeck.folderId, entryId: activeEntry.id } : null;
+  }, [activeDeck, activeEntry]);
+
+  const updateDeckTags = useCallback((update: (tags: DeckTags) => DeckTags) => {
+    const target = taggedEntryRef.current;
+    if (!target) {
+      setDraftTags(update);
+      return;
+    }
+    setSavedFoldersAndPersist((prev) =>
+      prev.map((folder) => {
+        if (folder.id !== target.folderId) return folder;
+        const decks = folder.decks.map((deckEntry) => {
+          if (deckEntry.id !== target.entryId) return deckEntry;
+          const next: SavedDeckEntry = { ...deckEntry, tags: update(deckEntry.tags ?? {}) };
+          if (Object.keys(next.tags ?? {}).length === 0) delete next.tags;
+          return next;
+        });
+        return { ...folder, decks };
+      }),
+    );
+  }, [setSavedFoldersAndPersist]);
+
+  const handleSetCardTags = useCallback(
+    (cardName: string, tags: string[]) => updateDeckTags((prev) => setCardTags(prev, cardName, tags)),
+    [updateDeckTags],
+  );
+
+  /** Replaces every tag of the active deck, on its saved entry when it has one. */
+  const setDeckTags = useCallback((tags: DeckTags) => updateDeckTags(() => tags), [updateDeckTags]);
+
+  const handleToggleCardTag = useCallback(
+    (cardName: string, tag: string) => handleSetCardTags(cardName, getCardTags(toggleCardTag(deckTags, cardName, tag), cardName)),
+    [deckTags, handleSetCardTags],
+  );
 
   const { deck, deckError } = useMemo(() => {
     const sanitized = deckInput.trim();
@@ -30,6 +101,36 @@ export function useActiveDeck(
     }
   }, [deckInput]);
 
+  // Follow the open deck when another tab changes it. A move or rename keeps it active, a delete leaves the list
+  // loaded as an unsaved deck, and a newer list replaces this one unless it has edits that are not saved yet (those
+  // are saved over it and the library reports the conflict).
+  const followedEntryRef = useRef<SavedDeckEntry | null>(null);
+  useEffect(() => {
+    const previous = followedEntryRef.current;
+    followedEntryRef.current = activeEntry;
+    if (!activeDeck?.deckId) return;
+    if (!activeEntry) {
+      const folder = savedFolders.find((candidate) => candidate.decks.some((entry) => entry.id === activeDeck.deckId));
+      if (folder) {
+        setActiveDeckState({ ...activeDeck, folderId: folder.id });
+      } else if (previous?.id === activeDeck.deckId) {
+        setActiveDeck(null);
+        toast.info(`${activeDeck.name} was deleted in another tab. Save it again to keep this list.`);
+      }
+      return;
+    }
+    if (activeEntry.name !== activeDeck.name) {
+      setActiveDeckState({ ...activeDeck, name: activeEntry.name });
+    }
+    if (previous?.id !== activeEntry.id || previous.deck === activeEntry.deck) return;
+    const current = deck ? buildYdke(deck.main, deck.extra, deck.side) : '';
+    if (current === activeEntry.deck || deckInput.trim() !== lastSavedDeckRef.current) return;
+    deckInputSourceRef.current = 'saved';
+    lastSavedDeckRef.current = activeEntry.deck;
+    setDeckInput(activeEntry.deck);
+    toast.info(`${activeEntry.name} was updated in another tab.`);
+  }, [activeDeck, activeEntry, savedFolders, deck, deckInput, setActiveDeck]);
+
   const handleSaveDeck = useCallback(
     (name: string, folderId?: string, points?: number) => {
       const deckString = deckInput.trim();
@@ -72,11 +173,8 @@ export function useActiveDeck(
             const decks = folder.decks.map((deckEntry) => {
               if (deckEntry.id !== deckIdToSearch) return deckEntry;
               return {
-                ...deckEntry,
+                ...applyDeckRevision(deckEntry, { deck: canonicalDeck, savedAt: timestamp, summary }),
                 name: nextName,
-                deck: canonicalDeck,
-                savedAt: timestamp,
-                summary,
               };
             });
             return { ...folder, decks };
@@ -95,6 +193,7 @@ export function useActiveDeck(
         deck: canonicalDeck,
         savedAt: timestamp,
         summary,
+        ...(Object.keys(draftTags).length > 0 ? { tags: draftTags } : {}),
       };
 
       setSavedFoldersAndPersist((prev) => {
@@ -104,19 +203,38 @@ export function useActiveDeck(
         if (next.length === 0) return next;
         
         const targetFolder = { ...next[targetIndex] };
-        targetFolder.decks = [entry, ...targetFolder.decks].slice(0, 200);
+        targetFolder.decks = [entry, ...targetFolder.decks];
         next[targetIndex] = targetFolder;
         
-        setActiveDeck({ folderId: targetFolder.id, deckId: entry.id, name: entry.name });
+        setActiveDeckState({ folderId: targetFolder.id, deckId: entry.id, name: entry.name });
         toast.success('Deck saved locally.');
         return next;
       });
       lastSavedDeckRef.current = deckString;
     },
-    [deckInput, activeDeck, savedFolders, setSavedFoldersAndPersist]
+    [deckInput, activeDeck, savedFolders, draftTags, setActiveDeck, setSavedFoldersAndPersist]
   );
 
-  const handleUpdateCardCount = useCallback((zone: DeckSection, cardId: number, delta: number) => {
+  const commitDeckEdit = useCallback((next: string, label: string) => {
+    setEditHistory((prev) => recordDeckEdit(prev, deckInput, next, label));
+    deckInputSourceRef.current = 'manual';
+    setDeckInput(next);
+  }, [deckInput]);
+
+  // Undo/redo go through the 'manual' source so auto-save persists the restored list like any other edit.
+  const stepDeckEdit = useCallback((direction: 'undo' | 'redo') => {
+    const step = direction === 'undo' ? undoDeckEdit(activeEditHistory) : redoDeckEdit(activeEditHistory);
+    if (!step) return null;
+    setEditHistory(step.history);
+    deckInputSourceRef.current = 'manual';
+    setDeckInput(step.deck);
+    return step.label;
+  }, [activeEditHistory]);
+
+  const handleUndo = useCallback(() => stepDeckEdit('undo'), [stepDeckEdit]);
+  const handleRedo = useCallback(() => stepDeckEdit('redo'), [stepDeckEdit]);
+
+  const handleUpdateCardCount = useCallback((zone: DeckSection, cardId: number, delta: number, label = 'Edited deck') => {
     const parsed = parseYdke(deckInput);
     const section = parsed[zone];
     const index = section.indexOf(cardId);
@@ -128,27 +246,24 @@ export function useActiveDeck(
       section.splice(index, 1);
     }
     
-    deckInputSourceRef.current = 'manual';
-    setDeckInput(buildYdke(parsed.main, parsed.extra, parsed.side));
-  }, [deckInput]);
+    commitDeckEdit(buildYdke(parsed.main, parsed.extra, parsed.side), label);
+  }, [deckInput, commitDeckEdit]);
 
-  const handleRemoveCard = useCallback((zone: DeckSection, cardId: number) => {
+  const handleRemoveCard = useCallback((zone: DeckSection, cardId: number, label = 'Edited deck') => {
     const parsed = parseYdke(deckInput);
     const section = parsed[zone];
     const index = section.indexOf(cardId);
     if (index !== -1) {
       section.splice(index, 1);
-      deckInputSourceRef.current = 'manual';
-      setDeckInput(buildYdke(parsed.main, parsed.extra, parsed.side));
+      commitDeckEdit(buildYdke(parsed.main, parsed.extra, parsed.side), label);
     }
-  }, [deckInput]);
+  }, [deckInput, commitDeckEdit]);
 
-  const handleAddCard = useCallback((zone: DeckSection, cardId: number) => {
+  const handleAddCard = useCallback((zone: DeckSection, cardId: number, label = 'Edited deck') => {
     const parsed = parseYdke(deckInput);
     parsed[zone].push(cardId);
-    deckInputSourceRef.current = 'manual';
-    setDeckInput(buildYdke(parsed.main, parsed.extra, parsed.side));
-  }, [deckInput]);
+    commitDeckEdit(buildYdke(parsed.main, parsed.extra, parsed.side), label);
+  }, [deckInput, commitDeckEdit]);
 
   return {
     deckInput,
@@ -157,11 +272,20 @@ export function useActiveDeck(
     setActiveDeck,
     deckInputSourceRef,
     lastSavedDeckRef,
+    deckTags,
+    setDeckTags,
+    handleSetCardTags,
+    handleToggleCardTag,
     deck,
     deckError,
     handleSaveDeck,
     handleUpdateCardCount,
     handleRemoveCard,
-    handleAddCard
+    handleAddCard,
+    commitDeckEdit,
+    handleUndo,
+    handleRedo,
+    undoLabel: activeEditHistory.past[activeEditHistory.past.length - 1]?.label ?? null,
+    redoLabel: activeEditHistory.future[activeEditHistory.future.length - 1]?.label ?? null
   };
 }
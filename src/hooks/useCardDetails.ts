@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { fetchCardsByIds } from '../lib/ygoprodeck';
 import type { CardDetails } from '../types';
 
@@ -6,10 +6,13 @@ export function useCardDetails(uniqueCardIds: number[]) {
   const [cardDetails, setCardDetails] = useState<Record<number, CardDetails>>({});
   const [isFetchingCards, setIsFetchingCards] = useState(false);
   const [cardError, setCardError] = useState<string | null>(null);
+  const cardDetailsRef = useRef(cardDetails);
+  cardDetailsRef.current = cardDetails;
 
   useEffect(() => {
-    if (uniqueCardIds.length === 0) {
-      setCardDetails({});
+    // Details already in memory are kept across deck edits, so only newly added cards are requested.
+    const missing = uniqueCardIds.filter((id) => !cardDetailsRef.current[id]);
+    if (missing.length === 0) {
       setIsFetchingCards(false);
       return;
     }
@@ -20,8 +23,8 @@ export function useCardDetails(uniqueCardIds: number[]) {
 
     (async () => {
       try {
-        const fetched = await fetchCardsByIds(uniqueCardIds);
-        if (!cancelled) setCardDetails(fetched);
+        const fetched = await fetchCardsByIds(missing);
+        if (!cancelled) setCardDetails((prev) => ({ ...prev, ...fetched }));
       } catch (error) {
         if (!cancelled) setCardError(error instanceof Error ? error.message : 'Unable to fetch card details.');
       } finally {
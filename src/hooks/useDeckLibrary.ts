@@ -1,47 +1,119 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
 import type { SavedDeckFolder } from '../types';
-import { 
-  SAVED_DECKS_STORAGE_KEY, 
-  ensureFolders, 
-  createFolder, 
-  DEFAULT_FOLDER_NAME, 
+import {
+  ensureFolders,
+  createFolder,
+  DEFAULT_FOLDER_NAME,
   DEFAULT_FOLDER_ID
 } from '../constants';
+import {
+  loadLibrary,
+  loadLocalLibraryFallback,
+  notifyLibraryChanged,
+  saveLibrary,
+  subscribeToLibraryChanges,
+} from '../lib/libraryStore';
+import { mergeLibraries, type LibraryConflict } from '../lib/librarySync';
 
-export function useDeckLibrary() {
-  const [savedFolders, setSavedFolders] = useState<SavedDeckFolder[]>(() => {
-    if (typeof window === 'undefined') return [createFolder(DEFAULT_FOLDER_NAME, DEFAULT_FOLDER_ID)];
-    try {
-      const stored = window.localStorage.getItem(SAVED_DECKS_STORAGE_KEY);
-      if (!stored) return [createFolder(DEFAULT_FOLDER_NAME, DEFAULT_FOLDER_ID)];
-      const parsed = JSON.parse(stored);
-      // Basic validation: ensure it's the correct format
-      return (parsed.folders && Array.isArray(parsed.folders)) ? parsed.folders : [createFolder(DEFAULT_FOLDER_NAME, DEFAULT_FOLDER_ID)];
-    } catch {
-      return [createFolder(DEFAULT_FOLDER_NAME, DEFAULT_FOLDER_ID)];
-    }
+type FoldersProducer = (prev: SavedDeckFolder[]) => SavedDeckFolder[];
+
+const reportConflict = ({ local, remote }: LibraryConflict) =>
+  toast.warning(`${local.name} was also changed in another tab`, {
+    description: `Kept this tab's version and saved the other one as "${remote.name}".`,
   });
 
-  const persistFolders = useCallback((folders: SavedDeckFolder[]) => {
-    if (typeof window === 'undefined') return;
-    const payload = { version: 2, folders };
-    window.localStorage.setItem(SAVED_DECKS_STORAGE_KEY, JSON.stringify(payload));
+export function useDeckLibrary() {
+  // The library loads asynchronously from IndexedDB; until then the UI shows an empty Unsorted folder.
+  const [savedFolders, setSavedFoldersState] = useState<SavedDeckFolder[]>(() => [createFolder(DEFAULT_FOLDER_NAME, DEFAULT_FOLDER_ID)]);
+  // The latest library, ahead of the rendered state. Producers run against it right away, exactly once, so callers
+  // can rely on what their producer computed as soon as setSavedFoldersAndPersist returns.
+  const foldersRef = useRef(savedFolders);
+  const isLoadedRef = useRef(false);
+  // Edits made before the load finishes are replayed on top of the stored library instead of replacing it.
+  const pendingProducersRef = useRef<FoldersProducer[]>([]);
+  // The stored library this tab's state was last reconciled with. Merges use it as the common ancestor to tell this
+  // tab's edits apart from the ones other tabs saved in the meantime.
+  const syncedRef = useRef<SavedDeckFolder[] | null>(null);
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const setSavedFolders = useCallback((folders: SavedDeckFolder[]) => {
+    foldersRef.current = folders;
+    setSavedFoldersState(folders);
   }, []);
 
-  const setSavedFoldersAndPersist = useCallback(
-    (producer: (prev: SavedDeckFolder[]) => SavedDeckFolder[]) => {
-      setSavedFolders((prev) => {
-        // Evaluate the producer to get the new state array
-        const result = typeof producer === 'function' ? producer(prev) : producer;
-        const next = ensureFolders(result);
-        
-        // Persist the actual resulting array to localStorage
-        persistFolders(next);
-        
-        return next;
+  const persistFolders = useCallback((folders: SavedDeckFolder[]) => {
+    const base = syncedRef.current;
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => saveLibrary(folders, base))
+      .then(({ folders: merged, conflicts, folderIds }) => {
+        syncedRef.current = merged;
+        if (merged !== folders) {
+          // Other tabs' decks came in with the write; edits made here since then stay on top of them.
+          const current = foldersRef.current;
+          setSavedFolders(ensureFolders(current === folders ? merged : mergeLibraries(folders, current, merged).folders));
+        }
+        if (folderIds.length > 0) notifyLibraryChanged(folderIds);
+        conflicts.forEach(reportConflict);
+      })
+      .catch((error) => {
+        console.warn('Unable to save the deck library', error);
+        toast.error('Could not save the deck library. Free up browser storage and try again.');
       });
+  }, [setSavedFolders]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrary()
+      .catch((error) => {
+        console.warn('Unable to load the deck library', error);
+        toast.error("Could not open the saved deck library. New changes are kept in this browser's local storage for now.");
+        return loadLocalLibraryFallback();
+      })
+      .then((loaded) => {
+        if (cancelled) return;
+        syncedRef.current = loaded;
+        isLoadedRef.current = true;
+        const pending = pendingProducersRef.current;
+        pendingProducersRef.current = [];
+        const folders = pending.reduce((acc, producer) => ensureFolders(producer(acc)), loaded);
+        setSavedFolders(folders);
+        if (pending.length > 0) persistFolders(folders);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [persistFolders, setSavedFolders]);
+
+  // Another tab saved: once this tab's queued writes have landed, merge what it stored into the current state.
+  // Conflicting edits keep this tab's version here; the write that carries them reports the conflict.
+  useEffect(
+    () =>
+      subscribeToLibraryChanges(() => {
+        if (!isLoadedRef.current) return;
+        writeQueueRef.current = writeQueueRef.current
+          .then(() => loadLibrary())
+          .then((loaded) => {
+            const base = syncedRef.current;
+            syncedRef.current = loaded;
+            setSavedFolders(ensureFolders(mergeLibraries(base, foldersRef.current, loaded).folders));
+          })
+          .catch((error) => console.warn('Unable to reload the deck library', error));
+      }),
+    [setSavedFolders],
+  );
+
+  const setSavedFoldersAndPersist = useCallback(
+    (producer: FoldersProducer) => {
+      const next = ensureFolders(producer(foldersRef.current));
+      setSavedFolders(next);
+      if (!isLoadedRef.current) {
+        pendingProducersRef.current.push(producer);
+        return;
+      }
+      persistFolders(next);
     },
-    [persistFolders]
+    [persistFolders, setSavedFolders]
   );
 
   return {
@@ -36,6 +36,7 @@ export function useDeckStats(
           desc: details?.desc,
           level: details?.level,
           linkValue: details?.linkValue,
+          archetype: details?.archetype,
           image: details?.imageCropped,
           fullImage: details?.image,
           pointsPerCopy: points,
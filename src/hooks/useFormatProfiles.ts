@@ -0,0 +1,104 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { FormatProfile } from '../types';
+import {
+  BUILT_IN_FORMAT_PROFILES,
+  DEFAULT_FORMAT_PROFILE_ID,
+  generateFormatProfileId,
+  normalizeFormatProfile,
+  parseFormatProfiles,
+} from '../lib/formatProfiles';
+import { ACTIVE_FORMAT_PROFILE_STORAGE_KEY, FORMAT_PROFILES_STORAGE_KEY } from '../constants';
+
+const readCustomProfiles = (): FormatProfile[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(FORMAT_PROFILES_STORAGE_KEY);
+    if (!stored) return [];
+    return parseFormatProfiles(stored);
+  } catch {
+    return [];
+  }
+};
+
+const readActiveProfileId = () => {
+  if (typeof window === 'undefined') return DEFAULT_FORMAT_PROFILE_ID;
+  return window.localStorage.getItem(ACTIVE_FORMAT_PROFILE_STORAGE_KEY) || DEFAULT_FORMAT_PROFILE_ID;
+};
+
+export function useFormatProfiles() {
+  const [customProfiles, setCustomProfiles] = useState<FormatProfile[]>(readCustomProfiles);
+  const [activeProfileId, setActiveProfileIdState] = useState(readActiveProfileId);
+
+  const profiles = useMemo(() => [...BUILT_IN_FORMAT_PROFILES, ...customProfiles], [customProfiles]);
+  const activeProfile = useMemo(
+    () => profiles.find((profile) => profile.id === activeProfileId) ?? BUILT_IN_FORMAT_PROFILES[0],
+    [profiles, activeProfileId],
+  );
+
+  const setCustomProfilesAndPersist = useCallback((producer: (prev: FormatProfile[]) => FormatProfile[]) => {
+    setCustomProfiles((prev) => {
+      const next = producer(prev);
+      window.localStorage.setItem(FORMAT_PROFILES_STORAGE_KEY, JSON.stringify({ version: 1, profiles: next }));
+      return next;
+    });
+  }, []);
+
+  const setActiveProfileId = useCallback((id: string) => {
+    setActiveProfileIdState(id);
+    window.localStorage.setItem(ACTIVE_FORMAT_PROFILE_STORAGE_KEY, id);
+  }, []);
+
+  const saveProfile = useCallback(
+    (profile: FormatProfile) => {
+      const normalized = normalizeFormatProfile({ ...profile, builtIn: undefined });
+      if (!normalized) return null;
+      // Built-in profiles are read-only, so editing one saves a copy instead.
+      const isBuiltInId = BUILT_IN_FORMAT_PROFILES.some((entry) => entry.id === normalized.id);
+      const next = isBuiltInId ? { ...normalized, id: generateFormatProfileId() } : normalized;
+      setCustomProfilesAndPersist((prev) => {
+        const index = prev.findIndex((entry) => entry.id === next.id);
+        if (index === -1) return [...prev, next];
+        const copy = [...prev];
+        copy[index] = next;
+        return copy;
+      });
+      return next;
+    },
+    [setCustomProfilesAndPersist],
+  );
+
+  const deleteProfile = useCallback(
+    (id: string) => {
+      setCustomProfilesAndPersist((prev) => prev.filter((profile) => profile.id !== id));
+      if (activeProfileId === id) setActiveProfileId(DEFAULT_FORMAT_PROFILE_ID);
+    },
+    [activeProfileId, setActiveProfileId, setCustomProfilesAndPersist],
+  );
+
+  // With `replace` the imported profiles take the place of every custom profile, as when restoring a backup.
+  const importProfiles = useCallback(
+    (imported: FormatProfile[], replace = false) => {
+      const builtInIds = new Set(BUILT_IN_FORMAT_PROFILES.map((profile) => profile.id));
+      const sanitized = imported.map((profile) =>
+        builtInIds.has(profile.id) ? { ...profile, id: generateFormatProfileId() } : profile,
+      );
+      setCustomProfilesAndPersist((prev) => {
+        if (replace) return sanitized;
+        const incomingIds = new Set(sanitized.map((profile) => profile.id));
+        return [...prev.filter((profile) => !incomingIds.has(profile.id)), ...sanitized];
+      });
+      return sanitized;
+    },
+    [setCustomProfilesAndPersist],
+  );
+
+  return {
+    profiles,
+    customProfiles,
+    activeProfile,
+    setActiveProfileId,
+    saveProfile,
+    deleteProfile,
+    importProfiles,
+  };
+}
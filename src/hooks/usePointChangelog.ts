@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import type { GenesysSnapshot, PointHistory } from '../types';
+import { buildPointChangelog } from '../lib/pointChangelog';
+
+// Snapshots are split into their own chunks and only fetched once a Genesys-points profile needs the changelog.
+const snapshotLoaders = import.meta.glob<GenesysSnapshot>('../data/genesys-history/*.json', { import: 'default' });
+
+/** The recorded point history, or null until its snapshots have loaded. */
+export function usePointChangelog(enabled: boolean) {
+  const [history, setHistory] = useState<PointHistory | null>(null);
+
+  useEffect(() => {
+    if (!enabled || history) return;
+    let cancelled = false;
+    Promise.all(Object.values(snapshotLoaders).map((load) => load()))
+      .then((snapshots) => {
+        if (cancelled) return;
+        setHistory({
+          entries: buildPointChangelog(snapshots),
+          snapshotDates: snapshots.map((snapshot) => snapshot.date).sort(),
+        });
+      })
+      .catch((error) => console.warn('Unable to load point list history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, history]);
+
+  return history;
+}
@@ -1,6 +1,7 @@
 import { useMemo, useRef, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { decodeDeckHash, encodeDeckHash } from '../lib/ydke';
+import type { DeckTags } from '../types';
 import type { DeckInputSource } from './useActiveDeck';
 
 export function useUrlSync(
@@ -10,7 +11,9 @@ export function useUrlSync(
   activeDeck: any,
   deckInputSourceRef: React.MutableRefObject<DeckInputSource>,
   setActiveDeck: (val: any) => void,
-  setDeckInput: (val: string) => void
+  setDeckInput: (val: string) => void,
+  deckTags: DeckTags,
+  setDeckTags: (tags: DeckTags) => void
 ) {
   const [, setSearchParams] = useSearchParams();
   const location = window.location;
@@ -22,11 +25,11 @@ export function useUrlSync(
   const shareToken = useMemo(() => {
     if (!deck) return '';
     try {
-      return encodeDeckHash(deckInput.trim(), activeDeck?.name);
+      return encodeDeckHash(deckInput.trim(), activeDeck?.name, deckTags);
     } catch {
       return '';
     }
-  }, [deck, deckInput, activeDeck?.name]);
+  }, [deck, deckInput, activeDeck?.name, deckTags]);
 
   const expectedUrlDeckRef = useRef<string | null>(null);
   const prevShareTokenRef = useRef(shareToken);
@@ -83,6 +86,8 @@ export function useUrlSync(
             }
             return decoded.name ? { name: decoded.name } : null;
           });
+          // A deck that stays bound to its saved entry takes the link's tags there, like any other tag edit.
+          setDeckTags(decoded.tags ?? {});
           
           setDeckInput(decoded.ydke);
         } catch (error) {
@@ -90,7 +95,7 @@ export function useUrlSync(
         }
       }
     }
-  }, [shareToken, deckQueryParam, isResultsView, setSearchParams]);
+  }, [shareToken, deckQueryParam, isResultsView, setSearchParams, setDeckTags]);
 
   const shareUrl = useMemo(() => {
     if (!shareToken) return '';
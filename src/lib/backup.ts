@@ -0,0 +1,269 @@
+import type { BackupSettings, FormatProfile, LibraryBackup, RestoreStrategy, SavedDeckEntry, SavedDeckFolder, UserProfile } from '../types';
+import { BACKUP_FILE_FORMAT, BACKUP_VERSION, SAVED_DECKS_PAYLOAD_VERSION } from '../constants';
+import { migrateSavedDecksPayload, normalizeFolders } from './storage';
+import { normalizeFormatProfile } from './formatProfiles';
+import { sameDeckEntry } from './librarySync';
+import { parseYdke } from './ydke';
+
+// PBKDF2 turns the passphrase into an AES-GCM key. The salt, IV and iteration count are stored in the file so
+// the count can be raised later without breaking older backups.
+const KDF_ITERATIONS = 250_000;
+const PROFILE_FIELDS = ['fullName', 'konamiId', 'residency', 'eventName', 'eventDate'] as const;
+
+interface EncryptedBackupFile {
+  format: typeof BACKUP_FILE_FORMAT;
+  version: number;
+  encryption: { kdf: 'PBKDF2-SHA-256'; iterations: number; cipher: 'AES-GCM'; salt: string; iv: string };
+  data: string;
+}
+
+export interface RestoreItem {
+  deckId: string;
+  name: string;
+  folderName: string;
+  /** Why a deck is skipped. */
+  note?: string;
+}
+
+export interface RestorePlan {
+  /** The library as it will be after restoring. */
+  folders: SavedDeckFolder[];
+  added: RestoreItem[];
+  updated: RestoreItem[];
+  skipped: RestoreItem[];
+  /** Decks only a replace drops. */
+  removed: RestoreItem[];
+}
+
+export const restoreStrategyLabels: Record<RestoreStrategy, string> = {
+  replace: 'Replace library',
+  'merge-id': 'Merge by deck',
+  'merge-ydke': 'Merge by card list',
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+const isEncryptedBackup = (raw: unknown): raw is EncryptedBackupFile => {
+  const source = (raw ?? {}) as Record<string, unknown>;
+  return source.format === BACKUP_FILE_FORMAT && typeof source.data === 'string' && typeof source.encryption === 'object';
+};
+
+/** Whether a backup file's text is encrypted, so the restore screen can ask for the passphrase first. */
+export function backupNeedsPassphrase(text: string): boolean {
+  try {
+    return isEncryptedBackup(JSON.parse(text));
+  } catch {
+    return false;
+  }
+}
+
+export const createBackup = (
+  folders: SavedDeckFolder[],
+  profile: Partial<UserProfile>,
+  settings: BackupSettings,
+): LibraryBackup => ({ createdAt: new Date().toISOString(), folders, profile, settings });
+
+/** The backup as file text, encrypted with AES-GCM when a passphrase is given. */
+export async function serializeBackup(backup: LibraryBackup, passphrase = ''): Promise<string> {
+  const payload = JSON.stringify(
+    {
+      format: BACKUP_FILE_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: backup.createdAt,
+      library: { version: SAVED_DECKS_PAYLOAD_VERSION, folders: backup.folders },
+      profile: backup.profile,
+      settings: backup.settings,
+    },
+    null,
+    2,
+  );
+  if (!passphrase) return payload;
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, KDF_ITERATIONS);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(payload));
+  const file: EncryptedBackupFile = {
+    format: BACKUP_FILE_FORMAT,
+    version: BACKUP_VERSION,
+    encryption: { kdf: 'PBKDF2-SHA-256', iterations: KDF_ITERATIONS, cipher: 'AES-GCM', salt: toBase64(salt), iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(data)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+async function decryptBackup(file: EncryptedBackupFile, passphrase: string) {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(file.encryption.salt), file.encryption.iterations);
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.encryption.iv) }, key, fromBase64(file.data));
+    return JSON.parse(new TextDecoder().decode(data)) as unknown;
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged.');
+  }
+}
+
+function normalizeProfile(raw: unknown): Partial<UserProfile> | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const source = raw as Record<string, unknown>;
+  const profile: Partial<UserProfile> = {};
+  PROFILE_FIELDS.forEach((field) => {
+    const value = source[field];
+    if (typeof value === 'string') profile[field] = value;
+  });
+  if (typeof source.ydkCardNames === 'boolean') profile.ydkCardNames = source.ydkCardNames;
+  return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+function normalizeSettings(raw: unknown): BackupSettings | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const source = raw as Record<string, unknown>;
+  const formatProfiles = Array.isArray(source.formatProfiles)
+    ? source.formatProfiles.map((profile) => normalizeFormatProfile(profile)).filter((profile): profile is FormatProfile => Boolean(profile))
+    : [];
+  return {
+    formatProfiles,
+    ...(typeof source.activeFormatProfileId === 'string' ? { activeFormatProfileId: source.activeFormatProfileId } : {}),
+    ...(typeof source.pointChangesSeen === 'string' ? { pointChangesSeen: source.pointChangesSeen } : {}),
+  };
+}
+
+/**
+ * Reads a backup file, decrypting it with `passphrase` when needed. Plain library exports from before full
+ * backups are accepted too and restore as a library without profile or settings.
+ */
+export async function parseBackup(text: string, passphrase = ''): Promise<LibraryBackup> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a deck library backup.');
+  }
+  if (isEncryptedBackup(raw)) {
+    if (!passphrase) throw new Error('This backup is encrypted. Enter its passphrase to restore it.');
+    raw = await decryptBackup(raw, passphrase);
+  }
+
+  const source = (raw ?? {}) as Record<string, unknown>;
+  if (source.format !== BACKUP_FILE_FORMAT) {
+    const folders = normalizeFolders(raw, false);
+    if (folders.length === 0) throw new Error('This file is not a deck library backup.');
+    return { createdAt: '', folders };
+  }
+  if (Number(source.version) > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the page and try again.');
+  }
+  const profile = normalizeProfile(source.profile);
+  const settings = normalizeSettings(source.settings);
+  return {
+    createdAt: typeof source.createdAt === 'string' ? source.createdAt : '',
+    folders: migrateSavedDecksPayload(source.library).folders,
+    ...(profile ? { profile } : {}),
+    ...(settings ? { settings } : {}),
+  };
+}
+
+/** The cards in a deck regardless of order, so the same list saved twice under different names is recognised. */
+const deckContentKey = (entry: SavedDeckEntry) => {
+  try {
+    const parsed = parseYdke(entry.deck);
+    return [parsed.main, parsed.extra, parsed.side].map((ids) => [...ids].sort((a, b) => a - b).join(',')).join('|');
+  } catch {
+    return entry.deck.trim();
+  }
+};
+
+const listDecks = (folders: SavedDeckFolder[]) => folders.flatMap((folder) => folder.decks.map((entry) => ({ folder, entry })));
+
+const restoreItem = (entry: SavedDeckEntry, folder: SavedDeckFolder, note?: string): RestoreItem => ({
+  deckId: entry.id,
+  name: entry.name,
+  folderName: folder.name,
+  ...(note ? { note } : {}),
+});
+
+/**
+ * Works out what restoring `incoming` does to the `current` library:
+ * - replace: the library becomes the backup's, and decks missing from it are removed.
+ * - merge-id: decks are matched by id; a differing backup copy updates the saved one unless the saved one is newer.
+ * - merge-ydke: decks whose card list is already saved (under any name) are skipped; the rest are added.
+ * Merged decks go to the folder with the same id or name as in the backup, created when missing.
+ */
+export function planRestore(current: SavedDeckFolder[], incoming: SavedDeckFolder[], strategy: RestoreStrategy): RestorePlan {
+  const plan: RestorePlan = { folders: current, added: [], updated: [], skipped: [], removed: [] };
+  const currentDecks = new Map(listDecks(current).map((placement) => [placement.entry.id, placement]));
+
+  if (strategy === 'replace') {
+    const incomingIds = new Set<string>();
+    listDecks(incoming).forEach(({ folder, entry }) => {
+      incomingIds.add(entry.id);
+      const existing = currentDecks.get(entry.id)?.entry;
+      if (!existing) plan.added.push(restoreItem(entry, folder));
+      else if (sameDeckEntry(existing, entry)) plan.skipped.push(restoreItem(entry, folder, 'Unchanged'));
+      else plan.updated.push(restoreItem(entry, folder));
+    });
+    currentDecks.forEach(({ folder, entry }) => {
+      if (!incomingIds.has(entry.id)) plan.removed.push(restoreItem(entry, folder));
+    });
+    return { ...plan, folders: incoming };
+  }
+
+  const folders = current.map((folder) => ({ ...folder, decks: [...folder.decks] }));
+  const takenIds = new Set(currentDecks.keys());
+  const savedLists = new Map(listDecks(current).map(({ entry }) => [deckContentKey(entry), entry.name]));
+  const targetFolder = (source: SavedDeckFolder) => {
+    let target = folders.find((folder) => folder.id === source.id) ?? folders.find((folder) => folder.name === source.name);
+    if (!target) {
+      target = { ...source, decks: [] };
+      folders.push(target);
+    }
+    return target;
+  };
+
+  listDecks(incoming).forEach(({ folder, entry }) => {
+    if (strategy === 'merge-id') {
+      const existing = currentDecks.get(entry.id);
+      if (!existing) {
+        const target = targetFolder(folder);
+        target.decks.push(entry);
+        plan.added.push(restoreItem(entry, target));
+      } else if (sameDeckEntry(existing.entry, entry)) {
+        plan.skipped.push(restoreItem(entry, existing.folder, 'Unchanged'));
+      } else if (existing.entry.savedAt > entry.savedAt) {
+        plan.skipped.push(restoreItem(entry, existing.folder, 'Saved copy is newer'));
+      } else {
+        folders.forEach((target) => {
+          target.decks = target.decks.map((deck) => (deck.id === entry.id ? entry : deck));
+        });
+        plan.updated.push(restoreItem(entry, existing.folder));
+      }
+      return;
+    }
+
+    const key = deckContentKey(entry);
+    const duplicate = savedLists.get(key);
+    if (duplicate !== undefined) {
+      plan.skipped.push(restoreItem(entry, folder, `Same list as ${duplicate}`));
+      return;
+    }
+    savedLists.set(key, entry.name);
+    const added = takenIds.has(entry.id) ? { ...entry, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}` } : entry;
+    takenIds.add(added.id);
+    const target = targetFolder(folder);
+    target.decks.push(added);
+    plan.added.push(restoreItem(added, target));
+  });
+
+  return { ...plan, folders };
+}
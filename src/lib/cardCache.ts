@@ -0,0 +1,116 @@
+import type { CardDetails } from '../types.ts';
+import { CARD_CACHE_DB_NAME, CARD_CACHE_MAX_AGE_MS } from '../constants/index.ts';
+import { normalizeCardName } from './strings.ts';
+
+const DB_VERSION = 1;
+const CARD_STORE = 'cards';
+
+export interface CachedCardEntry {
+  id: number;
+  card: CardDetails;
+  nameKey: string;
+  konamiId?: number;
+  fetchedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// The cache is best-effort: when IndexedDB is unavailable (private mode, tests) every read misses and writes are dropped.
+function openCardCache(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+  dbPromise ??= new Promise((resolve) => {
+    const request = indexedDB.open(CARD_CACHE_DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CARD_STORE)) {
+        const store = db.createObjectStore(CARD_STORE, { keyPath: 'id' });
+        store.createIndex('nameKey', 'nameKey');
+        store.createIndex('konamiId', 'konamiId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const isCardEntryStale = (entry: CachedCardEntry, now = Date.now()) =>
+  now - entry.fetchedAt > CARD_CACHE_MAX_AGE_MS;
+
+async function readByKeys(
+  keys: number[],
+  lookup: (store: IDBObjectStore, key: number) => IDBRequest<CachedCardEntry | undefined>,
+): Promise<Record<number, CachedCardEntry>> {
+  const db = await openCardCache();
+  if (!db || keys.length === 0) {
+    return {};
+  }
+  try {
+    const store = db.transaction(CARD_STORE, 'readonly').objectStore(CARD_STORE);
+    const entries = await Promise.all(keys.map((key) => requestToPromise(lookup(store, key))));
+    const found: Record<number, CachedCardEntry> = {};
+    entries.forEach((entry, index) => {
+      if (entry) {
+        found[keys[index]] = entry;
+      }
+    });
+    return found;
+  } catch {
+    return {};
+  }
+}
+
+export const readCachedCards = (ids: number[]) => readByKeys(ids, (store, id) => store.get(id));
+
+export const readCachedCardsByKonamiIds = (konamiIds: number[]) =>
+  readByKeys(konamiIds, (store, konamiId) => store.index('konamiId').get(konamiId));
+
+export async function readCachedCardByName(name: string): Promise<CachedCardEntry | null> {
+  const db = await openCardCache();
+  const nameKey = normalizeCardName(name);
+  if (!db || !nameKey) {
+    return null;
+  }
+  try {
+    const store = db.transaction(CARD_STORE, 'readonly').objectStore(CARD_STORE);
+    const entry = await requestToPromise<CachedCardEntry | undefined>(store.index('nameKey').get(nameKey));
+    return entry ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCachedCards(cards: CardDetails[], fetchedAt = Date.now()): Promise<void> {
+  const db = await openCardCache();
+  if (!db || cards.length === 0) {
+    return;
+  }
+  try {
+    const transaction = db.transaction(CARD_STORE, 'readwrite');
+    const store = transaction.objectStore(CARD_STORE);
+    cards.forEach((card) => {
+      const entry: CachedCardEntry = {
+        id: card.id,
+        card,
+        nameKey: normalizeCardName(card.name),
+        konamiId: card.konamiId,
+        fetchedAt,
+      };
+      store.put(entry);
+    });
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch {
+    // Ignore quota and transaction errors; the network remains the source of truth.
+  }
+}
@@ -0,0 +1,115 @@
+import type { CardDetails } from '../types.ts';
+import { normalizeCardName } from './strings.ts';
+
+const CARD_DATABASE_FILE = 'card-db.json';
+const CARD_IMAGE_BASE = 'https://images.ygoprodeck.com/images';
+
+type CardDatabaseRow = [
+  id: number,
+  name: string,
+  type: string | null,
+  race: string | null,
+  level: number | null,
+  linkval: number | null,
+  desc: string | null,
+  konamiId: number | null,
+];
+
+export interface CardDatabaseSnapshot {
+  source: string;
+  lastUpdated: string;
+  fields: string[];
+  cards: CardDatabaseRow[];
+  aliases: Record<string, number>;
+}
+
+export interface CardDatabase {
+  lastUpdated: string;
+  byId: Map<number, CardDetails>;
+  byName: Map<string, CardDetails>;
+  byKonamiId: Map<number, CardDetails>;
+  aliases: Map<number, number>;
+}
+
+export const cardImageUrls = (id: number) => ({
+  image: `${CARD_IMAGE_BASE}/cards_small/${id}.jpg`,
+  imageCropped: `${CARD_IMAGE_BASE}/cards_cropped/${id}.jpg`,
+});
+
+export function buildCardDatabase(snapshot: CardDatabaseSnapshot): CardDatabase {
+  const database: CardDatabase = {
+    lastUpdated: snapshot.lastUpdated,
+    byId: new Map(),
+    byName: new Map(),
+    byKonamiId: new Map(),
+    aliases: new Map(Object.entries(snapshot.aliases ?? {}).map(([alias, id]) => [Number(alias), id])),
+  };
+
+  snapshot.cards.forEach(([id, name, type, race, level, linkval, desc, konamiId]) => {
+    const card: CardDetails = {
+      id,
+      name,
+      type: type ?? undefined,
+      race: race ?? undefined,
+      level: level ?? undefined,
+      linkValue: linkval ?? undefined,
+      desc: desc ?? undefined,
+      konamiId: konamiId ?? undefined,
+      ...cardImageUrls(id),
+    };
+    database.byId.set(id, card);
+    database.byName.set(normalizeCardName(name), card);
+    if (konamiId) {
+      database.byKonamiId.set(konamiId, card);
+    }
+  });
+
+  return database;
+}
+
+export function findSnapshotCard(database: CardDatabase, id: number): CardDetails | undefined {
+  const direct = database.byId.get(id);
+  if (direct) {
+    return direct;
+  }
+  const aliasOf = database.aliases.get(id);
+  const card = aliasOf ? database.byId.get(aliasOf) : undefined;
+  return card ? { ...card, id, ...cardImageUrls(id) } : undefined;
+}
+
+export function searchCardDatabase(database: CardDatabase, query: string, limit: number): CardDetails[] {
+  const tokens = normalizeCardName(query).split(' ').filter(Boolean);
+  if (tokens.length === 0) {
+    return [];
+  }
+  const matches: CardDetails[] = [];
+  for (const [nameKey, card] of database.byName) {
+    if (tokens.every((token) => nameKey.includes(token))) {
+      matches.push(card);
+    }
+  }
+  return matches.sort((a, b) => a.name.length - b.name.length || a.name.localeCompare(b.name)).slice(0, limit);
+}
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+let databasePromise: Promise<CardDatabase | null> | null = null;
+
+// The snapshot is only needed when YGOProDeck is unreachable, so it is loaded lazily (and precached by the service worker).
+export function loadCardDatabase(): Promise<CardDatabase | null> {
+  if (typeof fetch === 'undefined' || typeof window === 'undefined') {
+    return Promise.resolve(null);
+  }
+  databasePromise ??= fetch(`${import.meta.env.BASE_URL}${CARD_DATABASE_FILE}`)
+    .then(async (response) => {
+      if (!response.ok) {
+        throw new Error(`status ${response.status}`);
+      }
+      return buildCardDatabase((await response.json()) as CardDatabaseSnapshot);
+    })
+    .catch(() => {
+      databasePromise = null;
+      return null;
+    });
+  return databasePromise;
+}
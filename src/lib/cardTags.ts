@@ -0,0 +1,52 @@
+import type { CardRole, DeckTags } from '../types';
+import { MAX_CUSTOM_TAG_LENGTH } from '../constants';
+import { normalizeCardName } from './strings';
+
+export const CARD_ROLES: CardRole[] = ['starter', 'extender', 'handTrap', 'boardBreaker', 'engine', 'nonEngine', 'brick'];
+
+export const cardRoleLabels: Record<CardRole, string> = {
+  starter: 'Starter',
+  extender: 'Extender',
+  handTrap: 'Hand trap',
+  boardBreaker: 'Board breaker',
+  engine: 'Engine',
+  nonEngine: 'Non-engine',
+  brick: 'Brick',
+};
+
+export const isCardRole = (tag: string): tag is CardRole => (CARD_ROLES as string[]).includes(tag);
+
+/** Role ids show their label; anything else is a custom tag and shows as typed. */
+export const formatCardTag = (tag: string) => (isCardRole(tag) ? cardRoleLabels[tag] : tag);
+
+export const cleanCustomTag = (tag: string) => tag.replace(/\s+/g, ' ').trim().slice(0, MAX_CUSTOM_TAG_LENGTH);
+
+export const getCardTags = (tags: DeckTags | undefined, cardName: string) => tags?.[normalizeCardName(cardName)] ?? [];
+
+export function setCardTags(tags: DeckTags, cardName: string, next: string[]): DeckTags {
+  const key = normalizeCardName(cardName);
+  const cleaned = Array.from(new Set(next.map(cleanCustomTag).filter(Boolean)));
+  const result = { ...tags };
+  if (cleaned.length > 0) {
+    result[key] = cleaned;
+  } else {
+    delete result[key];
+  }
+  return result;
+}
+
+export function toggleCardTag(tags: DeckTags, cardName: string, tag: string): DeckTags {
+  const current = getCardTags(tags, cardName);
+  return setCardTags(tags, cardName, current.includes(tag) ? current.filter((entry) => entry !== tag) : [...current, tag]);
+}
+
+/** Accepts tags from storage or a share token; anything malformed is dropped rather than rejected. */
+export function normalizeDeckTags(raw: unknown): DeckTags | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  let tags: DeckTags = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([name, list]) => {
+    if (!Array.isArray(list)) return;
+    tags = setCardTags(tags, name, list.filter((tag): tag is string => typeof tag === 'string'));
+  });
+  return Object.keys(tags).length > 0 ? tags : undefined;
+}
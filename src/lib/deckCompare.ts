@@ -0,0 +1,120 @@
+import type { DeckCardGroup, DeckGroups, DeckSection, SavedDeckFolder } from '../types';
+import { normalizeCardName } from './strings';
+import { decodeDeckHash, encodeDeckHash } from './ydke';
+
+export interface CompareDeckSource {
+  ydke: string;
+  name: string;
+  savedDeckId?: string;
+}
+
+export interface CardComparisonRow {
+  key: string;
+  name: string;
+  id: number;
+  image?: string;
+  countA: number;
+  countB: number;
+  countDelta: number;
+  pointsPerCopy: number;
+  pointDelta: number;
+}
+
+export interface DeckComparison {
+  sections: Record<DeckSection, CardComparisonRow[]>;
+  shared: CardComparisonRow[];
+  totalPointsA: number;
+  totalPointsB: number;
+}
+
+const SECTIONS: DeckSection[] = ['main', 'extra', 'side'];
+
+/** A compare parameter is either a saved deck id or a share token (`encodeDeckHash`). */
+export function resolveCompareParam(param: string | null, folders: SavedDeckFolder[]): CompareDeckSource | null {
+  const value = param?.trim();
+  if (!value) {
+    return null;
+  }
+  for (const folder of folders) {
+    const saved = folder.decks.find((deck) => deck.id === value);
+    if (saved) {
+      return { ydke: saved.deck, name: saved.name, savedDeckId: saved.id };
+    }
+  }
+  try {
+    const decoded = decodeDeckHash(value);
+    if (decoded.ydke.trim().toLowerCase().startsWith('ydke://')) {
+      return { ydke: decoded.ydke.trim(), name: decoded.name || 'Shared deck' };
+    }
+  } catch {
+    // Not a share token either.
+  }
+  return null;
+}
+
+/** Accepts a share link, a bare share token or a raw YDKE string and returns a compare parameter. */
+export function toCompareParam(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed.toLowerCase().startsWith('ydke://')) {
+    return encodeDeckHash(trimmed);
+  }
+  const match = trimmed.match(/[?&]deck=([^&#]+)/u);
+  return match ? decodeURIComponent(match[1]) : trimmed;
+}
+
+// Cards are matched by name so alternate artworks of the same card line up.
+export function compareDeckGroups(a: DeckGroups, b: DeckGroups): DeckComparison {
+  const sections = { main: [], extra: [], side: [] } as Record<DeckSection, CardComparisonRow[]>;
+  let totalPointsA = 0;
+  let totalPointsB = 0;
+
+  SECTIONS.forEach((zone) => {
+    const rows = new Map<string, CardComparisonRow>();
+    const rowFor = (card: DeckCardGroup) => {
+      const key = card.missingInfo ? `#${card.id}` : normalizeCardName(card.name);
+      const row = rows.get(key) ?? {
+        key,
+        name: card.name,
+        id: card.id,
+        image: card.image,
+        countA: 0,
+        countB: 0,
+        countDelta: 0,
+        pointsPerCopy: card.pointsPerCopy,
+        pointDelta: 0,
+      };
+      rows.set(key, row);
+      return row;
+    };
+
+    a[zone].forEach((card) => {
+      rowFor(card).countA += card.count;
+      totalPointsA += card.totalPoints;
+    });
+    b[zone].forEach((card) => {
+      rowFor(card).countB += card.count;
+      totalPointsB += card.totalPoints;
+    });
+
+    sections[zone] = [...rows.values()]
+      .map((row) => ({
+        ...row,
+        countDelta: row.countB - row.countA,
+        // `|| 0` avoids -0 for cards without points.
+        pointDelta: (row.countB - row.countA) * row.pointsPerCopy || 0,
+      }))
+      .sort(
+        (x, y) =>
+          Math.abs(y.pointDelta) - Math.abs(x.pointDelta) ||
+          Math.abs(y.countDelta) - Math.abs(x.countDelta) ||
+          x.name.localeCompare(y.name),
+      );
+  });
+
+  const shared = SECTIONS.flatMap((zone) => sections[zone].filter((row) => row.countA > 0 && row.countB > 0));
+
+  return { sections, shared, totalPointsA, totalPointsB };
+}
@@ -0,0 +1,44 @@
+import type { DeckSection, ParsedDeck } from '../types';
+
+export interface DeckCardChange {
+  zone: DeckSection;
+  id: number;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+const SECTIONS: DeckSection[] = ['main', 'extra', 'side'];
+
+const countIds = (ids: number[]) => {
+  const counts = new Map<number, number>();
+  ids.forEach((id) => {
+    if (id > 0) counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  return counts;
+};
+
+/** Card-level changes per section, additions first, then by size of the change. */
+export function diffParsedDecks(before: ParsedDeck, after: ParsedDeck): DeckCardChange[] {
+  const changes: DeckCardChange[] = [];
+  SECTIONS.forEach((zone) => {
+    const beforeCounts = countIds(before[zone]);
+    const afterCounts = countIds(after[zone]);
+    new Set([...beforeCounts.keys(), ...afterCounts.keys()]).forEach((id) => {
+      const previous = beforeCounts.get(id) ?? 0;
+      const next = afterCounts.get(id) ?? 0;
+      if (previous !== next) {
+        changes.push({ zone, id, before: previous, after: next, delta: next - previous });
+      }
+    });
+  });
+  return changes.sort(
+    (a, b) =>
+      SECTIONS.indexOf(a.zone) - SECTIONS.indexOf(b.zone) ||
+      Math.sign(b.delta) - Math.sign(a.delta) ||
+      Math.abs(b.delta) - Math.abs(a.delta),
+  );
+}
+
+export const formatDeckChange = (change: DeckCardChange, name: string) =>
+  `${change.delta > 0 ? '+' : '−'}${Math.abs(change.delta)} ${name}`;
@@ -0,0 +1,58 @@
+import type { SavedDeckEntry, SavedDeckRevision } from '../types';
+import { MAX_DECK_REVISIONS, REVISION_COALESCE_MS } from '../constants';
+
+export const CURRENT_REVISION_ID = 'current';
+
+export const generateRevisionId = () => `rev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toRevision = (entry: SavedDeckEntry, replacedAt?: string): SavedDeckRevision => ({
+  id: generateRevisionId(),
+  deck: entry.deck,
+  savedAt: entry.savedAt,
+  summary: entry.summary,
+  ...(replacedAt ? { replacedAt } : {}),
+});
+
+/**
+ * Applies a save to an entry, pushing the previous list onto its history. Saves within REVISION_COALESCE_MS of
+ * the save that opened the newest revision are folded into it, so a burst of auto-saved clicks becomes a single
+ * revision. The window does not slide with each save: steady edits still record a revision per window.
+ */
+export function applyDeckRevision(
+  entry: SavedDeckEntry,
+  next: Pick<SavedDeckEntry, 'deck' | 'savedAt' | 'summary'>,
+): SavedDeckEntry {
+  const history = entry.history ?? [];
+  if (next.deck === entry.deck) {
+    return { ...entry, ...next, history };
+  }
+  const windowStart = history[0]?.replacedAt;
+  const elapsed = windowStart ? Date.parse(next.savedAt) - Date.parse(windowStart) : NaN;
+  const coalesce = Number.isFinite(elapsed) && elapsed < REVISION_COALESCE_MS;
+  return {
+    ...entry,
+    ...next,
+    history: coalesce ? history : [toRevision(entry, next.savedAt), ...history].slice(0, MAX_DECK_REVISIONS),
+  };
+}
+
+export function restoreDeckRevision(entry: SavedDeckEntry, revisionId: string, savedAt: string): SavedDeckEntry {
+  const history = entry.history ?? [];
+  const revision = history.find((item) => item.id === revisionId);
+  if (!revision) {
+    return entry;
+  }
+  return {
+    ...entry,
+    deck: revision.deck,
+    summary: revision.summary,
+    savedAt,
+    history: [toRevision(entry), ...history.filter((item) => item.id !== revisionId)].slice(0, MAX_DECK_REVISIONS),
+  };
+}
+
+/** The current list followed by its history, newest first. */
+export const listDeckRevisions = (entry: SavedDeckEntry): SavedDeckRevision[] => [
+  { id: CURRENT_REVISION_ID, deck: entry.deck, savedAt: entry.savedAt, summary: entry.summary },
+  ...(entry.history ?? []),
+];
@@ -0,0 +1,15 @@
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/plain') {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a tick to start the download before revoking the object URL.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function toFileName(name: string, fallback = 'deck') {
+  const cleaned = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+  return cleaned || fallback;
+}
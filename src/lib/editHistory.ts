@@ -0,0 +1,70 @@
+import { MAX_DECK_EDIT_HISTORY } from '../constants';
+
+export interface DeckEdit {
+  /** The deck string on the far side of the edit. */
+  deck: string;
+  label: string;
+}
+
+export interface DeckEditHistory {
+  past: DeckEdit[];
+  future: DeckEdit[];
+  /** The deck string the stacks were recorded against; any other deck input means the history no longer applies. */
+  current: string;
+}
+
+export interface DeckEditStep {
+  history: DeckEditHistory;
+  deck: string;
+  label: string;
+}
+
+export const EMPTY_DECK_EDIT_HISTORY: DeckEditHistory = { past: [], future: [], current: '' };
+
+/**
+ * Records an edit from `before` to `after`. When `before` is not the deck the history was tracking (a different
+ * deck was loaded in between), the stacks start over.
+ */
+export function recordDeckEdit(
+  history: DeckEditHistory,
+  before: string,
+  after: string,
+  label: string,
+  limit = MAX_DECK_EDIT_HISTORY,
+): DeckEditHistory {
+  if (before === after) return history;
+  const past = history.current === before ? history.past : [];
+  return {
+    past: [...past, { deck: before, label }].slice(-limit),
+    future: [],
+    current: after,
+  };
+}
+
+export function undoDeckEdit(history: DeckEditHistory): DeckEditStep | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    deck: entry.deck,
+    label: entry.label,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { deck: history.current, label: entry.label }],
+      current: entry.deck,
+    },
+  };
+}
+
+export function redoDeckEdit(history: DeckEditHistory): DeckEditStep | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    deck: entry.deck,
+    label: entry.label,
+    history: {
+      past: [...history.past, { deck: history.current, label: entry.label }],
+      future: history.future.slice(0, -1),
+      current: entry.deck,
+    },
+  };
+}
@@ -0,0 +1,194 @@
+import type {
+  BanStatus,
+  DeckSection,
+  DeckSizeRange,
+  FormatProfile,
+  GenesysCard,
+  MetaFormat,
+  PointSource,
+} from '../types.ts';
+import { normalizeCardName } from './strings.ts';
+
+export const FORMAT_PROFILES_FILE_VERSION = 1;
+
+const DEFAULT_DECK_SIZES: Record<DeckSection, DeckSizeRange> = {
+  main: { min: 40, max: 60 },
+  extra: { min: 0, max: 15 },
+  side: { min: 0, max: 15 },
+};
+
+export const GENESYS_PROFILE: FormatProfile = {
+  id: 'genesys',
+  name: 'Genesys',
+  description: 'Official Genesys point list. Link and Pendulum monsters are not allowed.',
+  builtIn: true,
+  pointSource: 'genesys',
+  pointCap: 100,
+  blockedCardTypes: ['link', 'pendulum'],
+  banlistSource: 'none',
+  forbiddenAsLimited: false,
+  banlist: {},
+  copyLimit: 3,
+  deckSizes: DEFAULT_DECK_SIZES,
+  metaFormat: 'genesys',
+};
+
+export const ADVANCED_PROFILE: FormatProfile = {
+  id: 'advanced',
+  name: 'Advanced',
+  description: 'TCG Advanced format with the current Forbidden & Limited list.',
+  builtIn: true,
+  pointSource: 'none',
+  pointCap: 0,
+  blockedCardTypes: [],
+  banlistSource: 'tcg',
+  forbiddenAsLimited: false,
+  banlist: {},
+  copyLimit: 3,
+  deckSizes: DEFAULT_DECK_SIZES,
+  metaFormat: 'advanced',
+};
+
+export const TRADITIONAL_PROFILE: FormatProfile = {
+  ...ADVANCED_PROFILE,
+  id: 'traditional',
+  name: 'Traditional',
+  description: 'TCG list where Forbidden cards are treated as Limited.',
+  forbiddenAsLimited: true,
+};
+
+export const BUILT_IN_FORMAT_PROFILES: FormatProfile[] = [GENESYS_PROFILE, ADVANCED_PROFILE, TRADITIONAL_PROFILE];
+
+export const DEFAULT_FORMAT_PROFILE_ID = GENESYS_PROFILE.id;
+
+export const generateFormatProfileId = () =>
+  `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const BAN_STATUSES: BanStatus[] = ['Forbidden', 'Limited', 'Semi-Limited'];
+const POINT_SOURCES: PointSource[] = ['genesys', 'custom', 'none'];
+const META_FORMATS: MetaFormat[] = ['genesys', 'advanced'];
+const SECTIONS: DeckSection[] = ['main', 'extra', 'side'];
+
+const toNonNegativeInt = (value: unknown, fallback: number) => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && numeric >= 0 ? Math.floor(numeric) : fallback;
+};
+
+export function normalizeFormatProfile(raw: unknown): FormatProfile | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const source = raw as Record<string, unknown>;
+  const name = typeof source.name === 'string' ? source.name.trim() : '';
+  if (!name) {
+    return null;
+  }
+
+  const pointSource = POINT_SOURCES.includes(source.pointSource as PointSource)
+    ? (source.pointSource as PointSource)
+    : 'none';
+  const customPoints = Array.isArray(source.customPoints)
+    ? (source.customPoints as Array<Record<string, unknown>>)
+        .filter((entry) => typeof entry?.name === 'string' && entry.name.trim())
+        .map((entry): GenesysCard => ({
+          name: (entry.name as string).trim(),
+          points: toNonNegativeInt(entry.points, 0),
+        }))
+    : undefined;
+
+  const rawSizes = (source.deckSizes ?? {}) as Record<string, Partial<DeckSizeRange> | undefined>;
+  const deckSizes = SECTIONS.reduce<Record<DeckSection, DeckSizeRange>>((acc, zone) => {
+    const min = toNonNegativeInt(rawSizes[zone]?.min, DEFAULT_DECK_SIZES[zone].min);
+    const max = toNonNegativeInt(rawSizes[zone]?.max, DEFAULT_DECK_SIZES[zone].max);
+    acc[zone] = { min: Math.min(min, max), max: Math.max(min, max) };
+    return acc;
+  }, { ...DEFAULT_DECK_SIZES });
+
+  const banlist: Record<string, BanStatus> = {};
+  if (source.banlist && typeof source.banlist === 'object') {
+    Object.entries(source.banlist as Record<string, unknown>).forEach(([cardName, status]) => {
+      if (cardName.trim() && BAN_STATUSES.includes(status as BanStatus)) {
+        banlist[cardName.trim()] = status as BanStatus;
+      }
+    });
+  }
+
+  return {
+    id: typeof source.id === 'string' && source.id.trim() ? source.id.trim() : generateFormatProfileId(),
+    name,
+    description: typeof source.description === 'string' ? source.description.trim() || undefined : undefined,
+    pointSource: pointSource === 'custom' && !customPoints?.length ? 'none' : pointSource,
+    customPoints: pointSource === 'custom' ? customPoints : undefined,
+    pointCap: toNonNegativeInt(source.pointCap, 0),
+    blockedCardTypes: Array.isArray(source.blockedCardTypes)
+      ? source.blockedCardTypes
+          .filter((entry): entry is string => typeof entry === 'string' && Boolean(entry.trim()))
+          .map((entry) => entry.trim().toLowerCase())
+      : [],
+    banlistSource: source.banlistSource === 'tcg' ? 'tcg' : 'none',
+    forbiddenAsLimited: source.forbiddenAsLimited === true,
+    banlist,
+    copyLimit: Math.max(1, toNonNegativeInt(source.copyLimit, 3)),
+    deckSizes,
+    metaFormat: META_FORMATS.includes(source.metaFormat as MetaFormat) ? (source.metaFormat as MetaFormat) : 'genesys',
+  };
+}
+
+export function parseFormatProfiles(text: string): FormatProfile[] {
+  const parsed = JSON.parse(text);
+  const entries: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.profiles)
+      ? parsed.profiles
+      : [parsed];
+  return entries
+    .map((entry) => normalizeFormatProfile(entry))
+    .filter((profile): profile is FormatProfile => Boolean(profile));
+}
+
+export function serializeFormatProfiles(profiles: FormatProfile[]): string {
+  const payload = {
+    version: FORMAT_PROFILES_FILE_VERSION,
+    profiles: profiles.map((profile) => ({ ...profile, builtIn: undefined })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+export function buildPointMap(profile: FormatProfile, genesysCards: GenesysCard[]): Map<string, number> {
+  const cards =
+    profile.pointSource === 'genesys'
+      ? genesysCards
+      : profile.pointSource === 'custom'
+        ? profile.customPoints ?? []
+        : [];
+  return new Map(cards.map((card) => [normalizeCardName(card.name), card.points]));
+}
+
+export const usesPoints = (profile: FormatProfile) => profile.pointSource !== 'none';
+
+export function getBanStatus(
+  profile: FormatProfile,
+  card: { ids: number[]; name?: string },
+  tcgBanlist?: Record<string, BanStatus>,
+): BanStatus | undefined {
+  if (card.name) {
+    const normalized = normalizeCardName(card.name);
+    const houseRuling = Object.entries(profile.banlist).find(([name]) => normalizeCardName(name) === normalized);
+    if (houseRuling) {
+      return houseRuling[1];
+    }
+  }
+  if (profile.banlistSource !== 'tcg') {
+    return undefined;
+  }
+  const status = card.ids.map((id) => tcgBanlist?.[id.toString()]).find(Boolean);
+  return status === 'Forbidden' && profile.forbiddenAsLimited ? 'Limited' : status;
+}
+
+export function findBlockedCardType(profile: FormatProfile, type?: string): string | undefined {
+  const normalized = type?.toLowerCase() ?? '';
+  if (!normalized) {
+    return undefined;
+  }
+  return profile.blockedCardTypes.find((keyword) => normalized.includes(keyword));
+}
@@ -0,0 +1,72 @@
+import type { DeckCardGroup, DeckTags, HandCategory } from '../types';
+import { cardRoleLabels, getCardTags } from './cardTags';
+
+export const HAND_CATEGORIES: HandCategory[] = ['starter', 'extender', 'handTrap', 'brick'];
+
+export const handCategoryLabels: Record<HandCategory, string> = {
+  starter: cardRoleLabels.starter,
+  extender: cardRoleLabels.extender,
+  handTrap: cardRoleLabels.handTrap,
+  brick: cardRoleLabels.brick,
+};
+
+export const isHandCategory = (tag: string): tag is HandCategory => (HAND_CATEGORIES as string[]).includes(tag);
+
+export interface CategoryOdds {
+  category: HandCategory;
+  copies: number;
+  /** Probability of opening at least N copies, indexed by N - 1. */
+  atLeast: number[];
+}
+
+/** n choose k, computed as a running product so 60-card decks stay well inside double precision. */
+export function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  const r = Math.min(k, n - k);
+  let result = 1;
+  for (let i = 1; i <= r; i += 1) {
+    result = (result * (n - r + i)) / i;
+  }
+  return result;
+}
+
+/** Exact odds of drawing exactly `hits` of `successes` copies when drawing `draws` cards from `population`. */
+export function hypergeometric(population: number, successes: number, draws: number, hits: number): number {
+  const total = choose(population, draws);
+  if (total === 0) return 0;
+  return (choose(successes, hits) * choose(population - successes, draws - hits)) / total;
+}
+
+export function hypergeometricAtLeast(population: number, successes: number, draws: number, atLeast: number): number {
+  if (atLeast <= 0) return 1;
+  let probability = 0;
+  for (let hits = atLeast; hits <= Math.min(successes, draws); hits += 1) {
+    probability += hypergeometric(population, successes, draws, hits);
+  }
+  return Math.min(1, probability);
+}
+
+export const getHandTags = (tags: DeckTags, cardName: string): HandCategory[] => getCardTags(tags, cardName).filter(isHandCategory);
+
+/** Copies per category in the main deck; a card tagged twice counts toward both. */
+export function countHandCategories(main: DeckCardGroup[], tags: DeckTags): Record<HandCategory, number> {
+  const counts: Record<HandCategory, number> = { starter: 0, extender: 0, handTrap: 0, brick: 0 };
+  main.forEach((card) => {
+    getHandTags(tags, card.name).forEach((category) => {
+      counts[category] += card.count;
+    });
+  });
+  return counts;
+}
+
+export function openingHandOdds(main: DeckCardGroup[], tags: DeckTags, handSize: number, maxAtLeast = 3): CategoryOdds[] {
+  const deckSize = main.reduce((sum, card) => sum + card.count, 0);
+  const counts = countHandCategories(main, tags);
+  return HAND_CATEGORIES.map((category) => ({
+    category,
+    copies: counts[category],
+    atLeast: Array.from({ length: maxAtLeast }, (_, index) =>
+      hypergeometricAtLeast(deckSize, counts[category], handSize, index + 1),
+    ),
+  }));
+}
@@ -0,0 +1,68 @@
+import type { DeckSection } from '../types';
+import type { SimpleDeck } from './ydke';
+
+/** One section of the Konami / Neuron deck JSON: unique Konami IDs with their copy counts in `r`. */
+export interface KonamiDeckSection {
+  ids: number[];
+  r: number[];
+}
+
+export interface KonamiDeckJson {
+  m: KonamiDeckSection;
+  e: KonamiDeckSection;
+  s: KonamiDeckSection;
+}
+
+export interface KonamiDeckExport {
+  json: KonamiDeckJson;
+  /** Passcodes that had no Konami ID and were left out, once each in deck order. */
+  missing: number[];
+}
+
+const SECTION_KEYS: Record<DeckSection, keyof KonamiDeckJson> = { main: 'm', extra: 'e', side: 's' };
+
+const expandSection = (section: unknown): number[] => {
+  const { ids, r } = (section ?? {}) as Partial<KonamiDeckSection>;
+  if (!Array.isArray(ids)) return [];
+  const cards: number[] = [];
+  ids.forEach((id, index) => {
+    const count = Number(r?.[index] ?? 1);
+    for (let copy = 0; copy < count; copy += 1) cards.push(Number(id));
+  });
+  return cards;
+};
+
+/** Returns the deck as Konami IDs; map them back to passcodes with fetchCardsByKonamiIds. */
+export function parseKonamiDeck(payload: unknown): SimpleDeck {
+  const json = (payload ?? {}) as Partial<Record<keyof KonamiDeckJson, unknown>>;
+  return {
+    main: expandSection(json.m),
+    extra: expandSection(json.e),
+    side: expandSection(json.s),
+  };
+}
+
+export function buildKonamiDeck(deck: SimpleDeck, konamiIds: Record<number, number | undefined>): KonamiDeckExport {
+  const json: KonamiDeckJson = { m: { ids: [], r: [] }, e: { ids: [], r: [] }, s: { ids: [], r: [] } };
+  const missing: number[] = [];
+
+  (Object.keys(SECTION_KEYS) as DeckSection[]).forEach((section) => {
+    const target = json[SECTION_KEYS[section]];
+    deck[section].forEach((id) => {
+      const konamiId = konamiIds[id];
+      if (!konamiId) {
+        if (!missing.includes(id)) missing.push(id);
+        return;
+      }
+      const index = target.ids.indexOf(konamiId);
+      if (index >= 0) {
+        target.r[index] += 1;
+      } else {
+        target.ids.push(konamiId);
+        target.r.push(1);
+      }
+    });
+  });
+
+  return { json, missing };
+}
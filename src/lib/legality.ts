@@ -0,0 +1,167 @@
+import type {
+  BanStatus,
+  CardDetails,
+  DeckLegality,
+  DeckSection,
+  FormatProfile,
+  LegalityViolation,
+  ParsedDeck,
+} from '../types.ts';
+import { normalizeCardName } from './strings.ts';
+import { findBlockedCardType, getBanStatus } from './formatProfiles.ts';
+
+const SECTION_NAMES: DeckSection[] = ['main', 'extra', 'side'];
+
+const SECTION_LABELS: Record<DeckSection, string> = {
+  main: 'Main Deck',
+  extra: 'Extra Deck',
+  side: 'Side Deck',
+};
+
+const EXTRA_TYPE_KEYWORDS = ['fusion', 'synchro', 'xyz', 'x-y-z', 'link'];
+
+export const isExtraDeckType = (type?: string) => {
+  if (!type) {
+    return false;
+  }
+  const normalized = type.toLowerCase();
+  return EXTRA_TYPE_KEYWORDS.some((keyword) => normalized.includes(keyword));
+};
+
+export const copyLimitForStatus = (status: BanStatus | undefined, copyLimit: number) =>
+  status === 'Forbidden' ? 0 : status === 'Limited' ? 1 : status === 'Semi-Limited' ? Math.min(2, copyLimit) : copyLimit;
+
+export interface LegalityOptions {
+  profile: FormatProfile;
+  banlist?: Record<string, BanStatus>;
+}
+
+interface CardTally {
+  name: string;
+  ids: Set<number>;
+  total: number;
+  type?: string;
+}
+
+export function validateDeck(
+  deck: ParsedDeck,
+  cardDetails: Record<number, CardDetails>,
+  options: LegalityOptions,
+): DeckLegality {
+  const { profile } = options;
+  const violations: LegalityViolation[] = [];
+
+  SECTION_NAMES.forEach((zone) => {
+    const size = deck[zone].length;
+    const { min, max } = profile.deckSizes[zone];
+    if (size < min || size > max) {
+      violations.push({
+        code: 'deck-size',
+        zone,
+        count: size,
+        limit: size < min ? min : max,
+        message: `${SECTION_LABELS[zone]} has ${size} card${size === 1 ? '' : 's'} (allowed ${min}–${max}).`,
+      });
+    }
+  });
+
+  // Alternate artworks share a name but not a passcode, so copies are tallied by card name.
+  const tallies = new Map<string, CardTally>();
+  SECTION_NAMES.forEach((zone) => {
+    deck[zone].forEach((id) => {
+      if (id <= 0) {
+        return;
+      }
+      const details = cardDetails[id];
+      const key = details ? normalizeCardName(details.name) : `#${id}`;
+      const tally = tallies.get(key) ?? { name: details?.name ?? `Card #${id}`, ids: new Set<number>(), total: 0 };
+      tally.ids.add(id);
+      tally.total += 1;
+      tally.type = tally.type ?? details?.type;
+      tallies.set(key, tally);
+    });
+  });
+
+  tallies.forEach((tally) => {
+    const cardIds = [...tally.ids];
+
+    if (findBlockedCardType(profile, tally.type)) {
+      violations.push({
+        code: 'blocked-type',
+        cardIds,
+        cardName: tally.name,
+        count: tally.total,
+        message: `${tally.name} (${tally.type}) is a blocked card type in ${profile.name}.`,
+      });
+    }
+
+    const status = getBanStatus(profile, { ids: cardIds, name: tally.name }, options.banlist);
+    const limit = copyLimitForStatus(status, profile.copyLimit);
+    if (limit === 0) {
+      violations.push({
+        code: 'forbidden',
+        cardIds,
+        cardName: tally.name,
+        count: tally.total,
+        limit,
+        message: `${tally.name} is Forbidden.`,
+      });
+    } else if (tally.total > limit) {
+      violations.push({
+        code: 'copy-limit',
+        cardIds,
+        cardName: tally.name,
+        count: tally.total,
+        limit,
+        message: `${tally.name} has ${tally.total} copies across Main, Extra and Side (max ${limit}).`,
+      });
+    }
+  });
+
+  (['main', 'extra'] as DeckSection[]).forEach((zone) => {
+    const seen = new Set<number>();
+    deck[zone].forEach((id) => {
+      if (id <= 0 || seen.has(id)) {
+        return;
+      }
+      seen.add(id);
+      const details = cardDetails[id];
+      if (!details?.type) {
+        return;
+      }
+      const extraType = isExtraDeckType(details.type);
+      if (zone === 'main' && extraType) {
+        violations.push({
+          code: 'wrong-zone',
+          zone,
+          cardIds: [id],
+          cardName: details.name,
+          count: deck[zone].filter((entry) => entry === id).length,
+          message: `${details.name} is an Extra Deck monster and cannot be in the Main Deck.`,
+        });
+      } else if (zone === 'extra' && !extraType) {
+        violations.push({
+          code: 'wrong-zone',
+          zone,
+          cardIds: [id],
+          cardName: details.name,
+          count: deck[zone].filter((entry) => entry === id).length,
+          message: `${details.name} is not an Extra Deck monster and cannot be in the Extra Deck.`,
+        });
+      }
+    });
+  });
+
+  const cardViolations: Record<number, LegalityViolation[]> = {};
+  violations.forEach((violation) => {
+    violation.cardIds?.forEach((id) => {
+      (cardViolations[id] ??= []).push(violation);
+    });
+  });
+
+  return {
+    isLegal: violations.length === 0,
+    violations,
+    cardViolations,
+  };
+}
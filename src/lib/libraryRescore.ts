@@ -0,0 +1,136 @@
+import type { CardDetails, SavedDeckFolder } from '../types';
+import { parseYdke } from './ydke';
+import { normalizeCardName } from './strings';
+
+export interface DeckRescore {
+  folderId: string;
+  deckId: string;
+  name: string;
+  /** Total stored in the deck summary before re-scoring, if it had one. */
+  previousPoints: number | null;
+  points: number;
+  delta: number | null;
+  overCap: boolean;
+  changed: boolean;
+  /** Copies whose card could not be identified, so their points are unknown. */
+  unknownCards: number;
+}
+
+export interface FolderRescore {
+  folderId: string;
+  folderName: string;
+  decks: DeckRescore[];
+}
+
+export interface LibraryRescoreReport {
+  pointCap: number;
+  folders: FolderRescore[];
+  scored: number;
+  overCap: number;
+  changed: number;
+  /** Saved decks whose YDKE could not be parsed. */
+  skipped: number;
+}
+
+type CardNames = Record<number, Pick<CardDetails, 'name'>>;
+
+const safeParse = (deck: string) => {
+  try {
+    return parseYdke(deck);
+  } catch {
+    return null;
+  }
+};
+
+export function collectLibraryCardIds(folders: SavedDeckFolder[]): number[] {
+  const ids = new Set<number>();
+  folders.forEach((folder) =>
+    folder.decks.forEach((entry) => {
+      const parsed = safeParse(entry.deck);
+      parsed?.main.concat(parsed.extra, parsed.side).forEach((id) => {
+        if (id > 0) ids.add(id);
+      });
+    }),
+  );
+  return Array.from(ids);
+}
+
+export function scoreDeckString(deck: string, cards: CardNames, pointMap: Map<string, number>) {
+  const parsed = safeParse(deck);
+  if (!parsed) return null;
+  let points = 0;
+  let unknownCards = 0;
+  [...parsed.main, ...parsed.extra, ...parsed.side].forEach((id) => {
+    const name = cards[id]?.name;
+    if (!name) {
+      unknownCards += 1;
+      return;
+    }
+    points += pointMap.get(normalizeCardName(name)) ?? 0;
+  });
+  return { points, unknownCards };
+}
+
+/** Scores every saved deck against the given point map, keeping the library's folder and deck order. */
+export function rescoreLibrary(
+  folders: SavedDeckFolder[],
+  cards: CardNames,
+  pointMap: Map<string, number>,
+  pointCap: number,
+): LibraryRescoreReport {
+  let skipped = 0;
+  const report = folders.map<FolderRescore>((folder) => ({
+    folderId: folder.id,
+    folderName: folder.name,
+    decks: folder.decks.flatMap((entry) => {
+      const score = scoreDeckString(entry.deck, cards, pointMap);
+      if (!score) {
+        skipped += 1;
+        return [];
+      }
+      const stored = entry.summary?.points;
+      const previousPoints = typeof stored === 'number' && Number.isFinite(stored) ? stored : null;
+      const delta = previousPoints === null ? null : score.points - previousPoints;
+      return [
+        {
+          folderId: folder.id,
+          deckId: entry.id,
+          name: entry.name,
+          previousPoints,
+          points: score.points,
+          delta,
+          overCap: pointCap > 0 && score.points > pointCap,
+          changed: delta !== null && delta !== 0,
+          unknownCards: score.unknownCards,
+        },
+      ];
+    }),
+  }));
+  const decks = report.flatMap((folder) => folder.decks);
+  return {
+    pointCap,
+    folders: report,
+    scored: decks.length,
+    overCap: decks.filter((deck) => deck.overCap).length,
+    changed: decks.filter((deck) => deck.changed).length,
+    skipped,
+  };
+}
+
+/**
+ * Writes the re-scored totals into the saved summaries. Decks with unidentified cards keep their stored total,
+ * since a partial score would understate it.
+ */
+export function applyRescoredPoints(folders: SavedDeckFolder[], report: LibraryRescoreReport): SavedDeckFolder[] {
+  const scores = new Map(report.folders.flatMap((folder) => folder.decks.map((deck) => [deck.deckId, deck] as const)));
+  return folders.map((folder) => {
+    let changed = false;
+    const decks = folder.decks.map((entry) => {
+      const score = scores.get(entry.id);
+      if (!score || score.unknownCards > 0 || !entry.summary || entry.summary.points === score.points) return entry;
+      changed = true;
+      return { ...entry, summary: { ...entry.summary, points: score.points } };
+    });
+    return changed ? { ...folder, decks } : folder;
+  });
+}
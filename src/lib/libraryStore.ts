@@ -0,0 +1,230 @@
+import type { SavedDeckFolder } from '../types.ts';
+import {
+  LIBRARY_CHANNEL_NAME,
+  LIBRARY_DB_NAME,
+  SAVED_DECKS_PAYLOAD_VERSION,
+  SAVED_DECKS_STORAGE_KEY,
+} from '../constants/index.ts';
+import { migrateSavedDecksPayload } from './storage.ts';
+import { planRestore } from './backup.ts';
+import { keepConflictingCopies, mergeLibraries, sameFolder, type LibraryMerge } from './librarySync.ts';
+
+// DB_VERSION tracks object stores and indexes. The shape of the folders inside them is versioned separately by
+// SAVED_DECKS_PAYLOAD_VERSION (kept in the meta store) and upgraded through migrateSavedDecksPayload on load.
+const DB_VERSION = 1;
+const FOLDER_STORE = 'folders';
+const META_STORE = 'meta';
+const SCHEMA_KEY = 'schema';
+// Only used to wake other tabs through the storage event when BroadcastChannel is missing.
+const CHANGE_PING_KEY = `${LIBRARY_CHANNEL_NAME}-changed`;
+
+interface FolderRecord extends SavedDeckFolder {
+  position: number;
+}
+
+interface SchemaRecord {
+  key: typeof SCHEMA_KEY;
+  version: number;
+}
+
+export interface LibraryChangeMessage {
+  type: 'library-changed';
+  /** The tab that saved; a BroadcastChannel also delivers to other channels open in the same tab. */
+  source: string;
+  folderIds: string[];
+}
+
+export interface LibrarySaveResult extends LibraryMerge {
+  /** Folders whose stored copy this save changed. */
+  folderIds: string[];
+}
+
+const TAB_ID = `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const readLocalLibrary = () => {
+  try {
+    const stored = window.localStorage.getItem(SAVED_DECKS_STORAGE_KEY);
+    return migrateSavedDecksPayload(stored ? JSON.parse(stored) : null);
+  } catch {
+    return migrateSavedDecksPayload(null);
+  }
+};
+
+const writeLocalLibrary = (folders: SavedDeckFolder[]) =>
+  window.localStorage.setItem(SAVED_DECKS_STORAGE_KEY, JSON.stringify({ version: SAVED_DECKS_PAYLOAD_VERSION, folders }));
+
+// Without IndexedDB (some private modes) the library stays in its original localStorage key.
+function openLibraryDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+  dbPromise ??= new Promise((resolve) => {
+    let importedLocalLibrary = false;
+    const request = indexedDB.open(LIBRARY_DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const folders = db.createObjectStore(FOLDER_STORE, { keyPath: 'id' });
+        const meta = db.createObjectStore(META_STORE, { keyPath: 'key' });
+        // The first open takes the library over from localStorage inside the upgrade transaction, so a second tab
+        // opening at the same moment waits for it instead of importing the same decks again.
+        const legacy = readLocalLibrary();
+        legacy.folders.forEach((folder, position) => folders.put({ ...folder, position } satisfies FolderRecord));
+        meta.put({ key: SCHEMA_KEY, version: SAVED_DECKS_PAYLOAD_VERSION } satisfies SchemaRecord);
+        importedLocalLibrary = true;
+      }
+    };
+    request.onsuccess = () => {
+      if (importedLocalLibrary) {
+        window.localStorage.removeItem(SAVED_DECKS_STORAGE_KEY);
+      }
+      resolve(request.result);
+    };
+    request.onerror = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+async function readFolderRecords(transaction: IDBTransaction) {
+  const [schema, records] = await Promise.all([
+    requestToPromise<SchemaRecord | undefined>(transaction.objectStore(META_STORE).get(SCHEMA_KEY)),
+    requestToPromise<FolderRecord[]>(transaction.objectStore(FOLDER_STORE).getAll()),
+  ]);
+  const ordered = [...records].sort((a, b) => a.position - b.position);
+  return migrateSavedDecksPayload({ version: schema?.version ?? 1, folders: ordered });
+}
+
+/**
+ * Writes only the folders that differ from `previous` (in content or position) and deletes the ones that are
+ * gone, so an edit to one folder never rewrites the rest. With no `previous` every folder is replaced.
+ */
+function writeFolderRecords(transaction: IDBTransaction, folders: SavedDeckFolder[], previous: SavedDeckFolder[] | null) {
+  const store = transaction.objectStore(FOLDER_STORE);
+  if (!previous) {
+    store.clear();
+  }
+  const changed = new Set(changedFolderIds(folders, previous));
+  folders.forEach((folder, position) => {
+    if (changed.has(folder.id)) store.put({ ...folder, position } satisfies FolderRecord);
+  });
+  previous?.forEach((folder) => {
+    if (!folders.some((entry) => entry.id === folder.id)) store.delete(folder.id);
+  });
+  transaction.objectStore(META_STORE).put({ key: SCHEMA_KEY, version: SAVED_DECKS_PAYLOAD_VERSION } satisfies SchemaRecord);
+}
+
+export async function loadLibrary(): Promise<SavedDeckFolder[]> {
+  const db = await openLibraryDb();
+  if (!db) {
+    const { folders, migrated } = readLocalLibrary();
+    if (migrated) writeLocalLibrary(folders);
+    return folders;
+  }
+  const stored = await readFolderRecords(db.transaction([FOLDER_STORE, META_STORE], 'readonly'));
+  // The localStorage key is removed once imported, so a library found there now was saved by a session that could
+  // not open the database (see loadLocalLibraryFallback). Its decks are merged back in before the key is dropped.
+  const stranded = window.localStorage.getItem(SAVED_DECKS_STORAGE_KEY) ? readLocalLibrary().folders : null;
+  const folders = stranded ? planRestore(stored.folders, stranded, 'merge-id').folders : stored.folders;
+  if (stored.migrated || stranded) {
+    const transaction = db.transaction([FOLDER_STORE, META_STORE], 'readwrite');
+    writeFolderRecords(transaction, folders, stored.migrated ? null : stored.folders);
+    await transactionDone(transaction);
+    if (stranded) window.localStorage.removeItem(SAVED_DECKS_STORAGE_KEY);
+  }
+  return folders;
+}
+
+/**
+ * For when loadLibrary fails: keeps the rest of the session on the localStorage library so edits are still
+ * saved, without writing over a database that could not be read. The next successful load merges them back.
+ */
+export function loadLocalLibraryFallback(): SavedDeckFolder[] {
+  dbPromise = Promise.resolve(null);
+  return readLocalLibrary().folders;
+}
+
+/**
+ * Saves this tab's library on top of whatever is stored now. Reading, merging and writing happen in one
+ * transaction, so two tabs saving at once are applied one after the other and neither drops the other's decks.
+ * `base` is the stored library this tab last synced with; see mergeLibraries.
+ */
+export async function saveLibrary(folders: SavedDeckFolder[], base: SavedDeckFolder[] | null): Promise<LibrarySaveResult> {
+  const db = await openLibraryDb();
+  if (!db) {
+    const stored = readLocalLibrary().folders;
+    const merged = keepConflictingCopies(mergeLibraries(base, folders, stored));
+    writeLocalLibrary(merged.folders);
+    return { ...merged, folderIds: changedFolderIds(merged.folders, stored) };
+  }
+  const transaction = db.transaction([FOLDER_STORE, META_STORE], 'readwrite');
+  const stored = await readFolderRecords(transaction);
+  const merged = keepConflictingCopies(mergeLibraries(base, folders, stored.folders));
+  writeFolderRecords(transaction, merged.folders, stored.migrated ? null : stored.folders);
+  await transactionDone(transaction);
+  return { ...merged, folderIds: changedFolderIds(merged.folders, stored.folders) };
+}
+
+/** Ids of folders that were added, removed, edited or moved between two snapshots of the library. */
+export const changedFolderIds = (folders: SavedDeckFolder[], previous: SavedDeckFolder[] | null) => {
+  if (!previous) return folders.map((folder) => folder.id);
+  const changed = folders
+    .filter((folder, position) => !previous[position] || !sameFolder(previous[position], folder))
+    .map((folder) => folder.id);
+  const removed = previous.filter((folder) => !folders.some((entry) => entry.id === folder.id)).map((folder) => folder.id);
+  return [...changed, ...removed];
+};
+
+export function notifyLibraryChanged(folderIds: string[]) {
+  const message: LibraryChangeMessage = { type: 'library-changed', source: TAB_ID, folderIds };
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(LIBRARY_CHANNEL_NAME);
+    channel.postMessage(message);
+    channel.close();
+    return;
+  }
+  window.localStorage.setItem(CHANGE_PING_KEY, JSON.stringify({ ...message, at: Date.now() }));
+}
+
+/** Calls `onChange` when another tab saves the library. Returns the unsubscribe function. */
+export function subscribeToLibraryChanges(onChange: (message: LibraryChangeMessage) => void): () => void {
+  // Storage events only reach other tabs, so anything arriving here came from elsewhere.
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SAVED_DECKS_STORAGE_KEY) {
+      onChange({ type: 'library-changed', source: 'storage', folderIds: [] });
+    } else if (event.key === CHANGE_PING_KEY && event.newValue) {
+      try {
+        onChange(JSON.parse(event.newValue) as LibraryChangeMessage);
+      } catch {
+        onChange({ type: 'library-changed', source: 'storage', folderIds: [] });
+      }
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(LIBRARY_CHANNEL_NAME) : null;
+  const handleMessage = (event: MessageEvent<LibraryChangeMessage>) => {
+    if (event.data?.type === 'library-changed' && event.data.source !== TAB_ID) onChange(event.data);
+  };
+  channel?.addEventListener('message', handleMessage);
+
+  return () => {
+    window.removeEventListener('storage', handleStorage);
+    channel?.removeEventListener('message', handleMessage);
+    channel?.close();
+  };
+}
@@ -0,0 +1,172 @@
+import type { SavedDeckEntry, SavedDeckFolder } from '../types';
+import { normalizeDeckEntry } from './storage';
+
+export interface LibraryConflict {
+  folderId: string;
+  /** This tab's edit, which stays in place. */
+  local: SavedDeckEntry;
+  /** The other tab's edit of the same deck. */
+  remote: SavedDeckEntry;
+}
+
+export interface LibraryMerge {
+  folders: SavedDeckFolder[];
+  conflicts: LibraryConflict[];
+}
+
+interface DeckPlacement {
+  folderId: string;
+  entry: SavedDeckEntry;
+  key: string;
+}
+
+// Entries are compared in their normalized form with sorted keys, so a deck read back from storage matches the
+// object this tab wrote even though loading rebuilt it.
+const sortKeys = (_key: string, value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : value;
+
+const entryKey = (entry: SavedDeckEntry) => JSON.stringify(normalizeDeckEntry(entry) ?? entry, sortKeys);
+
+const folderKey = (folder: SavedDeckFolder) => JSON.stringify([folder.name, folder.decks.map(entryKey)]);
+
+const libraryKey = (folders: SavedDeckFolder[]) => JSON.stringify(folders.map((folder) => [folder.id, folderKey(folder)]));
+
+/** Whether two copies of a saved deck hold the same list, name, tags, plans, matches and history. */
+export const sameDeckEntry = (a: SavedDeckEntry, b: SavedDeckEntry) => a === b || entryKey(a) === entryKey(b);
+
+/** Whether two snapshots of a folder hold the same name and the same decks in the same order. */
+export const sameFolder = (a: SavedDeckFolder, b: SavedDeckFolder) => a === b || (a.id === b.id && folderKey(a) === folderKey(b));
+
+const placeDecks = (folders: SavedDeckFolder[]) => {
+  const placements = new Map<string, DeckPlacement>();
+  folders.forEach((folder) =>
+    folder.decks.forEach((entry) => placements.set(entry.id, { folderId: folder.id, entry, key: entryKey(entry) })),
+  );
+  return placements;
+};
+
+const samePlacement = (a?: DeckPlacement, b?: DeckPlacement) =>
+  a === b || Boolean(a && b && a.folderId === b.folderId && a.key === b.key);
+
+const ids = (items: { id: string }[] = []) => items.map((item) => item.id);
+
+/**
+ * Orders ids by whichever side rearranged them since `base` (this tab wins when both did), then slots in the ids
+ * only the other side has next to the neighbours they sit by there.
+ */
+function mergeOrder(local: string[], remote: string[], base: string[], keep: (id: string) => boolean) {
+  const [primary, secondary] = local.join('\n') === base.join('\n') ? [remote, local] : [local, remote];
+  const order = primary.filter(keep);
+  secondary.forEach((id, index) => {
+    if (order.includes(id) || !keep(id)) return;
+    const after = secondary
+      .slice(0, index)
+      .reverse()
+      .find((previous) => order.includes(previous));
+    const before = secondary.slice(index + 1).find((next) => order.includes(next));
+    const position = after !== undefined ? order.indexOf(after) + 1 : before !== undefined ? order.indexOf(before) : order.length;
+    order.splice(position, 0, id);
+  });
+  return order;
+}
+
+/**
+ * Three-way merge of this tab's library with the one another tab stored, using `base` (the stored library this
+ * tab last synced with) to tell who changed what. Decks and folders changed on one side only take that side;
+ * decks edited on both sides keep this tab's version and are reported as conflicts. Returns `local` itself when
+ * the other tab brought nothing new.
+ */
+export function mergeLibraries(
+  base: SavedDeckFolder[] | null,
+  local: SavedDeckFolder[],
+  remote: SavedDeckFolder[],
+): LibraryMerge {
+  if (!base) return { folders: local, conflicts: [] };
+
+  const baseDecks = placeDecks(base);
+  const localDecks = placeDecks(local);
+  const remoteDecks = placeDecks(remote);
+  const resolved = new Map<string, DeckPlacement>();
+  const conflicts: LibraryConflict[] = [];
+  new Set([...localDecks.keys(), ...remoteDecks.keys()]).forEach((id) => {
+    const before = baseDecks.get(id);
+    const mine = localDecks.get(id);
+    const theirs = remoteDecks.get(id);
+    let pick: DeckPlacement | undefined;
+    if (samePlacement(before, theirs) || samePlacement(mine, theirs)) {
+      pick = mine;
+    } else if (samePlacement(before, mine)) {
+      pick = theirs;
+    } else {
+      // Both sides changed the deck: an edit beats a delete, and of two edits this tab's is kept.
+      pick = mine ?? theirs;
+      if (mine && theirs && mine.key !== theirs.key) {
+        conflicts.push({ folderId: mine.folderId, local: mine.entry, remote: theirs.entry });
+      }
+    }
+    if (pick) resolved.set(id, pick);
+  });
+
+  const baseFolders = new Map(base.map((folder) => [folder.id, folder]));
+  const localFolders = new Map(local.map((folder) => [folder.id, folder]));
+  const remoteFolders = new Map(remote.map((folder) => [folder.id, folder]));
+  const usedFolderIds = new Set(Array.from(resolved.values(), (placement) => placement.folderId));
+  const keepFolder = (id: string) => {
+    const before = baseFolders.get(id);
+    const mine = localFolders.get(id);
+    const theirs = remoteFolders.get(id);
+    if (usedFolderIds.has(id) || (mine && theirs)) return true;
+    const survivor = mine ?? theirs;
+    // Present on one side only: it was added there, or deleted on the other side and survives only if edited since.
+    return Boolean(survivor && (!before || folderKey(survivor) !== folderKey(before)));
+  };
+
+  const folders = mergeOrder(ids(local), ids(remote), ids(base), keepFolder).flatMap((folderId) => {
+    const before = baseFolders.get(folderId);
+    const mine = localFolders.get(folderId);
+    const theirs = remoteFolders.get(folderId);
+    const folder = mine ?? theirs;
+    if (!folder) return [];
+    const name = mine && theirs && before?.name === mine.name ? theirs.name : folder.name;
+    const deckOrder = mergeOrder(
+      ids(mine?.decks),
+      ids(theirs?.decks),
+      ids(before?.decks),
+      (deckId) => resolved.get(deckId)?.folderId === folderId,
+    );
+    const decks = deckOrder.flatMap((deckId) => {
+      const placement = resolved.get(deckId);
+      return placement ? [placement.entry] : [];
+    });
+    return [{ ...folder, name, decks }];
+  });
+
+  return { folders: libraryKey(folders) === libraryKey(local) ? local : folders, conflicts };
+}
+
+/**
+ * Stores the other tab's side of each conflict as a separate deck right after this tab's version, so neither
+ * edit is lost. The returned conflicts point at those copies.
+ */
+export function keepConflictingCopies({ folders, conflicts }: LibraryMerge): LibraryMerge {
+  if (conflicts.length === 0) return { folders, conflicts };
+  const copies = conflicts.map((conflict) => ({
+    ...conflict,
+    remote: {
+      ...conflict.remote,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: `${conflict.remote.name} (other tab)`,
+    },
+  }));
+  const next = folders.map((folder) => {
+    if (!copies.some((copy) => copy.folderId === folder.id)) return folder;
+    const decks = folder.decks.flatMap((entry) => {
+      const copy = copies.find((candidate) => candidate.folderId === folder.id && candidate.local.id === entry.id);
+      return copy ? [entry, copy.remote] : [entry];
+    });
+    return { ...folder, decks };
+  });
+  return { folders: next, conflicts: copies };
+}
@@ -0,0 +1,124 @@
+import type { GameRecord, GameResult, MatchRecord, MetaData, SavedDeckEntry } from '../types';
+import { CURRENT_REVISION_ID, listDeckRevisions } from './deckHistory';
+
+export const generateMatchId = () => `match-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export interface MatchStats {
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  games: number;
+  gameWins: number;
+  firstGames: number;
+  firstWins: number;
+  secondGames: number;
+  secondWins: number;
+}
+
+export interface MatchupStats extends MatchStats {
+  opponent: string;
+}
+
+export interface RevisionStats extends MatchStats {
+  /** A revision id from listDeckRevisions, or null for lists no longer in the deck's history. */
+  revisionId: string | null;
+  savedAt?: string;
+}
+
+/** A match goes to whoever won more games; an even split (including no games) is a draw. */
+export function matchOutcome(match: MatchRecord): GameResult {
+  const wins = match.games.filter((game) => game.result === 'win').length;
+  const losses = match.games.filter((game) => game.result === 'loss').length;
+  if (wins === losses) return 'draw';
+  return wins > losses ? 'win' : 'loss';
+}
+
+export function summarizeMatches(matches: MatchRecord[]): MatchStats {
+  const stats: MatchStats = { matches: 0, wins: 0, losses: 0, draws: 0, games: 0, gameWins: 0, firstGames: 0, firstWins: 0, secondGames: 0, secondWins: 0 };
+  matches.forEach((match) => {
+    const outcome = matchOutcome(match);
+    stats.matches += 1;
+    if (outcome === 'win') stats.wins += 1;
+    else if (outcome === 'loss') stats.losses += 1;
+    else stats.draws += 1;
+    match.games.forEach((game) => {
+      const won = game.result === 'win' ? 1 : 0;
+      stats.games += 1;
+      stats.gameWins += won;
+      if (game.order === 'first') {
+        stats.firstGames += 1;
+        stats.firstWins += won;
+      } else {
+        stats.secondGames += 1;
+        stats.secondWins += won;
+      }
+    });
+  });
+  return stats;
+}
+
+export const winRate = (wins: number, total: number) => (total > 0 ? wins / total : null);
+
+/** Most-played matchups first; names are grouped case-insensitively and shown as first typed. */
+export function statsByMatchup(matches: MatchRecord[]): MatchupStats[] {
+  const groups = new Map<string, MatchRecord[]>();
+  matches.forEach((match) => {
+    const key = match.opponent.trim().toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), match]);
+  });
+  return Array.from(groups.values())
+    .map((group) => ({ opponent: group[0].opponent.trim() || 'Unknown', ...summarizeMatches(group) }))
+    .sort((a, b) => b.matches - a.matches || a.opponent.localeCompare(b.opponent));
+}
+
+/** Results per saved version of the deck, newest first, with lists that fell out of the history grouped last. */
+export function statsByRevision(entry: SavedDeckEntry): RevisionStats[] {
+  const matches = entry.matches ?? [];
+  const revisions = listDeckRevisions(entry);
+  const rows: RevisionStats[] = [];
+  revisions.forEach((revision) => {
+    // A list restored from history can appear twice; its matches belong to the newest occurrence.
+    if (revisions.find((candidate) => candidate.deck === revision.deck) !== revision) return;
+    const played = matches.filter((match) => match.deck === revision.deck);
+    if (played.length > 0) rows.push({ revisionId: revision.id, savedAt: revision.savedAt, ...summarizeMatches(played) });
+  });
+  const orphaned = matches.filter((match) => !revisions.some((revision) => revision.deck === match.deck));
+  if (orphaned.length > 0) rows.push({ revisionId: null, ...summarizeMatches(orphaned) });
+  return rows;
+}
+
+export const isCurrentRevision = (row: RevisionStats) => row.revisionId === CURRENT_REVISION_ID;
+
+/** Genesys deck names from the meta snapshot, deduplicated, for the opponent field's autocomplete. */
+export function opponentSuggestions(metaData: MetaData): string[] {
+  const names = new Map<string, string>();
+  metaData.genesys.recentDecks.forEach((deck) => {
+    const name = deck.name.trim();
+    if (name && !names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+  });
+  return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+}
+
+const isGameRecord = (raw: unknown): raw is GameRecord => {
+  const game = (raw ?? {}) as Record<string, unknown>;
+  return (game.result === 'win' || game.result === 'loss' || game.result === 'draw') && (game.order === 'first' || game.order === 'second');
+};
+
+export function normalizeMatchLog(raw: unknown): MatchRecord[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const matches = raw
+    .filter((match) => typeof match?.id === 'string' && typeof match?.deck === 'string' && Array.isArray(match?.games))
+    .map(
+      (match): MatchRecord => ({
+        id: match.id,
+        playedAt: typeof match.playedAt === 'string' ? match.playedAt : new Date(0).toISOString(),
+        opponent: typeof match.opponent === 'string' ? match.opponent.trim() : '',
+        games: (match.games as unknown[]).filter(isGameRecord).map(({ result, order }) => ({ result, order })),
+        deck: match.deck,
+        ...(typeof match.sidePlanId === 'string' && match.sidePlanId ? { sidePlanId: match.sidePlanId } : {}),
+        ...(typeof match.notes === 'string' && match.notes.trim() ? { notes: match.notes.trim() } : {}),
+      }),
+    );
+  return matches.length > 0 ? matches : undefined;
+}
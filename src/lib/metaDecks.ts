@@ -0,0 +1,37 @@
+import type { MetaData, MetaDeck, MetaFormat } from '../types';
+import { buildYdke } from './ydke';
+
+export interface MetaDeckMatch {
+  format: MetaFormat;
+  deck: MetaDeck;
+}
+
+const DECK_URL = /ygoprodeck\.com\/deck\/([a-z0-9-]+)/i;
+const META_FORMATS: MetaFormat[] = ['genesys', 'advanced'];
+
+/**
+ * Returns the key identifying a YGOProDeck deck page. Slugs end in the numeric deck id
+ * ("dracotail-727533"), which survives deck renames, so that is used when present.
+ */
+export function parseYgoprodeckDeckUrl(text: string): string | null {
+  const slug = text.match(DECK_URL)?.[1]?.toLowerCase();
+  if (!slug) return null;
+  return slug.match(/-(\d+)$/)?.[1] ?? slug;
+}
+
+export function findMetaDeckByUrl(text: string, metaData: MetaData): MetaDeckMatch | null {
+  const key = parseYgoprodeckDeckUrl(text);
+  if (!key) return null;
+  for (const format of META_FORMATS) {
+    const deck = metaData[format].recentDecks.find((entry) => parseYgoprodeckDeckUrl(entry.url) === key);
+    if (deck) return { format, deck };
+  }
+  return null;
+}
+
+export const hasMetaDeckList = (deck: MetaDeck) => Boolean(deck.cards && deck.cards.main.length > 0);
+
+export function metaDeckToYdke(deck: MetaDeck): string | null {
+  if (!deck.cards || !hasMetaDeckList(deck)) return null;
+  return buildYdke(deck.cards.main, deck.cards.extra, deck.cards.side);
+}
@@ -0,0 +1,70 @@
+import type { DeckCardGroup, MetaDeck } from '../types';
+
+export interface MetaCardCount {
+  id: number;
+  count: number;
+}
+
+export interface MetaDeckSimilarity {
+  deck: MetaDeck;
+  /** Weighted Jaccard over main + extra copies, 0–1. */
+  similarity: number;
+  /** Copies both decks run (the smaller count of the two). */
+  shared: MetaCardCount[];
+  /** Copies the meta deck runs beyond ours. */
+  missing: MetaCardCount[];
+}
+
+export type CardCounts = Map<number, number>;
+
+export function countCards(ids: number[]): CardCounts {
+  const counts: CardCounts = new Map();
+  ids.forEach((id) => {
+    if (id > 0) counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/** Side decks are left out: they say more about the expected field than about the deck itself. */
+export const countDeckGroups = (groups: DeckCardGroup[]): CardCounts =>
+  countCards(groups.filter((group) => group.zone !== 'side').flatMap((group) => Array<number>(group.count).fill(group.id)));
+
+/** Sum of the smaller copy counts over sum of the larger ones, so a shared 3-of weighs more than a shared 1-of. */
+export function weightedJaccard(a: CardCounts, b: CardCounts): number {
+  let intersection = 0;
+  let union = 0;
+  new Set([...a.keys(), ...b.keys()]).forEach((id) => {
+    const countA = a.get(id) ?? 0;
+    const countB = b.get(id) ?? 0;
+    intersection += Math.min(countA, countB);
+    union += Math.max(countA, countB);
+  });
+  return union === 0 ? 0 : intersection / union;
+}
+
+export function compareWithMetaDeck(counts: CardCounts, deck: MetaDeck): MetaDeckSimilarity | null {
+  if (!deck.cards || deck.cards.main.length === 0) return null;
+  const metaCounts = countCards([...deck.cards.main, ...deck.cards.extra]);
+  const shared: MetaCardCount[] = [];
+  const missing: MetaCardCount[] = [];
+  metaCounts.forEach((metaCount, id) => {
+    const ours = counts.get(id) ?? 0;
+    if (ours > 0) shared.push({ id, count: Math.min(ours, metaCount) });
+    if (metaCount > ours) missing.push({ id, count: metaCount - ours });
+  });
+  const byCount = (a: MetaCardCount, b: MetaCardCount) => b.count - a.count || a.id - b.id;
+  return {
+    deck,
+    similarity: weightedJaccard(counts, metaCounts),
+    shared: shared.sort(byCount),
+    missing: missing.sort(byCount),
+  };
+}
+
+/** Meta decks without a captured list are skipped; the rest are ranked closest first. */
+export function rankMetaDecks(counts: CardCounts, decks: MetaDeck[]): MetaDeckSimilarity[] {
+  return decks
+    .map((deck) => compareWithMetaDeck(counts, deck))
+    .filter((entry): entry is MetaDeckSimilarity => entry !== null)
+    .sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,92 @@
+import type { DeckCardGroup, DeckGroups, DeckSection, DeckTags } from '../types';
+import { formatCardTag, getCardTags } from './cardTags';
+import { isExtraDeckType } from './legality';
+import { normalizeCardName } from './strings';
+
+export type PointBreakdownDimension = 'section' | 'type' | 'tag' | 'archetype' | 'card';
+
+export const POINT_BREAKDOWN_DIMENSIONS: PointBreakdownDimension[] = ['section', 'type', 'tag', 'archetype', 'card'];
+
+export const pointBreakdownLabels: Record<PointBreakdownDimension, string> = {
+  section: 'Section',
+  type: 'Card type',
+  tag: 'Role / tag',
+  archetype: 'Archetype',
+  card: 'Card',
+};
+
+export interface PointBreakdownRow {
+  key: string;
+  label: string;
+  points: number;
+  copies: number;
+  /** Fraction of the whole deck's points; tag rows can add up to more than 1 since a card may carry several tags. */
+  share: number;
+  pointsPerCopy: number;
+}
+
+const sectionLabels: Record<DeckSection, string> = { main: 'Main deck', extra: 'Extra deck', side: 'Side deck' };
+
+export type CardTypeBucket = 'monster' | 'spell' | 'trap' | 'extra';
+
+const cardTypeLabels: Record<CardTypeBucket, string> = {
+  monster: 'Monster',
+  spell: 'Spell',
+  trap: 'Trap',
+  extra: 'Extra deck monster',
+};
+
+export function cardTypeBucket(card: DeckCardGroup): CardTypeBucket {
+  const type = card.type?.toLowerCase() ?? '';
+  if (card.zone === 'extra' || isExtraDeckType(type)) return 'extra';
+  if (type.includes('spell')) return 'spell';
+  if (type.includes('trap')) return 'trap';
+  return 'monster';
+}
+
+const allCards = (deckGroups: DeckGroups) => [...deckGroups.main, ...deckGroups.extra, ...deckGroups.side];
+
+// Each card lands in one or more buckets; a card in two buckets counts in full toward both.
+function bucketsFor(card: DeckCardGroup, dimension: PointBreakdownDimension, tags: DeckTags): Array<[string, string]> {
+  switch (dimension) {
+    case 'section':
+      return [[card.zone, sectionLabels[card.zone]]];
+    case 'type': {
+      const bucket = cardTypeBucket(card);
+      return [[bucket, cardTypeLabels[bucket]]];
+    }
+    case 'tag': {
+      const cardTags = getCardTags(tags, card.name);
+      return cardTags.length > 0 ? cardTags.map((tag) => [tag, formatCardTag(tag)]) : [['', 'Untagged']];
+    }
+    case 'archetype':
+      return card.archetype ? [[card.archetype.toLowerCase(), card.archetype]] : [['', 'No archetype']];
+    case 'card':
+      return [[normalizeCardName(card.name), card.name]];
+  }
+}
+
+/** Where the deck's points go along one dimension, biggest spend first. Buckets that cost nothing are left out. */
+export function buildPointBreakdown(
+  deckGroups: DeckGroups,
+  dimension: PointBreakdownDimension,
+  tags: DeckTags = {},
+): PointBreakdownRow[] {
+  const cards = allCards(deckGroups);
+  const total = cards.reduce((sum, card) => sum + card.totalPoints, 0);
+  const rows = new Map<string, PointBreakdownRow>();
+
+  cards.forEach((card) => {
+    bucketsFor(card, dimension, tags).forEach(([key, label]) => {
+      const row = rows.get(key) ?? { key, label, points: 0, copies: 0, share: 0, pointsPerCopy: 0 };
+      row.points += card.totalPoints;
+      row.copies += card.count;
+      rows.set(key, row);
+    });
+  });
+
+  return Array.from(rows.values())
+    .filter((row) => row.points > 0)
+    .map((row) => ({ ...row, share: total > 0 ? row.points / total : 0, pointsPerCopy: row.points / row.copies }))
+    .sort((a, b) => b.points - a.points || a.label.localeCompare(b.label));
+}
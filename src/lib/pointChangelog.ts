@@ -0,0 +1,65 @@
+import type { GenesysCard, GenesysSnapshot, PointChange, PointChangeKind, PointChangelogEntry } from '../types';
+import { normalizeCardName } from './strings';
+
+const KIND_ORDER: PointChangeKind[] = ['added', 'increased', 'decreased', 'removed'];
+
+const toPointMap = (cards: GenesysCard[]) => {
+  const map = new Map<string, GenesysCard>();
+  cards.forEach((card) => {
+    if (card.points > 0) map.set(normalizeCardName(card.name), card);
+  });
+  return map;
+};
+
+/** Cards leaving the list drop to 0 points, so both sides of every change are plain numbers. */
+export function diffPointLists(before: GenesysCard[], after: GenesysCard[]): PointChange[] {
+  const previous = toPointMap(before);
+  const next = toPointMap(after);
+  const changes: PointChange[] = [];
+
+  next.forEach((card, key) => {
+    const old = previous.get(key);
+    if (!old) {
+      changes.push({ name: card.name, kind: 'added', before: 0, after: card.points });
+    } else if (old.points !== card.points) {
+      changes.push({
+        name: card.name,
+        kind: card.points > old.points ? 'increased' : 'decreased',
+        before: old.points,
+        after: card.points,
+      });
+    }
+  });
+  previous.forEach((card, key) => {
+    if (!next.has(key)) changes.push({ name: card.name, kind: 'removed', before: card.points, after: 0 });
+  });
+
+  return changes.sort(
+    (a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.name.localeCompare(b.name),
+  );
+}
+
+/** Diffs consecutive snapshots; entries come back newest first and updates that changed nothing are left out. */
+export function buildPointChangelog(snapshots: GenesysSnapshot[]): PointChangelogEntry[] {
+  const ordered = [...snapshots].sort((a, b) => a.date.localeCompare(b.date) || a.lastUpdated.localeCompare(b.lastUpdated));
+  const entries: PointChangelogEntry[] = [];
+  for (let index = 1; index < ordered.length; index += 1) {
+    const changes = diffPointLists(ordered[index - 1].cards, ordered[index].cards);
+    if (changes.length > 0) {
+      const { date, lastUpdated } = ordered[index];
+      entries.push({ date, lastUpdated, previousDate: ordered[index - 1].date, changes });
+    }
+  }
+  return entries.reverse();
+}
+
+export function findDeckPointChanges(entry: PointChangelogEntry, cardNames: Iterable<string>): PointChange[] {
+  const inDeck = new Set(Array.from(cardNames, normalizeCardName));
+  return entry.changes.filter((change) => inDeck.has(normalizeCardName(change.name)));
+}
+
+export function formatPointChange(change: PointChange): string {
+  if (change.kind === 'added') return `${change.name}: new at ${change.after} pts`;
+  if (change.kind === 'removed') return `${change.name}: off the list (was ${change.before} pts)`;
+  return `${change.name}: ${change.before} → ${change.after} pts`;
+}
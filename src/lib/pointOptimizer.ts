@@ -0,0 +1,168 @@
+import type { DeckGroups, DeckSection, ParsedDeck } from '../types';
+
+export interface PointCut {
+  zone: DeckSection;
+  id: number;
+  name: string;
+  copies: number;
+  pointsPerCopy: number;
+}
+
+export interface PointCutPlan {
+  cuts: PointCut[];
+  cardsRemoved: number;
+  pointsRemoved: number;
+  pointsAfter: number;
+}
+
+export interface PointCutOptions {
+  pointCap: number;
+  /** Main deck size the plan must not cut below. */
+  minMainDeck: number;
+  /** Card ids that may not be cut in any section. */
+  lockedIds?: Iterable<number>;
+  maxPlans?: number;
+  /** How many cards beyond the smallest possible cut alternatives may remove. */
+  extraCardsAllowed?: number;
+}
+
+export interface PointCutResult {
+  overage: number;
+  plans: PointCutPlan[];
+}
+
+interface Candidate {
+  zone: DeckSection;
+  id: number;
+  name: string;
+  available: number;
+  pointsPerCopy: number;
+}
+
+const SECTIONS: DeckSection[] = ['main', 'extra', 'side'];
+const MAX_COLLECTED_PLANS = 500;
+
+/**
+ * Finds sets of copy reductions that bring the deck to or under the point cap. Plans are minimal (dropping any
+ * single cut would leave the deck over the cap) and ranked by cards removed, then by points given up.
+ */
+export function planPointCuts(groups: DeckGroups, options: PointCutOptions): PointCutResult {
+  const totalPoints = SECTIONS.reduce(
+    (sum, zone) => sum + groups[zone].reduce((acc, group) => acc + group.totalPoints, 0),
+    0,
+  );
+  const overage = options.pointCap > 0 ? totalPoints - options.pointCap : 0;
+  if (overage <= 0) return { overage: Math.max(overage, 0), plans: [] };
+
+  const locked = new Set(options.lockedIds ?? []);
+  const mainCount = groups.main.reduce((sum, group) => sum + group.count, 0);
+  const mainBudget = Math.max(0, mainCount - options.minMainDeck);
+
+  const candidates: Candidate[] = SECTIONS.flatMap((zone) =>
+    groups[zone]
+      .filter((group) => group.pointsPerCopy > 0 && group.count > 0 && !locked.has(group.id))
+      .map((group) => ({
+        zone,
+        id: group.id,
+        name: group.name,
+        available: group.count,
+        pointsPerCopy: group.pointsPerCopy,
+      })),
+  ).sort((a, b) => b.pointsPerCopy - a.pointsPerCopy || a.name.localeCompare(b.name));
+
+  const minimumCards = greedyCardCount(candidates, overage, mainBudget);
+  if (minimumCards === null) return { overage, plans: [] };
+  const cardLimit = minimumCards + (options.extraCardsAllowed ?? 2);
+
+  // Points still reachable from candidate `index` onwards with `cards` removals, used to prune hopeless branches.
+  const bestReachable = (index: number, cards: number) => {
+    let points = 0;
+    let remaining = cards;
+    for (let i = index; i < candidates.length && remaining > 0; i += 1) {
+      const take = Math.min(candidates[i].available, remaining);
+      points += take * candidates[i].pointsPerCopy;
+      remaining -= take;
+    }
+    return points;
+  };
+
+  const collected: PointCutPlan[] = [];
+  const picks = new Array<number>(candidates.length).fill(0);
+
+  const search = (index: number, cards: number, points: number, mainCards: number) => {
+    if (collected.length >= MAX_COLLECTED_PLANS) return;
+    if (points >= overage) {
+      const plan = toPlan(candidates, picks, totalPoints);
+      if (isMinimal(plan, overage)) collected.push(plan);
+      return;
+    }
+    if (index >= candidates.length || cards >= cardLimit) return;
+    if (points + bestReachable(index, cardLimit - cards) < overage) return;
+
+    const candidate = candidates[index];
+    const zoneLimit = candidate.zone === 'main' ? mainBudget - mainCards : candidate.available;
+    const maxTake = Math.min(candidate.available, zoneLimit, cardLimit - cards);
+    for (let take = maxTake; take >= 0; take -= 1) {
+      picks[index] = take;
+      search(
+        index + 1,
+        cards + take,
+        points + take * candidate.pointsPerCopy,
+        mainCards + (candidate.zone === 'main' ? take : 0),
+      );
+    }
+    picks[index] = 0;
+  };
+
+  search(0, 0, 0, 0);
+
+  const plans = collected
+    .sort((a, b) => a.cardsRemoved - b.cardsRemoved || a.pointsRemoved - b.pointsRemoved)
+    .slice(0, options.maxPlans ?? 5);
+  return { overage, plans };
+}
+
+// Cutting the most expensive copies first always gives the fewest cards removed.
+function greedyCardCount(candidates: Candidate[], overage: number, mainBudget: number) {
+  let points = 0;
+  let cards = 0;
+  let mainCards = 0;
+  for (const candidate of candidates) {
+    const limit = candidate.zone === 'main' ? Math.min(candidate.available, mainBudget - mainCards) : candidate.available;
+    for (let copy = 0; copy < limit && points < overage; copy += 1) {
+      points += candidate.pointsPerCopy;
+      cards += 1;
+      if (candidate.zone === 'main') mainCards += 1;
+    }
+    if (points >= overage) return cards;
+  }
+  return null;
+}
+
+function toPlan(candidates: Candidate[], picks: number[], totalPoints: number): PointCutPlan {
+  const cuts: PointCut[] = [];
+  picks.forEach((copies, index) => {
+    if (copies <= 0) return;
+    const { zone, id, name, pointsPerCopy } = candidates[index];
+    cuts.push({ zone, id, name, copies, pointsPerCopy });
+  });
+  const cardsRemoved = cuts.reduce((sum, cut) => sum + cut.copies, 0);
+  const pointsRemoved = cuts.reduce((sum, cut) => sum + cut.copies * cut.pointsPerCopy, 0);
+  return { cuts, cardsRemoved, pointsRemoved, pointsAfter: totalPoints - pointsRemoved };
+}
+
+function isMinimal(plan: PointCutPlan, overage: number) {
+  const cheapestCopy = Math.min(...plan.cuts.map((cut) => cut.pointsPerCopy));
+  return plan.pointsRemoved - cheapestCopy < overage;
+}
+
+export function applyPointCutPlan(deck: ParsedDeck, plan: PointCutPlan): ParsedDeck {
+  const next: ParsedDeck = { main: [...deck.main], extra: [...deck.extra], side: [...deck.side] };
+  plan.cuts.forEach((cut) => {
+    for (let copy = 0; copy < cut.copies; copy += 1) {
+      const index = next[cut.zone].lastIndexOf(cut.id);
+      if (index !== -1) next[cut.zone].splice(index, 1);
+    }
+  });
+  return next;
+}
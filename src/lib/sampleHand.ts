@@ -0,0 +1,111 @@
+import type { CardDetails, DeckTags, HandCategory } from '../types';
+import { HAND_CATEGORIES, getHandTags, handCategoryLabels } from './handOdds';
+
+export interface SampleHand {
+  /** Remaining cards, top of the deck first. */
+  library: number[];
+  hand: number[];
+  mulligans: number;
+}
+
+export interface HandCombo {
+  id: string;
+  requires: Partial<Record<HandCategory, number>>;
+}
+
+export interface ComboTally {
+  hits: number;
+  /** Opening hands dealt while the combo was tracked. */
+  hands: number;
+}
+
+export interface SampleHandTally {
+  /** The deck the tally belongs to; a different deck starts a fresh tally. */
+  deckKey: string;
+  hands: number;
+  combos: Record<string, ComboTally>;
+}
+
+export const PRESET_HAND_COMBOS: HandCombo[] = [
+  { id: 'starter', requires: { starter: 1 } },
+  { id: 'starter+extender', requires: { starter: 1, extender: 1 } },
+  { id: 'starter+handTrap', requires: { starter: 1, handTrap: 1 } },
+  { id: 'handTrap-2', requires: { handTrap: 2 } },
+  { id: 'brick', requires: { brick: 1 } },
+];
+
+export const comboIdFor = (requires: HandCombo['requires']) =>
+  HAND_CATEGORIES.filter((category) => (requires[category] ?? 0) > 0)
+    .map((category) => (requires[category] === 1 ? category : `${category}-${requires[category]}`))
+    .join('+');
+
+export const formatComboLabel = (combo: HandCombo) =>
+  HAND_CATEGORIES.filter((category) => (combo.requires[category] ?? 0) > 0)
+    .map((category) => {
+      const count = combo.requires[category] ?? 0;
+      return count > 1 ? `${count}+ ${handCategoryLabels[category].toLowerCase()}s` : handCategoryLabels[category].toLowerCase();
+    })
+    .join(' + ')
+    .replace(/^./, (letter) => letter.toUpperCase());
+
+export const emptySampleHandTally = (deckKey: string): SampleHandTally => ({ deckKey, hands: 0, combos: {} });
+
+/** Fisher–Yates; `random` is injectable so tests can deal fixed hands. */
+export function shuffleCards<T>(cards: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...cards];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+}
+
+export function dealSampleHand(main: number[], handSize: number, random?: () => number): SampleHand {
+  const library = shuffleCards(main, random);
+  return { library: library.slice(handSize), hand: library.slice(0, handSize), mulligans: 0 };
+}
+
+export function drawSampleCard(state: SampleHand): SampleHand {
+  if (state.library.length === 0) return state;
+  const [top, ...library] = state.library;
+  return { ...state, library, hand: [...state.hand, top] };
+}
+
+/** Shuffles the hand back in and deals a fresh hand of the same size. */
+export function mulliganSampleHand(state: SampleHand, handSize: number, random?: () => number): SampleHand {
+  const next = dealSampleHand([...state.library, ...state.hand], handSize, random);
+  return { ...next, mulligans: state.mulligans + 1 };
+}
+
+export const handTagLookup =
+  (cardDetails: Record<number, CardDetails>, tags: DeckTags) =>
+  (id: number): HandCategory[] => {
+    const card = cardDetails[id];
+    return card ? getHandTags(tags, card.name) : [];
+  };
+
+export function countHandTags(hand: number[], tagsFor: (id: number) => HandCategory[]): Record<HandCategory, number> {
+  const counts: Record<HandCategory, number> = { starter: 0, extender: 0, handTrap: 0, brick: 0 };
+  hand.forEach((id) => {
+    tagsFor(id).forEach((category) => {
+      counts[category] += 1;
+    });
+  });
+  return counts;
+}
+
+export const matchesCombo = (counts: Record<HandCategory, number>, combo: HandCombo) =>
+  HAND_CATEGORIES.every((category) => counts[category] >= (combo.requires[category] ?? 0));
+
+export function recordSampleHand(
+  tally: SampleHandTally,
+  counts: Record<HandCategory, number>,
+  combos: HandCombo[],
+): SampleHandTally {
+  const next = { ...tally.combos };
+  combos.forEach((combo) => {
+    const current = next[combo.id] ?? { hits: 0, hands: 0 };
+    next[combo.id] = { hits: current.hits + (matchesCombo(counts, combo) ? 1 : 0), hands: current.hands + 1 };
+  });
+  return { ...tally, hands: tally.hands + 1, combos: next };
+}
@@ -0,0 +1,123 @@
+import type { ParsedDeck, SidePlan, SidePlanCard } from '../types';
+
+export const generateSidePlanId = () => `side-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const emptySidePlan = (name = ''): SidePlan => ({ id: generateSidePlanId(), name, cardsIn: [], cardsOut: [] });
+
+const countIds = (ids: number[]) => {
+  const counts = new Map<number, number>();
+  ids.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1));
+  return counts;
+};
+
+const sumCopies = (cards: SidePlanCard[], zone: SidePlanCard['zone']) =>
+  cards.filter((card) => card.zone === zone).reduce((sum, card) => sum + card.count, 0);
+
+/** Sets how many copies of a card the plan moves, dropping the line when the count reaches zero. */
+export function setSidePlanCount(
+  plan: SidePlan,
+  direction: 'cardsIn' | 'cardsOut',
+  card: Omit<SidePlanCard, 'count'>,
+  count: number,
+): SidePlan {
+  const rest = plan[direction].filter((entry) => !(entry.id === card.id && entry.zone === card.zone));
+  const existing = plan[direction].find((entry) => entry.id === card.id && entry.zone === card.zone);
+  if (count <= 0) return { ...plan, [direction]: rest };
+  const next = { ...card, count };
+  return {
+    ...plan,
+    [direction]: existing ? plan[direction].map((entry) => (entry === existing ? next : entry)) : [...plan[direction], next],
+  };
+}
+
+/**
+ * Lists what stops the plan from being played with this deck: cards it brings in that the side deck doesn't hold,
+ * cards it takes out that aren't there, and sections whose size would change.
+ */
+export function validateSidePlan(deck: ParsedDeck, plan: SidePlan, nameOf: (id: number) => string): string[] {
+  const issues: string[] = [];
+  const side = countIds(deck.side);
+  const inTotals = new Map<number, number>();
+  plan.cardsIn.forEach((card) => inTotals.set(card.id, (inTotals.get(card.id) ?? 0) + card.count));
+  inTotals.forEach((count, id) => {
+    const available = side.get(id) ?? 0;
+    if (count > available) issues.push(`${nameOf(id)}: ${count} in, but the side deck has ${available}.`);
+  });
+
+  (['main', 'extra'] as const).forEach((zone) => {
+    const copies = countIds(deck[zone]);
+    plan.cardsOut
+      .filter((card) => card.zone === zone)
+      .forEach((card) => {
+        const available = copies.get(card.id) ?? 0;
+        if (card.count > available) issues.push(`${nameOf(card.id)}: ${card.count} out, but the ${zone} deck has ${available}.`);
+      });
+    const cardsIn = sumCopies(plan.cardsIn, zone);
+    const cardsOut = sumCopies(plan.cardsOut, zone);
+    if (cardsIn !== cardsOut) issues.push(`${zone === 'main' ? 'Main' : 'Extra'} deck: ${cardsIn} in vs ${cardsOut} out.`);
+  });
+
+  return issues;
+}
+
+const removeCopies = (ids: number[], id: number, count: number) => {
+  const next = [...ids];
+  for (let removed = 0; removed < count; removed += 1) {
+    const index = next.indexOf(id);
+    if (index === -1) break;
+    next.splice(index, 1);
+  }
+  return next;
+};
+
+/** The deck after siding: cards in leave the side deck for their section and cards out take their place there. */
+export function applySidePlan(deck: ParsedDeck, plan: SidePlan): ParsedDeck {
+  const next: ParsedDeck = { main: [...deck.main], extra: [...deck.extra], side: [...deck.side] };
+  plan.cardsOut.forEach((card) => {
+    const before = next[card.zone].length;
+    next[card.zone] = removeCopies(next[card.zone], card.id, card.count);
+    const moved = before - next[card.zone].length;
+    next.side.push(...Array<number>(moved).fill(card.id));
+  });
+  plan.cardsIn.forEach((card) => {
+    const before = next.side.length;
+    next.side = removeCopies(next.side, card.id, card.count);
+    const moved = before - next.side.length;
+    next[card.zone].push(...Array<number>(moved).fill(card.id));
+  });
+  return next;
+}
+
+export function formatSidePlansText(deckName: string, plans: SidePlan[], nameOf: (id: number) => string): string {
+  const formatLines = (cards: SidePlanCard[], sign: string) =>
+    cards.map((card) => `  ${sign}${card.count} ${nameOf(card.id)}${card.zone === 'extra' ? ' (Extra)' : ''}`);
+  const sections = plans.map((plan) =>
+    [plan.name || 'Untitled plan', ...formatLines(plan.cardsIn, '+'), ...formatLines(plan.cardsOut, '-')].join('\n'),
+  );
+  return [`${deckName} — side plans`, ...sections].join('\n\n');
+}
+
+const normalizeSidePlanCards = (raw: unknown): SidePlanCard[] =>
+  Array.isArray(raw)
+    ? raw
+        .filter(
+          (card): card is SidePlanCard =>
+            Number.isInteger(card?.id) && card.id > 0 && (card.zone === 'main' || card.zone === 'extra') && Number.isInteger(card.count) && card.count > 0,
+        )
+        .map(({ id, zone, count }) => ({ id, zone, count }))
+    : [];
+
+export function normalizeSidePlans(raw: unknown): SidePlan[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const plans = raw
+    .filter((plan) => typeof plan?.id === 'string' && plan.id.trim())
+    .map(
+      (plan): SidePlan => ({
+        id: plan.id,
+        name: typeof plan.name === 'string' ? plan.name.trim() : '',
+        cardsIn: normalizeSidePlanCards(plan.cardsIn),
+        cardsOut: normalizeSidePlanCards(plan.cardsOut),
+      }),
+    );
+  return plans.length > 0 ? plans : undefined;
+}
@@ -1,11 +1,39 @@
-import type { SavedDeckFolder, SavedDeckEntry } from '../types';
+import type { SavedDeckFolder, SavedDeckEntry, SavedDeckRevision, SavedDeckSummary, UserProfile } from '../types';
+import { generateRevisionId } from './deckHistory';
+import { normalizeDeckTags } from './cardTags';
+import { normalizeSidePlans } from './sidePlans';
+import { normalizeMatchLog } from './matchLog';
 import { 
   createFolder, 
   DEFAULT_FOLDER_NAME, 
   DEFAULT_FOLDER_ID,
+  SAVED_DECKS_PAYLOAD_VERSION,
+  USER_PROFILE_STORAGE_KEY,
   generateFolderId
 } from '../constants';
 
+const normalizeSummary = (raw: unknown): SavedDeckSummary | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const summary = raw as Record<string, unknown>;
+  return {
+    main: Number(summary.main) || 0,
+    extra: Number(summary.extra) || 0,
+    side: Number(summary.side) || 0,
+    points: Number.isFinite(Number(summary.points)) ? Number(summary.points) : undefined,
+    version: Number(summary.version) || undefined,
+  };
+};
+
+const normalizeRevision = (raw: unknown): SavedDeckRevision | null => {
+  const revision = (raw ?? {}) as Record<string, unknown>;
+  const deck = typeof revision.deck === 'string' ? revision.deck.trim() : '';
+  const savedAt = typeof revision.savedAt === 'string' ? revision.savedAt : '';
+  if (!deck || !savedAt) return null;
+  const id = typeof revision.id === 'string' && revision.id.trim() ? revision.id.trim() : generateRevisionId();
+  const replacedAt = typeof revision.replacedAt === 'string' ? revision.replacedAt : '';
+  return { id, deck, savedAt, summary: normalizeSummary(revision.summary), ...(replacedAt ? { replacedAt } : {}) };
+};
+
 export const normalizeDeckEntry = (raw: any): SavedDeckEntry | null => {
   const deck = typeof raw?.deck === 'string' ? raw.deck.trim() : '';
   if (!deck) return null;
@@ -18,17 +46,16 @@ export const normalizeDeckEntry = (raw: any): SavedDeckEntry | null => {
   const name = typeof raw?.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled deck';
   const savedAt = typeof raw?.savedAt === 'string' && raw.savedAt.trim() ? raw.savedAt : new Date().toISOString();
   
-  const summary = raw?.summary && typeof raw.summary === 'object'
-      ? {
-          main: Number(raw.summary.main) || 0,
-          extra: Number(raw.summary.extra) || 0,
-          side: Number(raw.summary.side) || 0,
-          points: Number.isFinite(Number(raw.summary.points)) ? Number(raw.summary.points) : undefined,
-          version: Number(raw.summary.version) || undefined,
-        }
-      : undefined;
+  const summary = normalizeSummary(raw?.summary);
+  const history = Array.isArray(raw?.history)
+    ? (raw.history as unknown[]).map(normalizeRevision).filter((revision): revision is SavedDeckRevision => Boolean(revision))
+    : [];
 
-  return { id, name, deck, savedAt, summary };
+  const tags = normalizeDeckTags(raw?.tags);
+  const sidePlans = normalizeSidePlans(raw?.sidePlans);
+  const matches = normalizeMatchLog(raw?.matches);
+  const entry: SavedDeckEntry = history.length > 0 ? { id, name, deck, savedAt, summary, history } : { id, name, deck, savedAt, summary };
+  return { ...entry, ...(tags ? { tags } : {}), ...(sidePlans ? { sidePlans } : {}), ...(matches ? { matches } : {}) };
 };
 
 export const normalizeFolders = (raw: any, ensureDefault = true): SavedDeckFolder[] => {
@@ -54,3 +81,71 @@ export const normalizeFolders = (raw: any, ensureDefault = true): SavedDeckFolde
 
   return ensureDefault && folders.length === 0 ? [createFolder(DEFAULT_FOLDER_NAME, DEFAULT_FOLDER_ID)] : folders;
 };
+
+export const moveDeckBetweenFolders = (
+  folders: SavedDeckFolder[],
+  sourceFolderId: string,
+  deckId: string,
+  targetFolderId: string,
+  targetIndex: number,
+): SavedDeckFolder[] => {
+  const entry = folders.find((folder) => folder.id === sourceFolderId)?.decks.find((deck) => deck.id === deckId);
+  if (!entry || !folders.some((folder) => folder.id === targetFolderId)) return folders;
+
+  const withoutDeck = folders.map((folder) =>
+    folder.id === sourceFolderId ? { ...folder, decks: folder.decks.filter((deck) => deck.id !== deckId) } : folder,
+  );
+  return withoutDeck.map((folder) => {
+    if (folder.id !== targetFolderId) return folder;
+    const decks = [...folder.decks];
+    decks.splice(Math.max(0, Math.min(targetIndex, decks.length)), 0, entry);
+    return { ...folder, decks };
+  });
+};
+
+export const findUnsortedFolder = (folders: SavedDeckFolder[]) =>
+  folders.find((folder) => folder.id === DEFAULT_FOLDER_ID) ??
+  folders.find((folder) => folder.name === DEFAULT_FOLDER_NAME);
+
+// Decks from a deleted folder either go with it or are appended to "Unsorted", which is recreated if needed.
+export const removeFolder = (
+  folders: SavedDeckFolder[],
+  folderId: string,
+  moveDecksToUnsorted: boolean,
+): SavedDeckFolder[] => {
+  const removed = folders.find((folder) => folder.id === folderId);
+  if (!removed) return folders;
+  const remaining = folders.filter((folder) => folder.id !== folderId);
+  if (!moveDecksToUnsorted || removed.decks.length === 0) return remaining;
+
+  const unsorted = findUnsortedFolder(remaining);
+  if (!unsorted) {
+    return [createFolder(DEFAULT_FOLDER_NAME, DEFAULT_FOLDER_ID, removed.decks), ...remaining];
+  }
+  return remaining.map((folder) =>
+    folder.id === unsorted.id ? { ...folder, decks: [...folder.decks, ...removed.decks] } : folder,
+  );
+};
+
+/**
+ * Reads whatever shape the library was stored in (a bare deck array, `{ decks }`, or a versioned `{ folders }`
+ * payload) and reports whether it predates SAVED_DECKS_PAYLOAD_VERSION so the caller can write it back.
+ * Version 3 adds per-deck match logs; older entries simply start with none.
+ */
+export const migrateSavedDecksPayload = (raw: unknown): { folders: SavedDeckFolder[]; migrated: boolean } => {
+  const version = Number((raw as { version?: unknown } | null)?.version) || 1;
+  return { folders: normalizeFolders(raw), migrated: version < SAVED_DECKS_PAYLOAD_VERSION };
+};
+
+export const readUserProfile = (): Partial<UserProfile> => {
+  try {
+    const stored = localStorage.getItem(USER_PROFILE_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? (parsed as Partial<UserProfile>) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const writeUserProfile = (profile: Partial<UserProfile>) =>
+  localStorage.setItem(USER_PROFILE_STORAGE_KEY, JSON.stringify(profile));
@@ -0,0 +1,154 @@
+import type { CardDetails, DeckSection } from '../types';
+import type { SimpleDeck } from './ydke';
+import { normalizeCardName } from './strings';
+import { isExtraDeckType } from './legality';
+import { fetchCardByName, searchCards } from './ygoprodeck';
+
+export interface DecklistLine {
+  lineNumber: number;
+  raw: string;
+  zone: DeckSection;
+  count: number;
+  name: string;
+}
+
+export type NameMatchStatus = 'exact' | 'fuzzy' | 'ambiguous' | 'unresolved';
+
+export interface NameResolution {
+  query: string;
+  status: NameMatchStatus;
+  card: CardDetails | null;
+  candidates: CardDetails[];
+}
+
+// "Main Deck", "// Extra Deck (15 cards)", "Side:", "#main", "!side", "=== Side Deck ==="
+const SECTION_HEADER =
+  /^(?:\/\/|#+|!|=+|-+|\*+)?\s*(main|extra|side)(?:\s*deck)?\s*(?:\(\s*\d+(?:\s*cards?)?\s*\))?\s*:?\s*(?:=+|-+|\*+)?$/i;
+const IGNORED_LINES = [
+  /^(?:\/\/|#+)?\s*(?:monsters?|spells?|traps?)(?:\s*cards?)?\s*(?:\(\s*\d+\s*\))?\s*:?$/i,
+  /^deck\s*:/i,
+  /^total points?\s*:/i,
+  /^point cap\s*:/i,
+  /^#created/i,
+  /^[-=_*]{3,}$/,
+];
+// Point annotations from our own text export ("3x Maxx "C" [20 pts]").
+const POINT_SUFFIX = /\s*[[(]\s*\d+\s*pts?\s*[\])]\s*$/i;
+
+const parseQuantity = (line: string): { count: number; name: string } => {
+  const leading = line.match(/^(\d+)\s*[x×]\s*(.+)$/i);
+  if (leading) return { count: Number(leading[1]), name: leading[2] };
+  const trailing = line.match(/^(.+?)\s*[x×]\s*(\d+)$/i);
+  if (trailing) return { count: Number(trailing[2]), name: trailing[1] };
+  // A bare number is only a count when it could be one, so names like "7 Colored Fish" survive.
+  const bare = line.match(/^([1-3])\s+(.+)$/);
+  if (bare) return { count: Number(bare[1]), name: bare[2] };
+  return { count: 1, name: line };
+};
+
+export function parseTextDecklist(text: string): DecklistLine[] {
+  const lines: DecklistLine[] = [];
+  let zone: DeckSection = 'main';
+
+  text.split(/\r?\n/u).forEach((rawLine, index) => {
+    const line = rawLine.trim().replace(/^[-*•]\s+/u, '');
+    if (!line) return;
+    const header = line.match(SECTION_HEADER);
+    if (header) {
+      zone = header[1].toLowerCase() as DeckSection;
+      return;
+    }
+    if (IGNORED_LINES.some((pattern) => pattern.test(line)) || line.startsWith('#') || line.startsWith('//')) return;
+
+    const { count, name } = parseQuantity(line.replace(POINT_SUFFIX, ''));
+    const cleaned = name.trim();
+    if (!cleaned || count <= 0) return;
+    lines.push({ lineNumber: index + 1, raw: rawLine.trim(), zone, count, name: cleaned });
+  });
+
+  return lines;
+}
+
+/** Compares names ignoring case, punctuation and "&" vs "and". */
+export const looseCardName = (name: string) =>
+  normalizeCardName(name)
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '');
+
+const similarity = (query: string, candidate: string) => {
+  const a = looseCardName(query);
+  const b = looseCardName(candidate);
+  if (a === b) return 3;
+  if (b.startsWith(a) || a.startsWith(b)) return 2 - Math.abs(a.length - b.length) / 100;
+  if (b.includes(a) || a.includes(b)) return 1 - Math.abs(a.length - b.length) / 100;
+  return 0;
+};
+
+export function pickCardMatch(query: string, candidates: CardDetails[]): NameResolution {
+  const normalized = normalizeCardName(query);
+  const ranked = [...candidates].sort((a, b) => similarity(query, b.name) - similarity(query, a.name));
+  const exact = ranked.find((card) => normalizeCardName(card.name) === normalized);
+  if (exact) return { query, status: 'exact', card: exact, candidates: ranked };
+
+  const loose = ranked.filter((card) => looseCardName(card.name) === looseCardName(query));
+  if (loose.length === 1 || ranked.length === 1) {
+    return { query, status: 'fuzzy', card: loose[0] ?? ranked[0], candidates: ranked };
+  }
+  if (ranked.length > 1) return { query, status: 'ambiguous', card: ranked[0], candidates: ranked };
+  return { query, status: 'unresolved', card: null, candidates: [] };
+}
+
+/** Exact lookups go through fetchCardByName (cache, API, offline snapshot); anything else falls back to a search. */
+export async function resolveCardName(name: string): Promise<NameResolution> {
+  const direct = await fetchCardByName(name).catch(() => null);
+  if (direct && normalizeCardName(direct.name) === normalizeCardName(name)) {
+    return { query: name, status: 'exact', card: direct, candidates: [direct] };
+  }
+
+  const search = async (query: string) => {
+    try {
+      return (await searchCards({ query, pageSize: 8 })).cards;
+    } catch {
+      return [];
+    }
+  };
+  let candidates = await search(name);
+  if (candidates.length === 0) {
+    const keywords = name.split(/\s+/).filter((word) => word.replace(/[^a-z0-9]/gi, '').length > 3);
+    if (keywords.length > 0) candidates = await search(keywords.slice(0, 2).join(' '));
+  }
+  if (direct && !candidates.some((card) => card.id === direct.id)) candidates = [direct, ...candidates];
+  return pickCardMatch(name, candidates);
+}
+
+/** Keyed by normalized name so repeated lines share one lookup and one pick. */
+export async function resolveDecklistNames(
+  lines: DecklistLine[],
+  resolve: (name: string) => Promise<NameResolution> = resolveCardName,
+): Promise<Record<string, NameResolution>> {
+  const resolutions: Record<string, NameResolution> = {};
+  for (const line of lines) {
+    const key = normalizeCardName(line.name);
+    if (!resolutions[key]) resolutions[key] = await resolve(line.name);
+  }
+  return resolutions;
+}
+
+/** Extra Deck monsters listed under the main deck header are moved to the extra deck. */
+export function buildDecklistDeck(
+  lines: DecklistLine[],
+  picks: Record<string, CardDetails | null>,
+): { deck: SimpleDeck; skipped: number } {
+  const deck: SimpleDeck = { main: [], extra: [], side: [] };
+  let skipped = 0;
+  lines.forEach((line) => {
+    const card = picks[normalizeCardName(line.name)];
+    if (!card) {
+      skipped += line.count;
+      return;
+    }
+    const zone = line.zone === 'main' && isExtraDeckType(card.type) ? 'extra' : line.zone;
+    for (let copy = 0; copy < line.count; copy += 1) deck[zone].push(card.id);
+  });
+  return { deck, skipped };
+}
@@ -1,5 +1,6 @@
 import { gzip, ungzip } from 'pako';
-import type { DeckSection } from '../types.ts';
+import type { DeckSection, DeckTags } from '../types.ts';
+import { normalizeDeckTags } from './cardTags.ts';
 
 export interface ParsedDeck {
   main: number[];
@@ -105,20 +106,21 @@ function decodeSection(section: string): DecodedSection {
   return { cards, hasInferredIds: hadInferred, inferredCount };
 }
 
-export function encodeDeckHash(ydke: string, name?: string): string {
-  const data = JSON.stringify({ y: ydke.trim(), n: name?.trim() || undefined });
+export function encodeDeckHash(ydke: string, name?: string, tags?: DeckTags): string {
+  const hasTags = tags && Object.keys(tags).length > 0;
+  const data = JSON.stringify({ y: ydke.trim(), n: name?.trim() || undefined, t: hasTags ? tags : undefined });
   const payload = gzip(data);
   return bytesToBase64Url(payload);
 }
 
-export function decodeDeckHash(encoded: string): { ydke: string; name?: string } {
+export function decodeDeckHash(encoded: string): { ydke: string; name?: string; tags?: DeckTags } {
   const bytes = base64ToBytes(encoded);
   const data = ungzip(bytes);
   const text = new TextDecoder().decode(data);
   try {
     const parsed = JSON.parse(text);
     if (typeof parsed === 'object' && parsed !== null && parsed.y) {
-      return { ydke: parsed.y, name: parsed.n };
+      return { ydke: parsed.y, name: parsed.n, tags: normalizeDeckTags(parsed.t) };
     }
   } catch {
     // Fallback for legacy format
@@ -197,6 +199,35 @@ export function buildYdke(main: number[], extra: number[], side: number[]): stri
   return `ydke://${sections}`;
 }
 
+export interface YdkOptions {
+  /** When given, each run of copies is preceded by a `# Card Name` comment line. */
+  cardNames?: Record<number, string>;
+  deckName?: string;
+  createdBy?: string;
+}
+
+/**
+ * Builds a `.ydk` file. Comments go on their own lines since EDOPro and YGO Omega only skip whole `#` lines,
+ * and cards without a passcode are left out because no simulator can load them.
+ */
+export function buildYdk(deck: SimpleDeck, options: YdkOptions = {}): string {
+  const lines = [`#created by ${options.createdBy ?? 'YGO Genesys Helper'}`];
+  if (options.deckName?.trim()) lines.push(`# ${options.deckName.trim()}`);
+  const headers: Record<DeckSection, string> = { main: '#main', extra: '#extra', side: '!side' };
+
+  SECTION_NAMES.forEach((section) => {
+    lines.push(headers[section]);
+    deck[section].forEach((id, index, ids) => {
+      if (id <= 0) return;
+      const name = options.cardNames?.[id];
+      if (name && ids[index - 1] !== id) lines.push(`# ${name}`);
+      lines.push(String(id));
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
 export function parseYdk(text: string): SimpleDeck {
   const deck: SimpleDeck = { main: [], extra: [], side: [] };
   let current: DeckSection = 'main';
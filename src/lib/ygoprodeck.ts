@@ -1,4 +1,20 @@
 import type { CardDetails } from '../types.ts';
+import { normalizeCardName } from './strings.ts';
+import {
+  isCardEntryStale,
+  readCachedCardByName,
+  readCachedCards,
+  readCachedCardsByKonamiIds,
+  writeCachedCards,
+  type CachedCardEntry,
+} from './cardCache.ts';
+import {
+  findSnapshotCard,
+  isOffline,
+  loadCardDatabase,
+  searchCardDatabase,
+  type CardDatabase,
+} from './cardDatabase.ts';
 
 const API_ENDPOINT = 'https://db.ygoprodeck.com/api/v7/cardinfo.php';
 const CHUNK_SIZE = 40;
@@ -32,6 +48,7 @@ interface ApiCard {
   linkval?: number;
   desc?: string;
   ygoprodeck_url?: string;
+  archetype?: string;
   card_images?: ApiCardImage[];
   misc_info?: Array<{
     konami_id?: number;
@@ -49,36 +66,105 @@ const adaptApiCard = (card: ApiCard): CardDetails => ({
   imageCropped: card.card_images?.[0]?.image_url_cropped ?? card.card_images?.[0]?.image_url,
   desc: card.desc,
   ygoprodeckUrl: card.ygoprodeck_url,
+  konamiId: card.misc_info?.[0]?.konami_id,
+  archetype: card.archetype,
 });
 
+interface CacheLookup {
+  resolved: Record<number, CardDetails>;
+  stale: Record<number, CardDetails>;
+  misses: number[];
+}
+
+// Fresh entries are served directly; stale ones are refetched but kept as a fallback for when the network fails.
+const splitCacheHits = (keys: number[], cached: Record<number, CachedCardEntry>): CacheLookup => {
+  const lookup: CacheLookup = { resolved: {}, stale: {}, misses: [] };
+  keys.forEach((key) => {
+    const entry = cached[key];
+    if (entry && !isCardEntryStale(entry)) {
+      lookup.resolved[key] = entry.card;
+      return;
+    }
+    if (entry) {
+      lookup.stale[key] = entry.card;
+    }
+    lookup.misses.push(key);
+  });
+  return lookup;
+};
+
+// Without network, misses are filled from stale cache entries and then from the bundled card database snapshot.
+async function withOfflineFallback(
+  lookup: CacheLookup,
+  resolved: Record<number, CardDetails>,
+  error: unknown,
+  fromSnapshot: (database: CardDatabase, key: number) => CardDetails | undefined,
+): Promise<Record<number, CardDetails>> {
+  const merged: Record<number, CardDetails> = { ...lookup.stale, ...resolved };
+  const remaining = lookup.misses.filter((key) => !merged[key]);
+  const database = remaining.length > 0 ? await loadCardDatabase() : null;
+  if (database) {
+    remaining.forEach((key) => {
+      const card = fromSnapshot(database, key);
+      if (card) {
+        merged[key] = card;
+      }
+    });
+  }
+  if (lookup.misses.some((key) => merged[key] && !resolved[key])) {
+    return merged;
+  }
+  throw error;
+}
+
 export async function fetchCardsByIds(ids: number[]): Promise<Record<number, CardDetails>> {
   const unique = Array.from(new Set(ids.filter((id) => id > 0)));
   if (unique.length === 0) {
     return {};
   }
 
-  const resolved: Record<number, CardDetails> = {};
+  const lookup = splitCacheHits(unique, await readCachedCards(unique));
+  if (lookup.misses.length === 0) {
+    return lookup.resolved;
+  }
+
+  const resolved: Record<number, CardDetails> = { ...lookup.resolved };
+  const fetched: CardDetails[] = [];
+  if (isOffline()) {
+    return withOfflineFallback(lookup, resolved, new Error('You are offline and these cards are not cached.'), findSnapshotCard);
+  }
 
   const chunks: number[][] = [];
-  for (let i = 0; i < unique.length; i += CHUNK_SIZE) {
-    chunks.push(unique.slice(i, i + CHUNK_SIZE));
+  for (let i = 0; i < lookup.misses.length; i += CHUNK_SIZE) {
+    chunks.push(lookup.misses.slice(i, i + CHUNK_SIZE));
   }
 
-  for (const chunk of chunks) {
-    const cards = await fetchChunk(chunk);
-    cards.forEach((card) => {
-      resolved[card.id] = {
-        ...adaptApiCard(card),
-      };
-    });
+  try {
+    for (const chunk of chunks) {
+      const cards = await fetchChunk(chunk);
+      cards.forEach((card) => {
+        const details = adaptApiCard(card);
+        resolved[card.id] = details;
+        fetched.push(details);
+      });
+    }
+  } catch (error) {
+    return withOfflineFallback(lookup, resolved, error, findSnapshotCard);
   }
 
+  lookup.misses.forEach((id) => {
+    if (!resolved[id] && lookup.stale[id]) {
+      resolved[id] = lookup.stale[id];
+    }
+  });
+  await writeCachedCards(fetched);
+
   return resolved;
 }
 
 async function fetchChunk(chunk: number[]): Promise<ApiCard[]> {
   const joined = chunk.join(',');
-  const url = `${API_ENDPOINT}?id=${joined}`;
+  const url = `${API_ENDPOINT}?id=${joined}&misc=yes`;
 
   try {
     const response = await fetch(url);
@@ -123,7 +209,21 @@ export async function fetchCardByName(name: string): Promise<CardDetails | null>
     }
   };
 
-  return (await search(name, 'name')) ?? (await search(name, 'fname'));
+  const cached = await readCachedCardByName(name);
+  if (cached && !isCardEntryStale(cached)) {
+    return cached.card;
+  }
+
+  const found = isOffline() ? null : (await search(name, 'name')) ?? (await search(name, 'fname'));
+  if (found) {
+    await writeCachedCards([found]);
+    return found;
+  }
+  if (cached) {
+    return cached.card;
+  }
+  const database = await loadCardDatabase();
+  return database?.byName.get(normalizeCardName(name)) ?? null;
 }
 
 export async function fetchCardsByKonamiIds(ids: number[]): Promise<Record<number, CardDetails>> {
@@ -132,10 +232,20 @@ export async function fetchCardsByKonamiIds(ids: number[]): Promise<Record<numbe
     return {};
   }
 
-  const resolved: Record<number, CardDetails> = {};
+  const lookup = splitCacheHits(unique, await readCachedCardsByKonamiIds(unique));
+  if (lookup.misses.length === 0) {
+    return lookup.resolved;
+  }
+
+  const resolved: Record<number, CardDetails> = { ...lookup.resolved };
+  const fetched: CardDetails[] = [];
+  const fromSnapshot = (database: CardDatabase, konamiId: number) => database.byKonamiId.get(konamiId);
+  if (isOffline()) {
+    return withOfflineFallback(lookup, resolved, new Error('You are offline and these Konami IDs are not cached.'), fromSnapshot);
+  }
   const chunks: number[][] = [];
-  for (let i = 0; i < unique.length; i += CHUNK_SIZE) {
-    chunks.push(unique.slice(i, i + CHUNK_SIZE));
+  for (let i = 0; i < lookup.misses.length; i += CHUNK_SIZE) {
+    chunks.push(lookup.misses.slice(i, i + CHUNK_SIZE));
   }
 
   for (const chunk of chunks) {
@@ -152,15 +262,27 @@ export async function fetchCardsByKonamiIds(ids: number[]): Promise<Record<numbe
         if (!konamiId) {
           return;
         }
-        resolved[konamiId] = adaptApiCard(card);
+        const details = adaptApiCard(card);
+        resolved[konamiId] = details;
+        fetched.push(details);
       });
     } catch (error) {
-      throw new Error(
-        `Failed to load Konami IDs: ${error instanceof Error ? error.message : String(error)}`,
+      return withOfflineFallback(
+        lookup,
+        resolved,
+        new Error(`Failed to load Konami IDs: ${error instanceof Error ? error.message : String(error)}`),
+        fromSnapshot,
       );
     }
   }
 
+  lookup.misses.forEach((konamiId) => {
+    if (!resolved[konamiId] && lookup.stale[konamiId]) {
+      resolved[konamiId] = lookup.stale[konamiId];
+    }
+  });
+  await writeCachedCards(fetched);
+
   return resolved;
 }
 
@@ -176,6 +298,20 @@ export interface CardSearchResult {
   hasMore: boolean;
 }
 
+async function searchSnapshot(query: string, page: number, pageSize: number): Promise<CardSearchResult | null> {
+  const database = await loadCardDatabase();
+  if (!database) {
+    return null;
+  }
+  const offset = page * pageSize;
+  const matches = searchCardDatabase(database, query, offset + pageSize + 1);
+  return {
+    cards: matches.slice(offset, offset + pageSize),
+    total: matches.length,
+    hasMore: matches.length > offset + pageSize,
+  };
+}
+
 export async function searchCards(options: CardSearchOptions): Promise<CardSearchResult> {
   const { query, page = 0, pageSize = 5 } = options;
   const trimmed = query.trim();
@@ -183,6 +319,13 @@ export async function searchCards(options: CardSearchOptions): Promise<CardSearc
     return { cards: [], total: 0, hasMore: false };
   }
 
+  if (isOffline()) {
+    const offline = await searchSnapshot(trimmed, page, pageSize);
+    if (offline) {
+      return offline;
+    }
+  }
+
   const offset = page * pageSize;
   const wildcardQuery = trimmed.replace(/\s+/g, '%');
   const params = new URLSearchParams({
@@ -225,6 +368,10 @@ export async function searchCards(options: CardSearchOptions): Promise<CardSearc
       hasMore,
     };
   } catch (error) {
+    const offline = await searchSnapshot(trimmed, page, pageSize);
+    if (offline) {
+      return offline;
+    }
     throw new Error(
       `Unable to search YGOProDeck: ${error instanceof Error ? error.message : String(error)}`,
     );
@@ -11,6 +11,36 @@ export interface GenesysPayload {
   cards: GenesysCard[];
 }
 
+export interface GenesysSnapshot {
+  date: string;
+  lastUpdated: string;
+  cards: GenesysCard[];
+}
+
+export type PointChangeKind = 'added' | 'removed' | 'increased' | 'decreased';
+
+export interface PointChange {
+  name: string;
+  kind: PointChangeKind;
+  before: number;
+  after: number;
+}
+
+export interface PointChangelogEntry {
+  date: string;
+  /** When the update was captured; tells apart two updates on the same day. */
+  lastUpdated: string;
+  previousDate: string;
+  changes: PointChange[];
+}
+
+export interface PointHistory {
+  /** Newest first; empty until at least two snapshots differ. */
+  entries: PointChangelogEntry[];
+  /** Dates of the recorded snapshots, oldest first. */
+  snapshotDates: string[];
+}
+
 export interface CardDetails {
   id: number;
   name: string;
@@ -22,6 +52,8 @@ export interface CardDetails {
   image?: string;
   imageCropped?: string;
   ygoprodeckUrl?: string;
+  konamiId?: number;
+  archetype?: string;
 }
 
 export interface ParsedDeck {
@@ -32,6 +64,14 @@ export interface ParsedDeck {
   inferredCardCount?: number;
 }
 
+export type CardRole = 'starter' | 'extender' | 'handTrap' | 'boardBreaker' | 'engine' | 'nonEngine' | 'brick';
+
+/** The roles the opening-hand odds and sample hands count. */
+export type HandCategory = Extract<CardRole, 'starter' | 'extender' | 'handTrap' | 'brick'>;
+
+/** Role ids and free-form custom tags per card, keyed by normalized card name. */
+export type DeckTags = Record<string, string[]>;
+
 export interface DeckGroups {
   main: DeckCardGroup[];
   extra: DeckCardGroup[];
@@ -52,6 +92,7 @@ export interface DeckCardGroup {
   linkValue?: number;
   orderIndex?: number;
   linkUrl?: string;
+  archetype?: string;
   pointsPerCopy: number;
   totalPoints: number;
   missingInfo: boolean;
@@ -77,12 +118,60 @@ export interface SavedDeckSummary {
   version?: number;
 }
 
+export interface SavedDeckRevision {
+  id: string;
+  deck: string;
+  savedAt: string;
+  summary?: SavedDeckSummary;
+  /** When a save replaced this list; later saves within REVISION_COALESCE_MS of it fold into that save. */
+  replacedAt?: string;
+}
+
 export interface SavedDeckEntry {
   id: string;
   name: string;
   deck: string;
   savedAt: string;
   summary?: SavedDeckSummary;
+  /** Previous versions of `deck`, newest first. */
+  history?: SavedDeckRevision[];
+  tags?: DeckTags;
+  sidePlans?: SidePlan[];
+  matches?: MatchRecord[];
+}
+
+/** Copies of one card a side plan moves; `zone` is where they go in to, or come out of. */
+export interface SidePlanCard {
+  id: number;
+  zone: 'main' | 'extra';
+  count: number;
+}
+
+export type GameResult = 'win' | 'loss' | 'draw';
+
+export interface GameRecord {
+  result: GameResult;
+  order: 'first' | 'second';
+}
+
+export interface MatchRecord {
+  id: string;
+  playedAt: string;
+  /** Opponent archetype as typed; matchups are grouped case-insensitively. */
+  opponent: string;
+  games: GameRecord[];
+  /** The YDKE list played, so results can be grouped by deck revision. */
+  deck: string;
+  sidePlanId?: string;
+  notes?: string;
+}
+
+export interface SidePlan {
+  id: string;
+  /** Usually the matchup, e.g. "vs. Snake-Eye". */
+  name: string;
+  cardsIn: SidePlanCard[];
+  cardsOut: SidePlanCard[];
 }
 
 export interface SavedDeckFolder {
@@ -91,24 +180,98 @@ export interface SavedDeckFolder {
   decks: SavedDeckEntry[];
 }
 
-export type Format = 'genesys' | 'advanced';
+export type MetaFormat = 'genesys' | 'advanced';
+
+export type BanStatus = 'Forbidden' | 'Limited' | 'Semi-Limited';
+
+export interface DeckSizeRange {
+  min: number;
+  max: number;
+}
+
+export type PointSource = 'genesys' | 'custom' | 'none';
+
+export interface FormatProfile {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn?: boolean;
+  pointSource: PointSource;
+  customPoints?: GenesysCard[];
+  pointCap: number;
+  blockedCardTypes: string[];
+  banlistSource: 'tcg' | 'none';
+  forbiddenAsLimited: boolean;
+  banlist: Record<string, BanStatus>; // house rulings keyed by card name
+  copyLimit: number;
+  deckSizes: Record<DeckSection, DeckSizeRange>;
+  metaFormat: MetaFormat;
+}
+
+/** Settings a backup carries besides the library and player profile. */
+export interface BackupSettings {
+  /** Custom format profiles only; the built-in ones ship with the app. */
+  formatProfiles: FormatProfile[];
+  activeFormatProfileId?: string;
+  /** Date of the newest point list update already marked as seen. */
+  pointChangesSeen?: string;
+}
+
+/** A full backup. Card tags, side plans, match logs and revision history travel inside each saved deck. */
+export interface LibraryBackup {
+  createdAt: string;
+  folders: SavedDeckFolder[];
+  profile?: Partial<UserProfile>;
+  settings?: BackupSettings;
+}
+
+export type RestoreStrategy = 'replace' | 'merge-id' | 'merge-ydke';
+
+export type LegalityViolationCode =
+  | 'deck-size'
+  | 'copy-limit'
+  | 'forbidden'
+  | 'blocked-type'
+  | 'wrong-zone';
+
+export interface LegalityViolation {
+  code: LegalityViolationCode;
+  message: string;
+  zone?: DeckSection;
+  cardIds?: number[];
+  cardName?: string;
+  count?: number;
+  limit?: number;
+}
+
+export interface DeckLegality {
+  isLegal: boolean;
+  violations: LegalityViolation[];
+  cardViolations: Record<number, LegalityViolation[]>;
+}
+
+export interface MetaDeckList {
+  main: number[];
+  extra: number[];
+  side: number[];
+}
+
+export interface MetaDeck {
+  name: string;
+  url: string;
+  meta: string;
+  /** Passcodes captured from the deck page by the meta update script. */
+  cards?: MetaDeckList;
+}
 
 export interface MetaData {
   lastUpdated: string;
   genesys: {
-    recentDecks: Array<{
-      name: string;
-      url: string;
-      meta: string;
-    }>;
+    recentDecks: MetaDeck[];
   };
   advanced: {
-    recentDecks: Array<{
-      name: string;
-      url: string;
-      meta: string;
-    }>;
-    banlist: Record<string, 'Forbidden' | 'Limited' | 'Semi-Limited'>;
+    recentDecks: MetaDeck[];
+    banlist: Record<string, BanStatus>;
   };
   popularCards: Record<string, {
     name: string;
@@ -132,4 +295,5 @@ export interface UserProfile {
   residency: string;
   eventName: string;
   eventDate: string; // ISO string or empty
+  ydkCardNames?: boolean; // card-name comments in .ydk exports, on unless set to false
 }
@@ -0,0 +1,103 @@
+import { expect, test } from '@playwright/test';
+import { backupNeedsPassphrase, createBackup, parseBackup, planRestore, serializeBackup } from '../src/lib/backup';
+import { buildYdke } from '../src/lib/ydke';
+import { DEFAULT_FOLDER_ID, createFolder } from '../src/constants';
+import type { SavedDeckEntry } from '../src/types';
+import { savedDeck, savedLibrary } from './fixtures';
+
+const entry = (id: string, main: number[], savedAt?: string): SavedDeckEntry =>
+  savedDeck(id, { deck: buildYdke(main, [], []), summary: { main: main.length, extra: 0, side: 0 }, ...(savedAt ? { savedAt } : {}) });
+
+const library = () => savedLibrary([entry('a', [1, 2]), entry('b', [3])], [entry('c', [4])]);
+
+const names = (items: { name: string }[]) => items.map((item) => item.name);
+
+test.describe('Library backups', () => {
+  test('round-trips the library, profile and settings', async () => {
+    const backup = createBackup(library(), { fullName: 'Seto Kaiba', konamiId: '0123' }, {
+      formatProfiles: [],
+      activeFormatProfileId: 'genesys',
+      pointChangesSeen: '2026-09-01',
+    });
+    const text = await serializeBackup(backup);
+    expect(backupNeedsPassphrase(text)).toBe(false);
+
+    const restored = await parseBackup(text);
+    expect(restored.folders).toEqual(library());
+    expect(restored.profile).toEqual({ fullName: 'Seto Kaiba', konamiId: '0123' });
+    expect(restored.settings).toEqual({ formatProfiles: [], activeFormatProfileId: 'genesys', pointChangesSeen: '2026-09-01' });
+  });
+
+  test('encrypts with a passphrase and rejects a wrong one', async () => {
+    const text = await serializeBackup(createBackup(library(), {}, { formatProfiles: [] }), 'blue-eyes');
+    expect(backupNeedsPassphrase(text)).toBe(true);
+    expect(text).not.toContain('Unsorted');
+
+    await expect(parseBackup(text)).rejects.toThrow('encrypted');
+    await expect(parseBackup(text, 'red-eyes')).rejects.toThrow('Wrong passphrase');
+    expect((await parseBackup(text, 'blue-eyes')).folders).toEqual(library());
+  });
+
+  test('reads plain library exports and refuses other files', async () => {
+    // The shape of the library exports that full backups replaced.
+    const restored = await parseBackup(JSON.stringify({ version: 3, folders: library() }, null, 2));
+    expect(restored.folders).toEqual(library());
+    expect(restored.settings).toBeUndefined();
+
+    await expect(parseBackup('not json')).rejects.toThrow('not a deck library backup');
+    await expect(parseBackup('{"hello":"world"}')).rejects.toThrow('not a deck library backup');
+  });
+
+  test('previews a replace, including the decks it removes', () => {
+    const incoming = [createFolder('Unsorted', DEFAULT_FOLDER_ID, [entry('a', [1, 2]), { ...entry('b', [3]), name: 'Renamed' }, entry('d', [5])])];
+    const plan = planRestore(library(), incoming, 'replace');
+    expect(plan.folders).toBe(incoming);
+    expect(names(plan.added)).toEqual(['d']);
+    expect(names(plan.updated)).toEqual(['Renamed']);
+    expect(names(plan.skipped)).toEqual(['a']);
+    expect(names(plan.removed)).toEqual(['c']);
+  });
+
+  test('merges by deck id without overwriting newer saves', () => {
+    const incoming = [
+      createFolder('Unsorted', DEFAULT_FOLDER_ID, [
+        entry('a', [1, 2]),
+        entry('b', [3, 3], '2026-02-01T00:00:00.000Z'),
+        entry('c', [9], '2025-12-01T00:00:00.000Z'),
+      ]),
+      createFolder('Regionals', 'folder-regionals', [entry('d', [5])]),
+    ];
+    const plan = planRestore(library(), incoming, 'merge-id');
+    expect(names(plan.added)).toEqual(['d']);
+    expect(names(plan.updated)).toEqual(['b']);
+    expect(plan.skipped.map((item) => [item.name, item.note])).toEqual([
+      ['a', 'Unchanged'],
+      ['c', 'Saved copy is newer'],
+    ]);
+    expect(plan.folders.map((folder) => [folder.name, ...folder.decks.map((deck) => deck.id)])).toEqual([
+      ['Unsorted', 'a', 'b'],
+      ['Locals', 'c'],
+      ['Regionals', 'd'],
+    ]);
+    expect(plan.folders[0].decks[1].deck).toBe(buildYdke([3, 3], [], []));
+  });
+
+  test('merges by card list, skipping lists already saved under any name', () => {
+    const incoming = [
+      createFolder('Unsorted', DEFAULT_FOLDER_ID, [
+        { ...entry('copy-of-a', [2, 1]), name: 'Same cards' },
+        { ...entry('c', [7]), name: 'Different list, taken id' },
+        entry('e', [7]),
+      ]),
+    ];
+    const plan = planRestore(library(), incoming, 'merge-ydke');
+    expect(plan.skipped.map((item) => [item.name, item.note])).toEqual([
+      ['Same cards', 'Same list as a'],
+      ['e', 'Same list as Different list, taken id'],
+    ]);
+    expect(names(plan.added)).toEqual(['Different list, taken id']);
+    const added = plan.folders[0].decks[2];
+    expect(added.name).toBe('Different list, taken id');
+    expect(added.id).not.toBe('c');
+  });
+});
@@ -0,0 +1,32 @@
+import { expect, test } from '@playwright/test';
+import { buildCardDatabase, findSnapshotCard, searchCardDatabase } from '../src/lib/cardDatabase';
+
+const database = buildCardDatabase({
+  source: 'test',
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  fields: ['id', 'name', 'type', 'race', 'level', 'linkval', 'desc', 'konamiId'],
+  cards: [
+    [14558127, 'Ash Blossom & Joyous Spring', 'Tuner Monster', 'Zombie', 3, null, 'Hand trap.', 12950],
+    [1861629, 'Decode Talker', 'Link Monster', 'Cyberse', null, 3, 'Link monster.', 12345],
+  ],
+  aliases: { '14558128': 14558127 },
+});
+
+test.describe('Offline card database', () => {
+  test('resolves passcodes, alternate arts, names and Konami IDs', () => {
+    expect(findSnapshotCard(database, 1861629)).toMatchObject({ name: 'Decode Talker', linkValue: 3, level: undefined });
+
+    const altArt = findSnapshotCard(database, 14558128);
+    expect(altArt).toMatchObject({ id: 14558128, name: 'Ash Blossom & Joyous Spring' });
+    expect(altArt?.image).toContain('/14558128.jpg');
+
+    expect(database.byName.get('ash blossom & joyous spring')?.id).toBe(14558127);
+    expect(database.byKonamiId.get(12950)?.id).toBe(14558127);
+    expect(findSnapshotCard(database, 1)).toBeUndefined();
+  });
+
+  test('searches card names by every query token', () => {
+    expect(searchCardDatabase(database, 'joyous ash', 5).map((card) => card.id)).toEqual([14558127]);
+    expect(searchCardDatabase(database, '  ', 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { expect, test } from '@playwright/test';
+import { formatCardTag, getCardTags, normalizeDeckTags, setCardTags } from '../src/lib/cardTags';
+import { normalizeDeckEntry } from '../src/lib/storage';
+import { buildYdke, decodeDeckHash, encodeDeckHash } from '../src/lib/ydke';
+
+test.describe('Card role tags', () => {
+  test('keys tags by normalized name and cleans custom tags', () => {
+    let tags = setCardTags({}, 'Ash Blossom & Joyous Spring', ['handTrap', '  Turn   one  ', 'handTrap', '']);
+    expect(tags).toEqual({ 'ash blossom & joyous spring': ['handTrap', 'Turn one'] });
+    expect(getCardTags(tags, 'ASH BLOSSOM & JOYOUS SPRING')).toEqual(['handTrap', 'Turn one']);
+    expect(getCardTags(undefined, 'Anything')).toEqual([]);
+    expect(setCardTags(tags, 'Ash Blossom & Joyous Spring', [])).toEqual({});
+    expect(formatCardTag('boardBreaker')).toBe('Board breaker');
+    expect(formatCardTag('Turn one')).toBe('Turn one');
+
+    tags = setCardTags(tags, 'Filler', ['x'.repeat(40)]);
+    expect(getCardTags(tags, 'Filler')[0]).toHaveLength(24);
+  });
+
+  test('drops malformed tags from storage and share tokens', () => {
+    expect(normalizeDeckTags(null)).toBeUndefined();
+    expect(normalizeDeckTags(['starter'])).toBeUndefined();
+    expect(normalizeDeckTags({ Foo: 'starter', Bar: [] })).toBeUndefined();
+    expect(normalizeDeckTags({ Foo: ['starter', 3] })).toEqual({ foo: ['starter'] });
+
+    expect(normalizeDeckEntry({ id: 'd', deck: 'ydke://!!!', tags: { Foo: ['brick'] } })?.tags).toEqual({ foo: ['brick'] });
+    expect(normalizeDeckEntry({ id: 'd', deck: 'ydke://!!!', tags: 'brick' })).not.toHaveProperty('tags');
+  });
+
+  test('round-trips tags through the share token', () => {
+    const ydke = buildYdke([1, 2, 3], [], []);
+    const tags = { 'starter one': ['starter', 'engine'] };
+    const decoded = decodeDeckHash(encodeDeckHash(ydke, 'Tagged', tags));
+    expect(decoded).toEqual({ ydke, name: 'Tagged', tags });
+    expect(decodeDeckHash(encodeDeckHash(ydke, 'Plain', {})).tags).toBeUndefined();
+  });
+});
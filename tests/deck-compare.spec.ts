@@ -0,0 +1,41 @@
+import { expect, test } from '@playwright/test';
+import { compareDeckGroups, resolveCompareParam, toCompareParam } from '../src/lib/deckCompare';
+import { encodeDeckHash } from '../src/lib/ydke';
+import { createFolder } from '../src/constants';
+import type { DeckCardGroup, DeckGroups, DeckSection } from '../src/types';
+import { cardGroup } from './fixtures';
+
+const card = (id: number, name: string, count: number, pointsPerCopy: number, zone: DeckSection = 'main') =>
+  cardGroup(name, { id, count, pointsPerCopy, zone });
+
+const groups = (main: DeckCardGroup[], side: DeckCardGroup[] = []): DeckGroups => ({ main, extra: [], side });
+
+test.describe('Deck comparison', () => {
+  test('diffs counts and points by card name', () => {
+    const comparison = compareDeckGroups(
+      groups([card(1, 'Maxx "C"', 1, 20), card(2, 'Ash Blossom & Joyous Spring', 3, 0)]),
+      groups([card(3, 'Ash Blossom & Joyous Spring', 2, 0), card(4, 'Droll & Lock Bird', 2, 5)], [card(1, 'Maxx "C"', 1, 20, 'side')]),
+    );
+
+    expect(comparison.totalPointsA).toBe(20);
+    expect(comparison.totalPointsB).toBe(30);
+    expect(comparison.sections.main.map((row) => [row.name, row.countA, row.countB, row.pointDelta])).toEqual([
+      ['Maxx "C"', 1, 0, -20],
+      ['Droll & Lock Bird', 0, 2, 10],
+      ['Ash Blossom & Joyous Spring', 3, 2, 0],
+    ]);
+    expect(comparison.shared.map((row) => row.name)).toEqual(['Ash Blossom & Joyous Spring']);
+  });
+
+  test('resolves saved deck ids, share tokens and pasted links', () => {
+    const ydke = 'ydke://AQAAAA==!!!';
+    const folders = [createFolder('Unsorted', 'f', [{ id: 'saved-1', name: 'Saved', deck: ydke, savedAt: '' }])];
+    const token = encodeDeckHash(ydke, 'Shared build');
+
+    expect(resolveCompareParam('saved-1', folders)).toEqual({ ydke, name: 'Saved', savedDeckId: 'saved-1' });
+    expect(resolveCompareParam(token, folders)).toEqual({ ydke, name: 'Shared build' });
+    expect(resolveCompareParam('nope', folders)).toBeNull();
+    expect(toCompareParam(`https://example.com/#/results?deck=${encodeURIComponent(token)}`)).toBe(token);
+    expect(resolveCompareParam(toCompareParam(ydke), folders)?.ydke).toBe(ydke);
+  });
+});
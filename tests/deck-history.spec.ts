@@ -0,0 +1,53 @@
+import { expect, test } from '@playwright/test';
+import { applyDeckRevision, listDeckRevisions, restoreDeckRevision } from '../src/lib/deckHistory';
+import { diffParsedDecks, formatDeckChange } from '../src/lib/deckDiff';
+import { MAX_DECK_REVISIONS } from '../src/constants';
+import type { SavedDeckEntry } from '../src/types';
+
+const entry: SavedDeckEntry = { id: 'deck', name: 'Deck', deck: 'v1', savedAt: '2026-01-01T10:00:00.000Z' };
+
+test.describe('Deck version history', () => {
+  test('keeps previous lists, coalescing bursts of saves', () => {
+    const second = applyDeckRevision(entry, { deck: 'v2', savedAt: '2026-01-01T10:00:05.000Z' });
+    expect(second.history?.map((revision) => revision.deck)).toEqual(['v1']);
+
+    const burst = applyDeckRevision(second, { deck: 'v3', savedAt: '2026-01-01T10:00:20.000Z' });
+    expect(burst.history?.map((revision) => revision.deck)).toEqual(['v1']);
+
+    const later = applyDeckRevision(burst, { deck: 'v4', savedAt: '2026-01-01T11:00:00.000Z' });
+    expect(listDeckRevisions(later).map((revision) => revision.deck)).toEqual(['v4', 'v3', 'v1']);
+
+    expect(applyDeckRevision(later, { deck: 'v4', savedAt: '2026-01-02T00:00:00.000Z' }).history).toHaveLength(2);
+  });
+
+  test('keeps a revision per window when saves keep coming', () => {
+    const saves = [0, 50, 100, 150].map((seconds, index) => ({
+      deck: `v${index + 2}`,
+      savedAt: new Date(Date.parse('2026-01-01T11:00:00.000Z') + seconds * 1000).toISOString(),
+    }));
+    const steady = saves.reduce(applyDeckRevision, entry);
+    expect(listDeckRevisions(steady).map((revision) => revision.deck)).toEqual(['v5', 'v3', 'v1']);
+  });
+
+  test('bounds the history and restores revisions', () => {
+    let current = entry;
+    for (let i = 0; i < MAX_DECK_REVISIONS + 5; i += 1) {
+      current = applyDeckRevision(current, { deck: `v${i + 2}`, savedAt: new Date(Date.UTC(2026, 0, 2, i)).toISOString() });
+    }
+    expect(current.history).toHaveLength(MAX_DECK_REVISIONS);
+
+    const target = current.history![3];
+    const restored = restoreDeckRevision(current, target.id, '2026-02-01T00:00:00.000Z');
+    expect(restored.deck).toBe(target.deck);
+    expect(restored.history?.[0].deck).toBe(current.deck);
+    expect(restored.history?.some((revision) => revision.id === target.id)).toBe(false);
+  });
+
+  test('diffs card counts per section', () => {
+    const changes = diffParsedDecks(
+      { main: [1, 1, 2, 3], extra: [4], side: [] },
+      { main: [1, 2, 2, 2], extra: [], side: [3] },
+    );
+    expect(changes.map((change) => formatDeckChange(change, `#${change.id}`))).toEqual(['+2 #2', '−1 #1', '−1 #3', '−1 #4', '+1 #3']);
+  });
+});
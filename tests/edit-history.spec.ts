@@ -0,0 +1,41 @@
+import { expect, test } from '@playwright/test';
+import { EMPTY_DECK_EDIT_HISTORY, recordDeckEdit, redoDeckEdit, undoDeckEdit } from '../src/lib/editHistory';
+
+test.describe('Deck edit undo/redo', () => {
+  test('undoes and redoes labelled edits in order', () => {
+    let history = recordDeckEdit(EMPTY_DECK_EDIT_HISTORY, 'a', 'b', 'Added Ash Blossom & Joyous Spring to Main');
+    history = recordDeckEdit(history, 'b', 'c', 'Removed Maxx "C" from Main');
+
+    const undo = undoDeckEdit(history);
+    expect(undo?.deck).toBe('b');
+    expect(undo?.label).toBe('Removed Maxx "C" from Main');
+
+    const secondUndo = undoDeckEdit(undo!.history);
+    expect(secondUndo?.deck).toBe('a');
+    expect(undoDeckEdit(secondUndo!.history)).toBeNull();
+
+    const redo = redoDeckEdit(secondUndo!.history);
+    expect(redo?.deck).toBe('b');
+    expect(redo?.label).toBe('Added Ash Blossom & Joyous Spring to Main');
+    expect(redoDeckEdit(redo!.history)?.deck).toBe('c');
+  });
+
+  test('drops the redo stack on a new edit and restarts when another deck was loaded', () => {
+    const history = recordDeckEdit(EMPTY_DECK_EDIT_HISTORY, 'a', 'b', 'first');
+    const undone = undoDeckEdit(history)!.history;
+    const branched = recordDeckEdit(undone, 'a', 'x', 'branch');
+    expect(branched.future).toEqual([]);
+    expect(branched.past).toEqual([{ deck: 'a', label: 'branch' }]);
+
+    const reloaded = recordDeckEdit(branched, 'other', 'other-2', 'edit after load');
+    expect(reloaded.past).toEqual([{ deck: 'other', label: 'edit after load' }]);
+  });
+
+  test('keeps only the most recent edits', () => {
+    let history = EMPTY_DECK_EDIT_HISTORY;
+    for (let i = 0; i < 5; i += 1) {
+      history = recordDeckEdit(history, `d${i}`, `d${i + 1}`, `edit ${i}`, 3);
+    }
+    expect(history.past.map((entry) => entry.deck)).toEqual(['d2', 'd3', 'd4']);
+  });
+});
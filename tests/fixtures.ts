@@ -0,0 +1,33 @@
+import { DEFAULT_FOLDER_ID, createFolder } from '../src/constants';
+import type { DeckCardGroup, SavedDeckEntry, SavedDeckFolder } from '../src/types';
+
+/** A saved deck named after its id, with an empty list unless `overrides` gives one. */
+export const savedDeck = (id: string, overrides: Partial<SavedDeckEntry> = {}): SavedDeckEntry => ({
+  id,
+  name: id,
+  deck: 'ydke://!!!',
+  savedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+/** The two-folder library most library specs start from: "Unsorted" and "Locals". */
+export const savedLibrary = (unsorted: SavedDeckEntry[], locals: SavedDeckEntry[]): SavedDeckFolder[] => [
+  createFolder('Unsorted', DEFAULT_FOLDER_ID, unsorted),
+  createFolder('Locals', 'folder-locals', locals),
+];
+
+/** One main deck copy of a card worth no points unless `overrides` says otherwise; the total follows the copies. */
+export const cardGroup = (name: string, overrides: Partial<DeckCardGroup> = {}): DeckCardGroup => {
+  const group: DeckCardGroup = {
+    id: name.length,
+    name,
+    count: 1,
+    zone: 'main',
+    pointsPerCopy: 0,
+    totalPoints: 0,
+    missingInfo: false,
+    notInList: false,
+    ...overrides,
+  };
+  return { ...group, totalPoints: overrides.totalPoints ?? group.pointsPerCopy * group.count };
+};
@@ -0,0 +1,36 @@
+import { expect, test } from '@playwright/test';
+import { choose, countHandCategories, hypergeometricAtLeast, openingHandOdds } from '../src/lib/handOdds';
+import { toggleCardTag } from '../src/lib/cardTags';
+import { cardGroup } from './fixtures';
+
+const group = (name: string, count: number) => cardGroup(name, { count });
+
+test.describe('Opening hand odds', () => {
+  test('matches known hypergeometric values', () => {
+    expect(choose(40, 5)).toBe(658008);
+    expect(choose(60, 30)).toBeCloseTo(1.1826458156486e17, -5);
+    // 3-of in 40 cards: 1 - C(37,5)/C(40,5) going first, 1 - C(37,6)/C(40,6) going second
+    expect(hypergeometricAtLeast(40, 3, 5, 1)).toBeCloseTo(0.33755, 5);
+    expect(hypergeometricAtLeast(40, 3, 6, 1)).toBeCloseTo(0.39433, 5);
+    expect(hypergeometricAtLeast(40, 3, 5, 0)).toBe(1);
+    expect(hypergeometricAtLeast(40, 2, 5, 3)).toBe(0);
+    expect(hypergeometricAtLeast(5, 5, 5, 5)).toBeCloseTo(1);
+  });
+
+  test('counts tagged copies per category from normalized names', () => {
+    let tags = toggleCardTag({}, 'Ash Blossom & Joyous Spring', 'handTrap');
+    tags = toggleCardTag(tags, 'Starter One', 'starter');
+    tags = toggleCardTag(tags, 'Starter One', 'extender');
+    tags = toggleCardTag(tags, 'starter one', 'extender');
+    expect(tags).toEqual({ 'ash blossom & joyous spring': ['handTrap'], 'starter one': ['starter'] });
+
+    const main = [group('Ash Blossom & Joyous Spring', 3), group('Starter One', 2), group('Filler', 35)];
+    expect(countHandCategories(main, tags)).toEqual({ starter: 2, extender: 0, handTrap: 3, brick: 0 });
+
+    const odds = openingHandOdds(main, tags, 5);
+    const handTraps = odds.find((row) => row.category === 'handTrap');
+    expect(handTraps?.atLeast).toHaveLength(3);
+    expect(handTraps?.atLeast[0]).toBeCloseTo(0.33755, 5);
+    expect(odds.find((row) => row.category === 'brick')?.atLeast).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,35 @@
+import { expect, test } from '@playwright/test';
+import { buildKonamiDeck, parseKonamiDeck } from '../src/lib/konamiDeck';
+
+// Passcode -> Konami ID
+const konamiIds: Record<number, number | undefined> = { 14558127: 12950, 23434538: 7636, 86066372: 15036, 94145021: 13596 };
+
+test.describe('Konami deck JSON', () => {
+  test('groups copies per section and round-trips through the importer', () => {
+    const deck = { main: [14558127, 23434538, 14558127, 14558127], extra: [86066372], side: [94145021, 94145021] };
+    const { json, missing } = buildKonamiDeck(deck, konamiIds);
+
+    expect(json).toEqual({
+      m: { ids: [12950, 7636], r: [3, 1] },
+      e: { ids: [15036], r: [1] },
+      s: { ids: [13596], r: [2] },
+    });
+    expect(missing).toEqual([]);
+    expect(parseKonamiDeck(JSON.parse(JSON.stringify(json)))).toEqual({
+      main: [12950, 12950, 12950, 7636],
+      extra: [15036],
+      side: [13596, 13596],
+    });
+  });
+
+  test('reports cards without a Konami ID once and leaves them out', () => {
+    const { json, missing } = buildKonamiDeck({ main: [14558127, 101, 101], extra: [], side: [101] }, konamiIds);
+    expect(json.m).toEqual({ ids: [12950], r: [1] });
+    expect(json.s).toEqual({ ids: [], r: [] });
+    expect(missing).toEqual([101]);
+  });
+
+  test('treats missing counts as single copies when importing', () => {
+    expect(parseKonamiDeck({ m: { ids: [1, 2], r: [2] }, e: {}, s: null })).toEqual({ main: [1, 1, 2], extra: [], side: [] });
+  });
+});
@@ -0,0 +1,74 @@
+import { expect, test } from '@playwright/test';
+import { validateDeck } from '../src/lib/legality';
+import { ADVANCED_PROFILE, GENESYS_PROFILE, TRADITIONAL_PROFILE, parseFormatProfiles, serializeFormatProfiles } from '../src/lib/formatProfiles';
+import type { CardDetails } from '../src/types';
+
+const CARD_DETAILS: Record<number, CardDetails> = {
+  14558127: { id: 14558127, name: 'Ash Blossom & Joyous Spring', type: 'Tuner Monster' },
+  14558128: { id: 14558128, name: 'Ash Blossom & Joyous Spring', type: 'Tuner Monster' },
+  1861629: { id: 1861629, name: 'Decode Talker', type: 'Link Monster' },
+  83764718: { id: 83764718, name: 'Monster Reborn', type: 'Spell Card' },
+  44508094: { id: 44508094, name: 'Stardust Dragon', type: 'Synchro Monster' },
+};
+
+const fill = (id: number, count: number) => Array.from({ length: count }, () => id);
+
+test.describe('Deck legality', () => {
+  test('accepts a regular 40-card deck', () => {
+    const legality = validateDeck(
+      { main: [...fill(83764718, 1), ...fill(14558127, 3), ...fill(0, 36)], extra: [44508094], side: [] },
+      CARD_DETAILS,
+      { profile: GENESYS_PROFILE },
+    );
+
+    expect(legality.violations).toEqual([]);
+    expect(legality.isLegal).toBe(true);
+  });
+
+  test('flags deck sizes, copies across alternate arts, zones and Genesys bans', () => {
+    const legality = validateDeck(
+      {
+        main: [...fill(14558127, 2), ...fill(14558128, 1), 44508094],
+        extra: [1861629, 83764718],
+        side: [14558128],
+      },
+      CARD_DETAILS,
+      { profile: GENESYS_PROFILE },
+    );
+
+    const codes = legality.violations.map((violation) => violation.code).sort();
+    expect(codes).toEqual(['blocked-type', 'copy-limit', 'deck-size', 'wrong-zone', 'wrong-zone']);
+
+    const copyLimit = legality.violations.find((violation) => violation.code === 'copy-limit');
+    expect(copyLimit?.count).toBe(4);
+    expect(legality.cardViolations[14558127]).toContain(copyLimit);
+    expect(legality.cardViolations[14558128]).toContain(copyLimit);
+  });
+
+  test('uses the banlist for Advanced copy limits', () => {
+    const legality = validateDeck(
+      { main: [...fill(83764718, 2), ...fill(0, 38)], extra: [1861629], side: [] },
+      CARD_DETAILS,
+      { profile: ADVANCED_PROFILE, banlist: { '83764718': 'Limited' } },
+    );
+
+    expect(legality.violations).toHaveLength(1);
+    expect(legality.violations[0]).toMatchObject({ code: 'copy-limit', limit: 1, count: 2 });
+  });
+
+  test('applies house rulings and Traditional Forbidden handling', () => {
+    const deck = { main: [...fill(83764718, 1), ...fill(14558127, 2), ...fill(0, 37)], extra: [], side: [] };
+    const banlist = { '83764718': 'Forbidden' as const };
+
+    expect(validateDeck(deck, CARD_DETAILS, { profile: ADVANCED_PROFILE, banlist }).violations[0]?.code).toBe('forbidden');
+    expect(validateDeck(deck, CARD_DETAILS, { profile: TRADITIONAL_PROFILE, banlist }).isLegal).toBe(true);
+
+    const [house] = parseFormatProfiles(
+      serializeFormatProfiles([{ ...GENESYS_PROFILE, id: 'house', name: 'House', banlist: { 'Ash Blossom & Joyous Spring': 'Limited' } }]),
+    );
+    const legality = validateDeck(deck, CARD_DETAILS, { profile: house });
+    expect(house.builtIn).toBeUndefined();
+    expect(legality.violations).toHaveLength(1);
+    expect(legality.violations[0]).toMatchObject({ code: 'copy-limit', limit: 1, count: 2 });
+  });
+});
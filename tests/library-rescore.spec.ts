@@ -0,0 +1,44 @@
+import { expect, test } from '@playwright/test';
+import { applyRescoredPoints, collectLibraryCardIds, rescoreLibrary } from '../src/lib/libraryRescore';
+import { buildYdke } from '../src/lib/ydke';
+import { normalizeCardName } from '../src/lib/strings';
+import type { SavedDeckEntry } from '../src/types';
+import { savedDeck, savedLibrary } from './fixtures';
+
+const entry = (id: string, deck: string, points?: number): SavedDeckEntry =>
+  savedDeck(id, { deck, summary: { main: 0, extra: 0, side: 0, points } });
+
+const cards = { 1: { name: 'Maxx "C"' }, 2: { name: 'Ash Blossom & Joyous Spring' }, 3: { name: 'Filler' } };
+const pointMap = new Map([
+  [normalizeCardName('Maxx "C"'), 60],
+  [normalizeCardName('Ash Blossom & Joyous Spring'), 10],
+]);
+
+const library = () =>
+  savedLibrary(
+    [entry('same', buildYdke([2, 3], [], []), 10), entry('now-over', buildYdke([1, 1], [], [2]), 100)],
+    [entry('unknown', buildYdke([1, 99], [], []), 20), entry('broken', 'not a deck', 5)],
+  );
+
+test.describe('Library re-score', () => {
+  test('groups decks by folder and flags totals that changed or went over cap', () => {
+    expect(collectLibraryCardIds(library()).sort()).toEqual([1, 2, 3, 99]);
+
+    const report = rescoreLibrary(library(), cards, pointMap, 100);
+    expect(report.folders.map((folder) => [folder.folderName, folder.decks.map((deck) => deck.deckId)])).toEqual([
+      ['Unsorted', ['same', 'now-over']],
+      ['Locals', ['unknown']],
+    ]);
+    expect(report.folders[0].decks[1]).toMatchObject({ previousPoints: 100, points: 130, delta: 30, overCap: true, changed: true });
+    expect(report.folders[0].decks[0]).toMatchObject({ points: 10, changed: false, overCap: false });
+    expect(report.folders[1].decks[0]).toMatchObject({ points: 60, unknownCards: 1 });
+    expect(report).toMatchObject({ scored: 3, overCap: 1, changed: 2, skipped: 1 });
+  });
+
+  test('writes new totals into summaries except for partially identified decks', () => {
+    const folders = library();
+    const updated = applyRescoredPoints(folders, rescoreLibrary(folders, cards, pointMap, 100));
+    expect(updated[0].decks.map((deck) => deck.summary?.points)).toEqual([10, 130]);
+    expect(updated[1]).toBe(folders[1]);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect, test } from '@playwright/test';
+import { keepConflictingCopies, mergeLibraries } from '../src/lib/librarySync';
+import type { SavedDeckEntry, SavedDeckFolder } from '../src/types';
+import { savedDeck, savedLibrary } from './fixtures';
+
+const base = () => savedLibrary([savedDeck('a'), savedDeck('b')], [savedDeck('c')]);
+
+const ids = (folders: SavedDeckFolder[]) => folders.map((folder) => [folder.name, ...folder.decks.map((deck) => deck.id)]);
+
+const editDeck = (folders: SavedDeckFolder[], deckId: string, patch: Partial<SavedDeckEntry>) =>
+  folders.map((folder) => ({
+    ...folder,
+    decks: folder.decks.map((deck) => (deck.id === deckId ? { ...deck, ...patch } : deck)),
+  }));
+
+test.describe('Library sync between tabs', () => {
+  test('keeps decks saved in both tabs', () => {
+    const original = base();
+    const local = [{ ...original[0], decks: [savedDeck('mine'), ...original[0].decks] }, original[1]];
+    const remote = [{ ...original[0], decks: [savedDeck('theirs'), ...original[0].decks] }, original[1]];
+
+    const { folders, conflicts } = mergeLibraries(original, local, remote);
+    expect(ids(folders)).toEqual([
+      ['Unsorted', 'mine', 'theirs', 'a', 'b'],
+      ['Locals', 'c'],
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  test('applies edits, moves, renames and deletes made on one side only', () => {
+    const original = base();
+    const local = editDeck(original, 'b', { name: 'Renamed here' });
+    // The other tab moved "a" into the renamed second folder and deleted "c".
+    const remote = [
+      { ...original[0], decks: [original[0].decks[1]] },
+      { ...original[1], name: 'Regionals', decks: [original[0].decks[0]] },
+    ];
+
+    const { folders, conflicts } = mergeLibraries(original, local, remote);
+    expect(ids(folders)).toEqual([
+      ['Unsorted', 'b'],
+      ['Regionals', 'a'],
+    ]);
+    expect(folders[0].decks[0].name).toBe('Renamed here');
+    expect(conflicts).toEqual([]);
+  });
+
+  test('reports decks edited in both tabs and keeps this tab version', () => {
+    const original = base();
+    const local = editDeck(original, 'b', { deck: 'ydke://mine' });
+    const remote = editDeck(original, 'b', { deck: 'ydke://theirs' });
+
+    const merged = mergeLibraries(original, local, remote);
+    expect(merged.folders).toBe(local);
+    expect(merged.conflicts.map((conflict) => [conflict.local.deck, conflict.remote.deck])).toEqual([['ydke://mine', 'ydke://theirs']]);
+
+    const kept = keepConflictingCopies(merged);
+    expect(kept.folders[0].decks.map((deck) => deck.deck)).toEqual(['ydke://!!!', 'ydke://mine', 'ydke://theirs']);
+    expect(kept.conflicts[0].remote.name).toBe('b (other tab)');
+    expect(kept.conflicts[0].remote.id).not.toBe('b');
+  });
+
+  test('treats identical edits and a deleted-but-edited deck as no conflict', () => {
+    const original = base();
+    const same = editDeck(original, 'a', { name: 'Both' });
+    expect(mergeLibraries(original, same, editDeck(original, 'a', { name: 'Both' })).conflicts).toEqual([]);
+
+    const deletedHere = [{ ...original[0], decks: [original[0].decks[1]] }, original[1]];
+    const { folders, conflicts } = mergeLibraries(original, deletedHere, editDeck(original, 'a', { name: 'Kept' }));
+    expect(ids(folders)[0]).toEqual(['Unsorted', 'a', 'b']);
+    expect(conflicts).toEqual([]);
+  });
+
+  test('returns the local library untouched when the other tab changed nothing', () => {
+    const original = base();
+    const local = editDeck(original, 'c', { name: 'Only here' });
+    // Storage hands back rebuilt objects; equal content still counts as unchanged.
+    const stored = JSON.parse(JSON.stringify(original)) as SavedDeckFolder[];
+    expect(mergeLibraries(original, local, stored).folders).toBe(local);
+    expect(mergeLibraries(null, local, stored).folders).toBe(local);
+  });
+});
@@ -0,0 +1,37 @@
+import { expect, test } from '@playwright/test';
+import { moveDeckBetweenFolders, removeFolder } from '../src/lib/storage';
+import { changedFolderIds } from '../src/lib/libraryStore';
+import { DEFAULT_FOLDER_ID } from '../src/constants';
+import { savedDeck, savedLibrary } from './fixtures';
+
+const library = () => savedLibrary([savedDeck('a'), savedDeck('b'), savedDeck('c')], [savedDeck('d')]);
+
+const ids = (folders: ReturnType<typeof library>) => folders.map((folder) => folder.decks.map((deck) => deck.id));
+
+test.describe('Saved deck library', () => {
+  test('moves decks to the drop index within and across folders', () => {
+    expect(ids(moveDeckBetweenFolders(library(), DEFAULT_FOLDER_ID, 'a', DEFAULT_FOLDER_ID, 2))).toEqual([['b', 'c', 'a'], ['d']]);
+    expect(ids(moveDeckBetweenFolders(library(), DEFAULT_FOLDER_ID, 'b', 'folder-locals', 0))).toEqual([['a', 'c'], ['b', 'd']]);
+    expect(ids(moveDeckBetweenFolders(library(), DEFAULT_FOLDER_ID, 'b', 'folder-locals', 99))).toEqual([['a', 'c'], ['d', 'b']]);
+  });
+
+  test('deletes folders with or without moving their decks to Unsorted', () => {
+    expect(ids(removeFolder(library(), 'folder-locals', true))).toEqual([['a', 'b', 'c', 'd']]);
+    expect(ids(removeFolder(library(), 'folder-locals', false))).toEqual([['a', 'b', 'c']]);
+
+    const withoutUnsorted = removeFolder(library(), DEFAULT_FOLDER_ID, false);
+    const recreated = removeFolder(withoutUnsorted, 'folder-locals', true);
+    expect(recreated).toMatchObject([{ id: DEFAULT_FOLDER_ID, name: 'Unsorted' }]);
+    expect(ids(recreated)).toEqual([['d']]);
+  });
+
+  test('reports only the folders a save touched', () => {
+    const before = library();
+    expect(changedFolderIds(before, null)).toEqual([DEFAULT_FOLDER_ID, 'folder-locals']);
+    expect(changedFolderIds(before, before)).toEqual([]);
+
+    const edited = [before[0], { ...before[1], name: 'Regionals' }];
+    expect(changedFolderIds(edited, before)).toEqual(['folder-locals']);
+    expect(changedFolderIds([before[1]], before)).toEqual(['folder-locals', DEFAULT_FOLDER_ID]);
+  });
+});
@@ -64,6 +64,25 @@ async function dispatchPaste(page: Page, text: string) {
   }, text);
 }
 
+// The library moves from localStorage into IndexedDB on first load, so the saved state is read back from there.
+async function readSavedFolders(page: Page) {
+  return page.evaluate(
+    () =>
+      new Promise<Array<{ id: string; decks: Array<{ name: string; deck: string }> }>>((resolve, reject) => {
+        const request = indexedDB.open('ygo-genesys-library');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const getAll = request.result.transaction('folders', 'readonly').objectStore('folders').getAll();
+          getAll.onerror = () => reject(getAll.error);
+          getAll.onsuccess = () => {
+            request.result.close();
+            resolve(getAll.result);
+          };
+        };
+      }),
+  );
+}
+
 async function dismissWarningIfPresent(page: Page) {
   const continueButton = page.getByRole('button', { name: 'Continue' });
   if (await continueButton.count()) {
@@ -102,17 +121,18 @@ test('pasting a new deck over a loaded saved deck resets the active saved deck s
   await expect(untitledDeckButton).toBeVisible({ timeout: 30000 });
   await expect(page.getByRole('button', { name: 'Obelisk WCQ (Genesys)', exact: true })).toBeVisible();
 
-  const savedState = await page.evaluate(() =>
-    JSON.parse(window.localStorage.getItem('ygo-genesys-saved-decks-v1') ?? 'null'),
-  );
-
-  const folder = savedState.folders.find((entry: { id: string }) => entry.id === 'folder-default');
+  // Writes land asynchronously, so wait for the new deck to reach the store.
+  await expect
+    .poll(async () => (await readSavedFolders(page)).find((entry) => entry.id === 'folder-default')?.decks.length)
+    .toBe(3);
+  const folder = (await readSavedFolders(page)).find((entry) => entry.id === 'folder-default');
   expect(folder).toBeTruthy();
+  expect(await page.evaluate(() => window.localStorage.getItem('ygo-genesys-saved-decks-v1'))).toBeNull();
 
-  const obelisk = folder.decks.find((deck: { name: string }) => deck.name === 'Obelisk WCQ (Genesys)');
-  const untitled = folder.decks.find((deck: { name: string }) => deck.name === 'Untitled deck');
+  const obelisk = folder?.decks.find((deck) => deck.name === 'Obelisk WCQ (Genesys)');
+  const untitled = folder?.decks.find((deck) => deck.name === 'Untitled deck');
 
   expect(obelisk?.deck).toBe(INITIAL_SAVED_DECK);
   expect(untitled?.deck).toBe(CANONICAL_IMPORTED_DECK);
-  expect(folder.decks).toHaveLength(3);
+  expect(folder?.decks).toHaveLength(3);
 });
@@ -0,0 +1,91 @@
+import { expect, test } from '@playwright/test';
+import {
+  matchOutcome,
+  normalizeMatchLog,
+  opponentSuggestions,
+  statsByMatchup,
+  statsByRevision,
+  summarizeMatches,
+} from '../src/lib/matchLog';
+import { migrateSavedDecksPayload } from '../src/lib/storage';
+import type { GameRecord, MatchRecord, MetaData, SavedDeckEntry } from '../src/types';
+
+const game = (result: GameRecord['result'], order: GameRecord['order']): GameRecord => ({ result, order });
+const match = (id: string, opponent: string, games: GameRecord[], deck = 'ydke://current'): MatchRecord => ({
+  id,
+  playedAt: '2026-10-01T00:00:00.000Z',
+  opponent,
+  games,
+  deck,
+});
+
+const matches = [
+  match('a', 'Snake-Eye', [game('win', 'first'), game('loss', 'second'), game('win', 'first')]),
+  match('b', 'snake-eye', [game('loss', 'second'), game('loss', 'first')], 'ydke://old'),
+  match('c', 'Dracotail', [game('win', 'second')], 'ydke://gone'),
+];
+
+test.describe('Match log', () => {
+  test('scores matches by games won and splits game wins by turn order', () => {
+    expect(matches.map(matchOutcome)).toEqual(['win', 'loss', 'win']);
+    expect(matchOutcome(match('d', 'X', [game('win', 'first'), game('loss', 'second')]))).toBe('draw');
+    expect(summarizeMatches(matches)).toEqual({
+      matches: 3,
+      wins: 2,
+      losses: 1,
+      draws: 0,
+      games: 6,
+      gameWins: 3,
+      firstGames: 3,
+      firstWins: 2,
+      secondGames: 3,
+      secondWins: 1,
+    });
+  });
+
+  test('groups win rates by matchup and by deck revision', () => {
+    expect(statsByMatchup(matches).map((row) => [row.opponent, row.matches, row.wins])).toEqual([
+      ['Snake-Eye', 2, 1],
+      ['Dracotail', 1, 1],
+    ]);
+
+    const entry: SavedDeckEntry = {
+      id: 'deck',
+      name: 'Deck',
+      deck: 'ydke://current',
+      savedAt: '2026-10-02T00:00:00.000Z',
+      history: [{ id: 'rev-1', deck: 'ydke://old', savedAt: '2026-09-01T00:00:00.000Z' }],
+      matches,
+    };
+    expect(statsByRevision(entry).map((row) => [row.revisionId, row.matches, row.wins])).toEqual([
+      ['current', 1, 1],
+      ['rev-1', 1, 0],
+      [null, 1, 1],
+    ]);
+  });
+
+  test('suggests unique Genesys deck names', () => {
+    const metaData = {
+      genesys: { recentDecks: [{ name: 'Snake-Eye', url: '', meta: '' }, { name: 'Dracotail', url: '', meta: '' }, { name: 'snake-eye', url: '', meta: '' }] },
+    } as unknown as MetaData;
+    expect(opponentSuggestions(metaData)).toEqual(['Dracotail', 'Snake-Eye']);
+  });
+
+  test('migrates older library payloads and keeps only well-formed matches', () => {
+    const legacy = migrateSavedDecksPayload({ version: 2, folders: [{ id: 'f', name: 'F', decks: [{ id: 'd', deck: 'ydke://x' }] }] });
+    expect(legacy.migrated).toBe(true);
+    expect(legacy.folders[0].decks[0]).not.toHaveProperty('matches');
+    expect(migrateSavedDecksPayload([{ id: 'd', deck: 'ydke://x' }]).migrated).toBe(true);
+
+    const current = migrateSavedDecksPayload({
+      version: 3,
+      folders: [{ id: 'f', name: 'F', decks: [{ id: 'd', deck: 'ydke://x', matches: [...matches, { id: 'broken' }] }] }],
+    });
+    expect(current.migrated).toBe(false);
+    expect(current.folders[0].decks[0].matches).toEqual(matches);
+
+    expect(normalizeMatchLog([{ ...matches[0], games: [game('win', 'first'), { result: 'maybe', order: 'first' }], notes: '  ' }])).toEqual([
+      { ...matches[0], games: [game('win', 'first')] },
+    ]);
+  });
+});
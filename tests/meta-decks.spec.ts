@@ -0,0 +1,41 @@
+import { expect, test } from '@playwright/test';
+import { findMetaDeckByUrl, metaDeckToYdke, parseYgoprodeckDeckUrl } from '../src/lib/metaDecks';
+import { parseYdke } from '../src/lib/ydke';
+import type { MetaData } from '../src/types';
+
+const metaData: MetaData = {
+  lastUpdated: '2026-08-22T06:48:06.682Z',
+  genesys: {
+    recentDecks: [
+      {
+        name: 'Dracotail',
+        url: 'https://ygoprodeck.com/deck/dracotail-727533',
+        meta: 'Top 32',
+        cards: { main: [14558127, 14558127], extra: [86066372], side: [] },
+      },
+      { name: 'Infernoid', url: 'https://ygoprodeck.com/deck/infernoid-kewl-tune-727749', meta: 'Top 8' },
+    ],
+  },
+  advanced: { recentDecks: [], banlist: {} },
+  popularCards: {},
+};
+
+test.describe('Meta deck links', () => {
+  test('keys deck URLs by their numeric id', () => {
+    expect(parseYgoprodeckDeckUrl('https://ygoprodeck.com/deck/dracotail-727533')).toBe('727533');
+    expect(parseYgoprodeckDeckUrl('see ygoprodeck.com/deck/Dracotail-Renamed-727533?utm=x')).toBe('727533');
+    expect(parseYgoprodeckDeckUrl('https://ygoprodeck.com/deck/no-id')).toBe('no-id');
+    expect(parseYgoprodeckDeckUrl('https://ygoprodeck.com/card/ash-blossom')).toBeNull();
+  });
+
+  test('finds snapshot decks and converts captured lists to YDKE', () => {
+    const match = findMetaDeckByUrl('https://ygoprodeck.com/deck/dracotail-727533', metaData);
+    expect(match?.format).toBe('genesys');
+    expect(parseYdke(metaDeckToYdke(match!.deck)!)).toEqual({ main: [14558127, 14558127], extra: [86066372], side: [] });
+
+    const withoutList = findMetaDeckByUrl('https://ygoprodeck.com/deck/infernoid-kewl-tune-727749', metaData);
+    expect(withoutList?.deck.name).toBe('Infernoid');
+    expect(metaDeckToYdke(withoutList!.deck)).toBeNull();
+    expect(findMetaDeckByUrl('https://ygoprodeck.com/deck/unknown-1', metaData)).toBeNull();
+  });
+});
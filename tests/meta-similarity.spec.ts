@@ -0,0 +1,45 @@
+import { expect, test } from '@playwright/test';
+import { compareWithMetaDeck, countCards, rankMetaDecks, weightedJaccard } from '../src/lib/metaSimilarity';
+import type { MetaDeck } from '../src/types';
+
+const metaDeck = (name: string, main: number[], extra: number[] = [], side: number[] = []): MetaDeck => ({
+  name,
+  url: `https://ygoprodeck.com/deck/${name.toLowerCase()}-1`,
+  meta: 'Top 8',
+  cards: { main, extra, side },
+});
+
+test.describe('Meta deck similarity', () => {
+  test('weights overlap by copy count', () => {
+    expect(weightedJaccard(countCards([1, 1, 1, 2]), countCards([1, 1, 1, 2]))).toBe(1);
+    // min: 1 + 0 + 0 = 1, max: 3 + 1 + 1 = 5
+    expect(weightedJaccard(countCards([1, 1, 1, 2]), countCards([1, 3]))).toBeCloseTo(0.2);
+    expect(weightedJaccard(countCards([]), countCards([]))).toBe(0);
+  });
+
+  test('lists shared and missing copies and ignores side decks', () => {
+    const result = compareWithMetaDeck(countCards([1, 1, 2, 9]), metaDeck('Alpha', [1, 1, 1, 2, 3], [4], [9, 9, 9]));
+    expect(result?.shared).toEqual([
+      { id: 1, count: 2 },
+      { id: 2, count: 1 },
+    ]);
+    expect(result?.missing).toEqual([
+      { id: 1, count: 1 },
+      { id: 3, count: 1 },
+      { id: 4, count: 1 },
+    ]);
+    // min: 2 + 1 = 3, max: 3 + 1 + 1 + 1 + 1 (card 9 only in ours) = 7
+    expect(result?.similarity).toBeCloseTo(3 / 7);
+  });
+
+  test('ranks decks closest first and skips decks without a list', () => {
+    const ours = countCards([1, 1, 2, 2, 3]);
+    const ranked = rankMetaDecks(ours, [
+      metaDeck('Far', [7, 8, 9]),
+      { name: 'Unknown', url: 'https://ygoprodeck.com/deck/unknown-2', meta: '' },
+      metaDeck('Close', [1, 1, 2, 2]),
+      metaDeck('Middle', [1, 2, 5]),
+    ]);
+    expect(ranked.map((entry) => entry.deck.name)).toEqual(['Close', 'Middle', 'Far']);
+  });
+});
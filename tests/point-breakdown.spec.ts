@@ -0,0 +1,52 @@
+import { expect, test } from '@playwright/test';
+import { buildPointBreakdown, cardTypeBucket } from '../src/lib/pointBreakdown';
+import type { DeckCardGroup, DeckGroups, DeckSection } from '../src/types';
+import { cardGroup } from './fixtures';
+
+const group = (name: string, zone: DeckSection, count: number, pointsPerCopy: number, extra: Partial<DeckCardGroup> = {}) =>
+  cardGroup(name, { zone, count, pointsPerCopy, ...extra });
+
+const deckGroups: DeckGroups = {
+  main: [
+    group('Ash Blossom & Joyous Spring', 'main', 3, 20, { type: 'Effect Monster' }),
+    group('Called by the Grave', 'main', 2, 10, { type: 'Spell Card' }),
+    group('Snake-Eye Ash', 'main', 3, 0, { type: 'Effect Monster', archetype: 'Snake-Eye' }),
+  ],
+  extra: [group('Accesscode Talker', 'extra', 1, 10, { type: 'Link Monster' })],
+  side: [group('Ash Blossom & Joyous Spring', 'side', 1, 20, { type: 'Effect Monster' })],
+};
+
+test.describe('Point breakdown', () => {
+  test('buckets card types, with extra deck monsters in their own bucket wherever they sit', () => {
+    expect(cardTypeBucket(group('Trap', 'main', 1, 0, { type: 'Trap Card' }))).toBe('trap');
+    expect(cardTypeBucket(group('Link', 'side', 1, 0, { type: 'Link Monster' }))).toBe('extra');
+    expect(cardTypeBucket(group('Unknown', 'main', 1, 0))).toBe('monster');
+  });
+
+  test('sorts spend per dimension and drops buckets without points', () => {
+    const sections = buildPointBreakdown(deckGroups, 'section');
+    expect(sections.map((row) => [row.key, row.points, row.copies])).toEqual([
+      ['main', 80, 8],
+      ['side', 20, 1],
+      ['extra', 10, 1],
+    ]);
+    expect(sections[0].share).toBeCloseTo(80 / 110);
+    expect(sections[0].pointsPerCopy).toBe(10);
+
+    const cards = buildPointBreakdown(deckGroups, 'card');
+    expect(cards[0]).toMatchObject({ label: 'Ash Blossom & Joyous Spring', points: 80, copies: 4, pointsPerCopy: 20 });
+    expect(cards.map((row) => row.label)).not.toContain('Snake-Eye Ash');
+
+    expect(buildPointBreakdown(deckGroups, 'archetype').map((row) => row.label)).toEqual(['No archetype']);
+  });
+
+  test('counts multi-tagged cards toward every tag', () => {
+    const tags = { 'ash blossom & joyous spring': ['handTrap', 'nonEngine'] };
+    const rows = buildPointBreakdown(deckGroups, 'tag', tags);
+    expect(rows.map((row) => [row.label, row.points])).toEqual([
+      ['Hand trap', 80],
+      ['Non-engine', 80],
+      ['Untagged', 30],
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { expect, test } from '@playwright/test';
+import { buildPointChangelog, diffPointLists, findDeckPointChanges, formatPointChange } from '../src/lib/pointChangelog';
+import type { GenesysSnapshot } from '../src/types';
+
+const snapshot = (date: string, cards: Array<[string, number]>, time = '06:00'): GenesysSnapshot => ({
+  date,
+  lastUpdated: `${date}T${time}:00.000Z`,
+  cards: cards.map(([name, points]) => ({ name, points })),
+});
+
+test.describe('Point list changelog', () => {
+  test('classifies added, removed, increased and decreased cards', () => {
+    const changes = diffPointLists(
+      snapshot('2026-01-01', [['Maxx "C"', 20], ['Ash Blossom & Joyous Spring', 10], ['Called by the Grave', 5]]).cards,
+      snapshot('2026-02-01', [['Maxx "C"', 30], ['Ash Blossom & Joyous Spring', 5], ['Nibiru, the Primal Being', 15]]).cards,
+    );
+    expect(changes.map((change) => [change.kind, change.name, change.before, change.after])).toEqual([
+      ['added', 'Nibiru, the Primal Being', 0, 15],
+      ['increased', 'Maxx "C"', 20, 30],
+      ['decreased', 'Ash Blossom & Joyous Spring', 10, 5],
+      ['removed', 'Called by the Grave', 5, 0],
+    ]);
+    expect(formatPointChange(changes[1])).toBe('Maxx "C": 20 → 30 pts');
+  });
+
+  test('builds a newest-first changelog and finds changes affecting a deck', () => {
+    const changelog = buildPointChangelog([
+      snapshot('2026-03-01', [['Maxx "C"', 30], ['Droll & Lock Bird', 10]]),
+      snapshot('2026-01-01', [['Maxx "C"', 20]]),
+      snapshot('2026-02-01', [['Maxx "C"', 30]]),
+    ]);
+    expect(changelog.map((entry) => [entry.date, entry.previousDate])).toEqual([
+      ['2026-03-01', '2026-02-01'],
+      ['2026-02-01', '2026-01-01'],
+    ]);
+    expect(findDeckPointChanges(changelog[0], ['Maxx "C"', 'Droll & Lock Bird']).map((change) => change.name)).toEqual([
+      'Droll & Lock Bird',
+    ]);
+    expect(findDeckPointChanges(changelog[1], ['Droll & Lock Bird'])).toEqual([]);
+  });
+
+  test('keeps two updates from the same day in capture order', () => {
+    const changelog = buildPointChangelog([
+      snapshot('2026-04-01', [['Maxx "C"', 40]], '18:00'),
+      snapshot('2026-04-01', [['Maxx "C"', 30]]),
+      snapshot('2026-03-01', [['Maxx "C"', 20]]),
+    ]);
+    expect(changelog.map((entry) => [entry.lastUpdated, entry.changes[0].after])).toEqual([
+      ['2026-04-01T18:00:00.000Z', 40],
+      ['2026-04-01T06:00:00.000Z', 30],
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { expect, test } from '@playwright/test';
+import { applyPointCutPlan, planPointCuts } from '../src/lib/pointOptimizer';
+import type { DeckGroups, DeckSection } from '../src/types';
+import { cardGroup } from './fixtures';
+
+const group = (zone: DeckSection, id: number, name: string, count: number, pointsPerCopy: number) =>
+  cardGroup(name, { zone, id, count, pointsPerCopy });
+
+// 44 main cards worth 100 points, plus a 10 point extra deck card.
+const groups: DeckGroups = {
+  main: [
+    group('main', 1, 'Maxx "C"', 2, 30),
+    group('main', 2, 'Ash Blossom & Joyous Spring', 3, 10),
+    group('main', 3, 'Called by the Grave', 2, 5),
+    group('main', 4, 'Filler', 37, 0),
+  ],
+  extra: [group('extra', 5, 'Accesscode Talker', 1, 10)],
+  side: [],
+};
+
+test.describe('Point cap optimizer', () => {
+  test('ranks minimal plans by cards removed', () => {
+    const { overage, plans } = planPointCuts(groups, { pointCap: 80, minMainDeck: 40 });
+    expect(overage).toBe(30);
+    expect(plans[0]).toMatchObject({ cardsRemoved: 1, pointsRemoved: 30, pointsAfter: 80 });
+    expect(plans[0].cuts).toEqual([{ zone: 'main', id: 1, name: 'Maxx "C"', copies: 1, pointsPerCopy: 30 }]);
+    expect(plans.slice(1).every((plan) => plan.cardsRemoved >= 2)).toBe(true);
+    expect(plans.every((plan) => plan.pointsAfter <= 80)).toBe(true);
+  });
+
+  test('respects locked cards and the main deck minimum', () => {
+    const locked = planPointCuts(groups, { pointCap: 80, minMainDeck: 40, lockedIds: [1] });
+    expect(locked.plans.length).toBeGreaterThan(0);
+    expect(locked.plans.every((plan) => plan.cuts.every((cut) => cut.id !== 1))).toBe(true);
+    expect(locked.plans[0].cardsRemoved).toBe(3);
+
+    const tight = planPointCuts(groups, { pointCap: 70, minMainDeck: 43, lockedIds: [] });
+    expect(tight.plans[0].cardsRemoved).toBe(2);
+    tight.plans.forEach((plan) => {
+      const mainCut = plan.cuts.filter((cut) => cut.zone === 'main').reduce((sum, cut) => sum + cut.copies, 0);
+      expect(mainCut).toBeLessThanOrEqual(1);
+    });
+
+    expect(planPointCuts(groups, { pointCap: 10, minMainDeck: 44 }).plans).toEqual([]);
+  });
+
+  test('applies a plan to the parsed deck', () => {
+    const { plans } = planPointCuts(groups, { pointCap: 80, minMainDeck: 40 });
+    const result = applyPointCutPlan({ main: [1, 2, 1, 4], extra: [5], side: [] }, plans[0]);
+    expect(result.main).toEqual([1, 2, 4]);
+  });
+});
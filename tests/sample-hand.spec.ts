@@ -0,0 +1,57 @@
+import { expect, test } from '@playwright/test';
+import {
+  PRESET_HAND_COMBOS,
+  comboIdFor,
+  dealSampleHand,
+  drawSampleCard,
+  emptySampleHandTally,
+  formatComboLabel,
+  matchesCombo,
+  mulliganSampleHand,
+  recordSampleHand,
+  shuffleCards,
+} from '../src/lib/sampleHand';
+
+// Always swapping with index 0 makes the shuffle a fixed rotation that is easy to reason about.
+const first = () => 0;
+const main = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+test.describe('Sample hand', () => {
+  test('shuffles without losing cards and deals, draws and mulligans from one library', () => {
+    const shuffled = shuffleCards(main);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(main);
+    expect(shuffleCards(main, first)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 1]);
+
+    const dealt = dealSampleHand(main, 5, first);
+    expect(dealt.hand).toEqual([2, 3, 4, 5, 6]);
+    const drawn = drawSampleCard(dealt);
+    expect(drawn.hand).toEqual([2, 3, 4, 5, 6, 7]);
+    expect(drawn.library).toEqual([8, 9, 10, 1]);
+
+    const mulligan = mulliganSampleHand(drawn, 5);
+    expect(mulligan.mulligans).toBe(1);
+    expect(mulligan.hand).toHaveLength(5);
+    expect([...mulligan.hand, ...mulligan.library].sort((a, b) => a - b)).toEqual(main);
+    expect(drawSampleCard({ library: [], hand: [1], mulligans: 0 }).hand).toEqual([1]);
+  });
+
+  test('tallies tracked combos per opening hand', () => {
+    const custom = { id: comboIdFor({ starter: 2, brick: 0 }), requires: { starter: 2 } };
+    expect(custom.id).toBe('starter-2');
+    expect(formatComboLabel(custom)).toBe('2+ starters');
+    expect(formatComboLabel(PRESET_HAND_COMBOS[1])).toBe('Starter + extender');
+
+    const combos = [PRESET_HAND_COMBOS[0], PRESET_HAND_COMBOS[1], custom];
+    const counts = { starter: 1, extender: 1, handTrap: 0, brick: 0 };
+    expect(matchesCombo(counts, custom)).toBe(false);
+
+    let tally = recordSampleHand(emptySampleHandTally('ydke://a'), counts, combos);
+    tally = recordSampleHand(tally, { starter: 0, extender: 2, handTrap: 1, brick: 1 }, combos.slice(0, 1));
+    expect(tally.hands).toBe(2);
+    expect(tally.combos).toEqual({
+      starter: { hits: 1, hands: 2 },
+      'starter+extender': { hits: 1, hands: 1 },
+      'starter-2': { hits: 0, hands: 1 },
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { expect, test } from '@playwright/test';
+import {
+  applySidePlan,
+  emptySidePlan,
+  formatSidePlansText,
+  normalizeSidePlans,
+  setSidePlanCount,
+  validateSidePlan,
+} from '../src/lib/sidePlans';
+import type { ParsedDeck } from '../src/types';
+
+const names: Record<number, string> = { 1: 'Pot of Prosperity', 2: 'Droll & Lock Bird', 3: 'Filler', 4: 'Link', 5: 'Side Link' };
+const nameOf = (id: number) => names[id] ?? `#${id}`;
+const deck: ParsedDeck = { main: [1, 1, 1, 3, 3], extra: [4], side: [2, 2, 2, 5] };
+
+test.describe('Side plans', () => {
+  test('edits counts per card and section', () => {
+    let plan = setSidePlanCount(emptySidePlan('vs. Snake-Eye'), 'cardsIn', { id: 2, zone: 'main' }, 2);
+    plan = setSidePlanCount(plan, 'cardsIn', { id: 2, zone: 'main' }, 3);
+    plan = setSidePlanCount(plan, 'cardsOut', { id: 1, zone: 'main' }, 1);
+    expect(plan.cardsIn).toEqual([{ id: 2, zone: 'main', count: 3 }]);
+    expect(setSidePlanCount(plan, 'cardsOut', { id: 1, zone: 'main' }, 0).cardsOut).toEqual([]);
+  });
+
+  test('validates availability and per-section balance', () => {
+    let plan = setSidePlanCount(emptySidePlan('vs. Snake-Eye'), 'cardsIn', { id: 2, zone: 'main' }, 4);
+    plan = setSidePlanCount(plan, 'cardsOut', { id: 1, zone: 'main' }, 2);
+    plan = setSidePlanCount(plan, 'cardsOut', { id: 4, zone: 'extra' }, 1);
+    expect(validateSidePlan(deck, plan, nameOf)).toEqual([
+      'Droll & Lock Bird: 4 in, but the side deck has 3.',
+      'Main deck: 4 in vs 2 out.',
+      'Extra deck: 0 in vs 1 out.',
+    ]);
+
+    plan = setSidePlanCount(plan, 'cardsIn', { id: 2, zone: 'main' }, 2);
+    plan = setSidePlanCount(plan, 'cardsIn', { id: 5, zone: 'extra' }, 1);
+    expect(validateSidePlan(deck, plan, nameOf)).toEqual([]);
+  });
+
+  test('swaps cards between the side deck and their sections', () => {
+    let plan = setSidePlanCount(emptySidePlan('vs. Snake-Eye'), 'cardsIn', { id: 2, zone: 'main' }, 2);
+    plan = setSidePlanCount(plan, 'cardsOut', { id: 1, zone: 'main' }, 2);
+    const sided = applySidePlan(deck, plan);
+    expect(sided.main.sort()).toEqual([1, 2, 2, 3, 3]);
+    expect(sided.side.sort()).toEqual([1, 1, 2, 5]);
+    expect(deck.main).toEqual([1, 1, 1, 3, 3]);
+
+    expect(formatSidePlansText('Snake-Eye', [plan], nameOf)).toBe(
+      'Snake-Eye — side plans\n\nvs. Snake-Eye\n  +2 Droll & Lock Bird\n  -2 Pot of Prosperity',
+    );
+  });
+
+  test('drops malformed plans and lines from storage', () => {
+    expect(normalizeSidePlans('nope')).toBeUndefined();
+    expect(
+      normalizeSidePlans([
+        { id: 'a', name: ' vs. X ', cardsIn: [{ id: 2, zone: 'main', count: 1 }, { id: 2, zone: 'side', count: 1 }], cardsOut: 'x' },
+        { name: 'missing id' },
+      ]),
+    ).toEqual([{ id: 'a', name: 'vs. X', cardsIn: [{ id: 2, zone: 'main', count: 1 }], cardsOut: [] }]);
+  });
+});
@@ -0,0 +1,66 @@
+import { expect, test } from '@playwright/test';
+import { buildDecklistDeck, parseTextDecklist, pickCardMatch, resolveDecklistNames } from '../src/lib/textDecklist';
+import type { CardDetails } from '../src/types';
+
+const card = (id: number, name: string, type = 'Effect Monster'): CardDetails => ({ id, name, type });
+
+test.describe('Text decklist import', () => {
+  test('parses quantities, section headers and our own text export', () => {
+    const lines = parseTextDecklist(`Deck: Locals build
+----------------------------------------
+
+// Main Deck (41 cards)
+3x Ash Blossom & Joyous Spring [10 pts]
+2 Maxx "C"
+Called by the Grave x1
+7 Colored Fish
+Monsters (12)
+- Nibiru, the Primal Being
+
+Extra:
+1x Accesscode Talker
+=== Side Deck ===
+Droll & Lock Bird x 2
+
+Total Points: 30
+Point Cap: 100`);
+    expect(lines.map(({ zone, count, name }) => [zone, count, name])).toEqual([
+      ['main', 3, 'Ash Blossom & Joyous Spring'],
+      ['main', 2, 'Maxx "C"'],
+      ['main', 1, 'Called by the Grave'],
+      ['main', 1, '7 Colored Fish'],
+      ['main', 1, 'Nibiru, the Primal Being'],
+      ['extra', 1, 'Accesscode Talker'],
+      ['side', 2, 'Droll & Lock Bird'],
+    ]);
+    expect(lines[0].lineNumber).toBe(5);
+  });
+
+  test('classifies exact, fuzzy, ambiguous and unresolved matches', () => {
+    const ash = card(14558127, 'Ash Blossom & Joyous Spring');
+    expect(pickCardMatch('ash blossom & joyous spring', [ash]).status).toBe('exact');
+    expect(pickCardMatch('Ash Blossom and Joyous Spring', [card(1, 'Ash Blossom'), ash])).toMatchObject({
+      status: 'fuzzy',
+      card: ash,
+    });
+    const ambiguous = pickCardMatch('Purrely Memory', [card(2, 'Purrely Sleepy Memory'), card(4, 'Purrely Happy Memory')]);
+    expect(ambiguous.status).toBe('ambiguous');
+    expect(ambiguous.candidates).toHaveLength(2);
+    expect(pickCardMatch('Nothing', []).status).toBe('unresolved');
+  });
+
+  test('resolves each name once and builds the deck from the picks', async () => {
+    const lines = parseTextDecklist('Main Deck\n2x Maxx "C"\n1 Maxx "C"\nAccesscode Talker\nSide\nMystery card x2');
+    const queried: string[] = [];
+    const resolutions = await resolveDecklistNames(lines, async (name) => {
+      queried.push(name);
+      return pickCardMatch(name, name === 'Mystery card' ? [] : [card(name.length, name, name.startsWith('Access') ? 'Link Monster' : 'Effect Monster')]);
+    });
+    expect(queried).toEqual(['Maxx "C"', 'Accesscode Talker', 'Mystery card']);
+
+    const picks = Object.fromEntries(Object.entries(resolutions).map(([key, resolution]) => [key, resolution.card]));
+    const { deck, skipped } = buildDecklistDeck(lines, picks);
+    expect(deck).toEqual({ main: [8, 8, 8], extra: [17], side: [] });
+    expect(skipped).toBe(2);
+  });
+});
@@ -0,0 +1,34 @@
+import { expect, test } from '@playwright/test';
+import { buildYdk, parseYdk } from '../src/lib/ydke';
+
+const deck = { main: [14558127, 14558127, 23434538], extra: [86066372], side: [0, 94145021] };
+
+test.describe('YDK export', () => {
+  test('writes standard headers with card-name comments on their own lines', () => {
+    const text = buildYdk(deck, {
+      cardNames: { 14558127: 'Ash Blossom & Joyous Spring', 23434538: 'Maxx "C"', 86066372: 'Accesscode Talker' },
+      deckName: 'Locals build',
+    });
+    expect(text.split('\n')).toEqual([
+      '#created by YGO Genesys Helper',
+      '# Locals build',
+      '#main',
+      '# Ash Blossom & Joyous Spring',
+      '14558127',
+      '14558127',
+      '# Maxx "C"',
+      '23434538',
+      '#extra',
+      '# Accesscode Talker',
+      '86066372',
+      '!side',
+      '94145021',
+      '',
+    ]);
+    expect(parseYdk(text)).toEqual({ main: deck.main, extra: deck.extra, side: [94145021] });
+  });
+
+  test('omits comments when no names are given', () => {
+    expect(buildYdk({ main: [1], extra: [], side: [] })).toBe('#created by YGO Genesys Helper\n#main\n1\n#extra\n!side\n');
+  });
+});